@@ -1,5 +1,9 @@
 const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const Player = require('../models/Player');
+
+// Player tokens are signed with the same secret but never accepted as user tokens
+const PLAYER_TOKEN_AUDIENCE = 'klopjacht-player';
 
 // Middleware to verify JWT token
 const authenticateToken = async (req, res, next) => {
@@ -176,6 +180,118 @@ const generateToken = (userId) => {
   );
 };
 
+// Generate a game-scoped token for a player session.
+// Bumping player.sessionVersion invalidates every token issued before.
+const generatePlayerToken = (player) => {
+  return jwt.sign(
+    {
+      playerId: player._id.toString(),
+      gameId: (player.game._id || player.game).toString(),
+      sessionVersion: player.sessionVersion || 0
+    },
+    process.env.JWT_SECRET,
+    {
+      expiresIn: '2d',
+      issuer: 'klopjacht-api',
+      audience: PLAYER_TOKEN_AUDIENCE
+    }
+  );
+};
+
+// Resolve a player token to its player, or to an error code
+const resolvePlayerToken = async (token) => {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET, { audience: PLAYER_TOKEN_AUDIENCE });
+    const player = await Player.findById(decoded.playerId);
+
+    if (!player || player.game.toString() !== decoded.gameId) {
+      return { error: 'INVALID_PLAYER_TOKEN' };
+    }
+
+    if ((player.sessionVersion || 0) !== decoded.sessionVersion) {
+      return { error: 'SESSION_REVOKED' };
+    }
+
+    return { player };
+  } catch (error) {
+    return { error: error.name === 'TokenExpiredError' ? 'PLAYER_TOKEN_EXPIRED' : 'INVALID_PLAYER_TOKEN' };
+  }
+};
+
+// Middleware to verify a player token (X-Player-Token header).
+// The token must belong to the :id / :playerId and :gameId in the route, if any.
+const authenticatePlayer = async (req, res, next) => {
+  try {
+    const token = req.headers['x-player-token'];
+
+    if (!token) {
+      return res.status(401).json({
+        error: 'Player token required',
+        code: 'PLAYER_TOKEN_REQUIRED'
+      });
+    }
+
+    const { player, error } = await resolvePlayerToken(token);
+
+    if (error === 'SESSION_REVOKED') {
+      return res.status(401).json({
+        error: 'Your session was ended by the game master. Please join again.',
+        code: 'SESSION_REVOKED'
+      });
+    }
+
+    if (error) {
+      return res.status(401).json({
+        error: 'Invalid or expired player token',
+        code: error
+      });
+    }
+
+    const playerId = req.params.id || req.params.playerId;
+    if (playerId && playerId !== player._id.toString()) {
+      return res.status(403).json({
+        error: 'Token does not belong to this player',
+        code: 'PLAYER_MISMATCH'
+      });
+    }
+
+    if (req.params.gameId && req.params.gameId !== player.game.toString()) {
+      return res.status(403).json({
+        error: 'Token does not belong to this game',
+        code: 'GAME_MISMATCH'
+      });
+    }
+
+    req.player = player;
+    next();
+  } catch (error) {
+    console.error('Player auth middleware error:', error);
+    res.status(500).json({
+      error: 'Authentication failed',
+      code: 'AUTH_ERROR'
+    });
+  }
+};
+
+// Optional player authentication - sets req.player for a valid X-Player-Token, null otherwise
+const optionalPlayer = async (req, res, next) => {
+  try {
+    const token = req.headers['x-player-token'];
+    req.player = token ? (await resolvePlayerToken(token)).player || null : null;
+    next();
+  } catch (error) {
+    // For optional auth, we don't fail on token errors
+    req.player = null;
+    next();
+  }
+};
+
+// Verify a player token without middleware (for socket authentication)
+const verifyPlayerToken = async (token) => {
+  const { player } = await resolvePlayerToken(token);
+  return player || null;
+};
+
 // Verify token without middleware (for socket authentication)
 const verifyToken = async (token) => {
   try {
@@ -202,5 +318,9 @@ module.exports = {
   requireOwnershipOrAdmin,
   optionalAuth,
   generateToken,
-  verifyToken
+  verifyToken,
+  generatePlayerToken,
+  authenticatePlayer,
+  optionalPlayer,
+  verifyPlayerToken
 };
@@ -0,0 +1,56 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const multer = require('multer');
+const { AppError } = require('./errorHandler');
+
+// Photos uploaded as proof for photo tasks; served to game masters only
+const PHOTO_UPLOAD_DIR = process.env.PHOTO_UPLOAD_DIR || path.join(__dirname, '..', 'uploads', 'photos');
+
+const MAX_PHOTO_SIZE = 10 * 1024 * 1024; // 10MB, phone cameras produce large files
+
+const PHOTO_EXTENSIONS = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/heic': '.heic'
+};
+
+fs.mkdirSync(PHOTO_UPLOAD_DIR, { recursive: true });
+
+const photoStorage = multer.diskStorage({
+  destination: PHOTO_UPLOAD_DIR,
+  // Random names so uploads can't be guessed or overwrite each other
+  filename: (req, file, cb) => cb(null, `${crypto.randomUUID()}${PHOTO_EXTENSIONS[file.mimetype]}`)
+});
+
+const uploadPhoto = multer({
+  storage: photoStorage,
+  limits: {
+    fileSize: MAX_PHOTO_SIZE,
+    files: 1
+  },
+  fileFilter: (req, file, cb) => {
+    if (!PHOTO_EXTENSIONS[file.mimetype]) {
+      return cb(new AppError('Only JPEG, PNG, WebP or HEIC photos are allowed', 400, 'INVALID_FILE_TYPE'));
+    }
+    cb(null, true);
+  }
+}).single('photo');
+
+// Remove an uploaded file when the request it came with is rejected
+const discardUpload = async (req) => {
+  if (!req.file) return;
+
+  try {
+    await fs.promises.unlink(req.file.path);
+  } catch (error) {
+    console.error('Failed to remove rejected upload:', error);
+  }
+};
+
+module.exports = {
+  PHOTO_UPLOAD_DIR,
+  uploadPhoto,
+  discardUpload
+};
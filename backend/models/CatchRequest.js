@@ -0,0 +1,68 @@
+const mongoose = require('mongoose');
+
+// A hunter's claim to have caught a fugitive, waiting for the fugitive to confirm or dispute it
+const catchRequestSchema = new mongoose.Schema({
+  game: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Game',
+    required: true
+  },
+  hunter: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Player',
+    required: true
+  },
+  fugitive: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Player',
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'confirmed', 'disputed', 'upheld', 'dismissed'],
+    default: 'pending'
+  },
+  // Both players' last known positions when the catch was requested
+  hunterLocation: {
+    latitude: Number,
+    longitude: Number,
+    accuracy: Number
+  },
+  fugitiveLocation: {
+    latitude: Number,
+    longitude: Number,
+    accuracy: Number
+  },
+  distance: {
+    type: Number // meters between the players
+  },
+  // Unanswered requests are confirmed automatically at this time
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  respondedAt: {
+    type: Date
+  },
+  autoConfirmed: {
+    type: Boolean,
+    default: false
+  },
+  disputeReason: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for performance
+catchRequestSchema.index({ fugitive: 1, status: 1 });
+catchRequestSchema.index({ game: 1, createdAt: -1 });
+catchRequestSchema.index({ status: 1, expiresAt: 1 });
+
+// A fugitive has at most one catch waiting for an answer, even when two hunters tag them at once
+catchRequestSchema.index({ fugitive: 1 }, { unique: true, partialFilterExpression: { status: 'pending' } });
+
+module.exports = mongoose.model('CatchRequest', catchRequestSchema);
@@ -0,0 +1,54 @@
+const mongoose = require('mongoose');
+
+// A chat message in one of a game's channels: a role, a team, or a player's thread with the game masters
+const chatMessageSchema = new mongoose.Schema({
+  game: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Game',
+    required: true
+  },
+  // role:<role>, team:<role>:<team> or gm:<playerId>
+  channel: {
+    type: String,
+    required: true,
+    maxlength: 100
+  },
+  text: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 500
+  },
+  // Taken from the authenticated socket: a player or a game master
+  senderPlayer: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Player'
+  },
+  senderUser: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  senderName: {
+    type: String,
+    required: true
+  },
+  senderRole: {
+    type: String,
+    required: true
+  },
+  // Deleted by a game master; kept out of the chat but not removed
+  deletedAt: {
+    type: Date
+  },
+  deletedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for performance
+chatMessageSchema.index({ game: 1, channel: 1, _id: -1 });
+
+module.exports = mongoose.model('ChatMessage', chatMessageSchema);
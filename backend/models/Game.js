@@ -7,7 +7,18 @@ const taskSchema = new mongoose.Schema({
     type: Number,
     required: true,
     min: 1,
-    max: 6
+    max: 20
+  },
+  type: {
+    type: String,
+    enum: ['text', 'multiple_choice', 'numeric', 'gps_checkin', 'photo'],
+    default: 'text'
+  },
+  // Branching games: tasks with the same stage are alternatives, fugitives complete one of them
+  stage: {
+    type: Number,
+    min: 1,
+    max: 20
   },
   question: {
     type: String,
@@ -16,7 +27,62 @@ const taskSchema = new mongoose.Schema({
   },
   answer: {
     type: String,
-    required: true,
+    // GPS check-ins and photos are verified without an answer
+    required: function() {
+      return ['text', 'multiple_choice', 'numeric'].includes(this.type);
+    },
+    trim: true
+  },
+  acceptedAnswers: [{
+    type: String, // Other answers that also count as correct
+    trim: true
+  }],
+  // How lenient free text answers are compared to the accepted answers
+  matching: {
+    foldAccents: { type: Boolean, default: true },
+    ignorePunctuation: { type: Boolean, default: true },
+    ignoreWhitespace: { type: Boolean, default: true },
+    ignoreArticles: { type: Boolean, default: true },
+    maxDistance: { type: Number, default: 0, min: 0, max: 5 }, // Levenshtein distance allowed for typos
+    pattern: { type: String, trim: true } // Optional case-insensitive regular expression
+  },
+  options: [{
+    type: String, // Choices shown for multiple choice tasks
+    trim: true
+  }],
+  tolerance: {
+    type: Number, // Allowed difference for numeric answers
+    min: 0
+  },
+  checkInRadius: {
+    type: Number, // meters from the task location for GPS check-ins
+    min: 5,
+    max: 500
+  },
+  // Picture, sound or video shown with the question
+  media: {
+    url: {
+      type: String,
+      trim: true
+    },
+    kind: {
+      type: String,
+      enum: ['image', 'audio', 'video']
+    },
+    caption: {
+      type: String,
+      trim: true,
+      maxlength: 200
+    }
+  },
+  // Given one at a time, in order, to fugitives who call for a hint
+  hints: [{
+    type: String,
+    trim: true,
+    maxlength: 300
+  }],
+  hint: {
+    type: String, // Single hint of games created before tasks had several
     trim: true
   },
   location: {
@@ -49,10 +115,102 @@ const taskSchema = new mongoose.Schema({
     completedAt: {
       type: Date,
       default: Date.now
-    }
+    },
+    answer: String, // What the player submitted
+    matchedAnswer: String // Accepted answer or pattern it matched
   }]
 });
 
+const revealSchema = new mongoose.Schema({
+  trigger: {
+    type: String,
+    enum: ['automatic', 'surveillance', 'atm', 'phone_call', 'penalty'],
+    default: 'automatic'
+  },
+  revealedAt: {
+    type: Date,
+    default: Date.now
+  },
+  locations: [{
+    player: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Player'
+    },
+    name: String,
+    latitude: Number,
+    longitude: Number,
+    accuracy: Number,
+    lastUpdated: Date
+  }]
+});
+
+const revealZoneSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: ['surveillance', 'atm'],
+    required: true
+  },
+  name: {
+    type: String,
+    trim: true
+  },
+  latitude: {
+    type: Number,
+    required: true
+  },
+  longitude: {
+    type: Number,
+    required: true
+  },
+  radius: {
+    type: Number,
+    default: 30, // meters
+    min: 5,
+    max: 500
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+});
+
+// Other places fugitives may be sent to escape, or decoys only hunters are shown.
+// Windows are in minutes of playing time since the start.
+const extractionPointSchema = new mongoose.Schema({
+  latitude: {
+    type: Number,
+    required: true
+  },
+  longitude: {
+    type: Number,
+    required: true
+  },
+  address: {
+    type: String,
+    trim: true
+  },
+  radius: {
+    type: Number,
+    default: 50, // meters
+    min: 5,
+    max: 500
+  },
+  decoy: {
+    type: Boolean,
+    default: false
+  },
+  opensAfterMinutes: {
+    type: Number,
+    min: 0,
+    max: 480
+  },
+  closesAfterMinutes: {
+    type: Number,
+    min: 1,
+    max: 480
+  }
+});
+
 const gameSchema = new mongoose.Schema({
   gameCode: {
     type: String,
@@ -101,13 +259,26 @@ const gameSchema = new mongoose.Schema({
       default: 50 // meters
     }
   },
+  extractionPoints: [extractionPointSchema],
   tasks: [taskSchema],
+  // HMAC key for task QR codes and manual codes; never sent to clients
+  taskSecret: {
+    type: String,
+    select: false
+  },
+  taskSecretRotatedAt: Date,
+  // Surveillance cameras and ATMs that reveal a fugitive entering them
+  revealZones: [revealZoneSchema],
   duration: {
     type: Number,
     default: 120, // minutes
     min: 30,
     max: 480
   },
+  // Set by the game master; the server starts the game at this time
+  scheduledStartTime: {
+    type: Date
+  },
   startTime: {
     type: Date
   },
@@ -120,6 +291,11 @@ const gameSchema = new mongoose.Schema({
   resumedAt: {
     type: Date
   },
+  // Total time the game has spent paused, in milliseconds; pushes the end of the game back
+  pausedDuration: {
+    type: Number,
+    default: 0
+  },
   predefinedPlayers: [{
     name: {
       type: String,
@@ -155,13 +331,27 @@ const gameSchema = new mongoose.Schema({
     }
   }],
   settings: {
+    taskCount: {
+      type: Number,
+      default: 6, // tasks each fugitive completes before heading to extraction
+      min: 1,
+      max: 20
+    },
     locationUpdateInterval: {
       type: Number,
       default: 15 // minutes
     },
+    // Minutes before the end at which players are warned; older games stored a single number
     timerWarningMinutes: {
+      type: [Number],
+      default: [30, 10, 5, 1]
+    },
+    // Minutes before the end of the game the extraction point opens; 0 keeps it open all game
+    extractionOpenMinutes: {
       type: Number,
-      default: 30
+      default: 0,
+      min: 0,
+      max: 480
     },
     maxPlayers: {
       type: Number,
@@ -172,8 +362,109 @@ const gameSchema = new mongoose.Schema({
     allowSpectators: {
       type: Boolean,
       default: false
+    },
+    // Wrong answers allowed per task before it locks; 0 means unlimited
+    maxAttempts: {
+      type: Number,
+      default: 0,
+      min: 0,
+      max: 20
+    },
+    lockoutMinutes: {
+      type: Number,
+      default: 5,
+      min: 1,
+      max: 60
+    },
+    // What a wrong answer costs the fugitive
+    wrongAnswerPenalty: {
+      type: String,
+      enum: ['none', 'reveal', 'time'],
+      default: 'none'
+    },
+    penaltyMinutes: {
+      type: Number,
+      default: 5, // taken off the fugitive's time with the 'time' penalty
+      min: 1,
+      max: 30
+    },
+    // What calling for a hint costs the fugitive
+    hintCost: {
+      type: String,
+      enum: ['none', 'reveal', 'time', 'score'],
+      default: 'reveal'
+    },
+    hintPenaltyMinutes: {
+      type: Number,
+      default: 5,
+      min: 1,
+      max: 30
+    },
+    hintScorePenalty: {
+      type: Number,
+      default: 10, // points deducted from the fugitive's score
+      min: 1,
+      max: 100
+    },
+    // How close a hunter must be to a fugitive to catch them, in meters
+    catchRadius: {
+      type: Number,
+      default: 15,
+      min: 3,
+      max: 100
+    },
+    // Positions older than this can't be used to validate a catch, in seconds
+    catchLocationMaxAge: {
+      type: Number,
+      default: 60,
+      min: 10,
+      max: 600
+    },
+    // Time a fugitive has to dispute a catch before it is confirmed, in seconds
+    catchConfirmSeconds: {
+      type: Number,
+      default: 60,
+      min: 15,
+      max: 300
+    },
+    // The order fugitives complete tasks in: by task number, any order, one task per stage,
+    // or a shuffled route per fugitive. The last task is always last.
+    taskOrder: {
+      type: String,
+      enum: ['sequential', 'free', 'branching', 'shuffled'],
+      default: 'sequential'
+    },
+    // Shuffled routes: fugitives of the same team follow the same route
+    shareRoutesByTeam: {
+      type: Boolean,
+      default: false
+    },
+    // How fugitives get their extraction point when there are several: drawn at the start,
+    // or picked by the game master (the main extraction point until they do)
+    extractionAssignment: {
+      type: String,
+      enum: ['random', 'game_master'],
+      default: 'random'
+    },
+    // Fugitives of the same team escape through the same extraction point
+    shareExtractionByTeam: {
+      type: Boolean,
+      default: false
+    }
+  },
+  // Periodic fugitive location reveals for hunters
+  revealSchedule: {
+    nextRevealAt: {
+      type: Date
+    },
+    pausedRemaining: {
+      type: Number // milliseconds left until the next reveal when the game was paused
+    },
+    lastRevealAt: {
+      type: Date
     }
   },
+  reveals: [revealSchema],
   results: {
     winner: {
       type: String,
@@ -182,8 +473,21 @@ const gameSchema = new mongoose.Schema({
     },
     gameEndReason: String,
     fugitivesEscaped: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Player' }],
+    // Hints each fugitive called for and what they cost, filled in when the game ends
+    hintUsage: [{
+      player: { type: mongoose.Schema.Types.ObjectId, ref: 'Player' },
+      hintsUsed: Number,
+      timePenaltyMinutes: Number,
+      scorePenalty: Number
+    }],
     fugitivesCaught: [{
       player: { type: mongoose.Schema.Types.ObjectId, ref: 'Player' },
+      caughtBy: { type: mongoose.Schema.Types.ObjectId, ref: 'Player' }, // Hunter who made the catch
+      method: {
+        type: String,
+        enum: ['game_master', 'proximity', 'badge'],
+        default: 'game_master'
+      },
       caughtAt: Date,
       location: {
         latitude: Number,
@@ -195,6 +499,11 @@ const gameSchema = new mongoose.Schema({
 
   // Messages sent to all players
   messages: [{
+    type: {
+      type: String,
+      enum: ['broadcast', 'timer_warning'],
+      default: 'broadcast'
+    },
     text: {
       type: String,
       required: true,
@@ -211,7 +520,34 @@ const gameSchema = new mongoose.Schema({
     recipients: {
       type: Number,
       required: true
-    }
+    },
+    // Who the message is for: everyone, one role, one team or one player
+    audience: {
+      scope: {
+        type: String,
+        enum: ['all', 'role', 'team', 'player'],
+        default: 'all'
+      },
+      role: {
+        type: String,
+        enum: ['fugitive', 'hunter', 'spectator']
+      },
+      team: String,
+      player: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Player'
+      }
+    },
+    readBy: [{
+      player: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Player'
+      },
+      readAt: {
+        type: Date,
+        default: Date.now
+      }
+    }]
   }],
 
   isActive: {
@@ -250,54 +586,239 @@ gameSchema.pre('save', async function(next) {
 // Calculate end time based on start time and duration
 gameSchema.pre('save', function(next) {
   if (this.startTime && this.duration && !this.endTime) {
-    this.endTime = new Date(this.startTime.getTime() + (this.duration * 60 * 1000));
+    this.endTime = this.getEndTime();
   }
   next();
 });
 
+// Method to get the time the game ends, pushed back by every pause so far.
+// While paused the end keeps moving, so it is given as if the game resumed now.
+gameSchema.methods.getEndTime = function(now = new Date()) {
+  if (!this.startTime) return null;
+
+  const remaining = this.getRemainingMs(now);
+  return new Date(now.getTime() + remaining);
+};
+
+// Method to get the playing time left in milliseconds; frozen while the game is paused
+gameSchema.methods.getRemainingMs = function(now = new Date()) {
+  if (!this.startTime) return null;
+
+  const clockStoppedAt = this.status === 'paused' && this.pausedAt ? this.pausedAt : now;
+  const elapsed = clockStoppedAt.getTime() - this.startTime.getTime() - (this.pausedDuration || 0);
+
+  return Math.max(0, this.duration * 60 * 1000 - elapsed);
+};
+
+// Method to start the game clock
+gameSchema.methods.startClock = function(now = new Date()) {
+  this.startTime = now;
+  this.pausedAt = undefined;
+  this.resumedAt = undefined;
+  this.pausedDuration = 0;
+  this.endTime = this.getEndTime(now);
+};
+
+// Method to stop the game clock while the game is paused
+gameSchema.methods.pauseClock = function(now = new Date()) {
+  this.pausedAt = now;
+};
+
+// Method to restart the clock, adding the pause to the accumulated paused time
+gameSchema.methods.resumeClock = function(now = new Date()) {
+  if (this.pausedAt) {
+    this.pausedDuration = (this.pausedDuration || 0) + Math.max(0, now.getTime() - this.pausedAt.getTime());
+  }
+  this.resumedAt = now;
+  this.endTime = this.getEndTime(now);
+};
+
+// Method to get the warning thresholds that fall within the game, largest first
+gameSchema.methods.getTimerWarnings = function() {
+  const minutes = [].concat(this.settings?.timerWarningMinutes ?? []);
+  return [...new Set(minutes.filter(m => m > 0 && m < this.duration))].sort((a, b) => b - a);
+};
+
+// Method to get the time the extraction point opens, or null when it is open all game
+gameSchema.methods.getExtractionOpensAt = function(now = new Date()) {
+  const openMinutes = this.settings?.extractionOpenMinutes || 0;
+  if (!openMinutes || !this.startTime) return null;
+
+  return new Date(this.getEndTime(now).getTime() - openMinutes * 60 * 1000);
+};
+
+// Method to check if fugitives may escape through the extraction point yet
+gameSchema.methods.isExtractionOpen = function(now = new Date()) {
+  const openMinutes = this.settings?.extractionOpenMinutes || 0;
+  if (!openMinutes) return true;
+
+  const remaining = this.getRemainingMs(now);
+  return remaining !== null && remaining <= openMinutes * 60 * 1000;
+};
+
+// Method to get the extraction point a fugitive escapes through: the one they were given,
+// or the main one
+gameSchema.methods.getExtractionPointForPlayer = function(player) {
+  const id = player.extractionPoint;
+  const assigned = id && this.extractionPoints.find(point => !point.decoy && point._id.equals(id));
+  return assigned || this.extractionPoint;
+};
+
+// Method to get when an extraction point opens and closes, null for no limit
+gameSchema.methods.getExtractionWindow = function(point, now = new Date()) {
+  const endTime = this.getEndTime(now);
+  const at = minutes => endTime && minutes != null
+    ? new Date(endTime.getTime() - (this.duration - minutes) * 60 * 1000)
+    : null;
+
+  const gameOpensAt = this.getExtractionOpensAt(now);
+  const pointOpensAt = at(point.opensAfterMinutes);
+
+  return {
+    opensAt: gameOpensAt && (!pointOpensAt || gameOpensAt > pointOpensAt) ? gameOpensAt : pointOpensAt,
+    closesAt: at(point.closesAfterMinutes)
+  };
+};
+
+// Method to check if fugitives may escape through an extraction point: the game's
+// extraction must be open and the point within its own window
+gameSchema.methods.isExtractionPointOpen = function(point, now = new Date()) {
+  if (!this.isExtractionOpen(now)) return false;
+
+  const { opensAfterMinutes, closesAfterMinutes } = point;
+  if (opensAfterMinutes == null && closesAfterMinutes == null) return true;
+
+  const remaining = this.getRemainingMs(now);
+  if (remaining === null) return false;
+
+  const playedMinutes = this.duration - remaining / (60 * 1000);
+  return (opensAfterMinutes == null || playedMinutes >= opensAfterMinutes) &&
+    (closesAfterMinutes == null || playedMinutes < closesAfterMinutes);
+};
+
+// Method to get every extraction point, decoys included, the way hunters see them: which
+// ones are real is not given away, not even by their order
+gameSchema.methods.getExtractionCandidates = function(now = new Date()) {
+  return [this.extractionPoint, ...this.extractionPoints]
+    .filter(point => point?.latitude !== undefined && point?.longitude !== undefined)
+    .map(point => ({
+      latitude: point.latitude,
+      longitude: point.longitude,
+      address: point.address,
+      radius: point.radius || 50,
+      ...this.getExtractionWindow(point, now)
+    }))
+    .sort((a, b) => a.latitude - b.latitude || a.longitude - b.longitude);
+};
+
+// Method to get the authoritative clock pushed to clients; they only render it
+gameSchema.methods.getClock = function(now = new Date()) {
+  const remaining = this.getRemainingMs(now);
+
+  return {
+    gameId: this._id,
+    status: this.status,
+    scheduledStartTime: this.scheduledStartTime || null,
+    startTime: this.startTime || null,
+    endTime: ['active', 'paused'].includes(this.status) ? this.getEndTime(now) : this.endTime || null,
+    remainingSeconds: remaining === null ? null : Math.ceil(remaining / 1000),
+    pausedSeconds: Math.floor((this.pausedDuration || 0) / 1000),
+    extractionOpensAt: this.getExtractionOpensAt(now),
+    serverTime: now
+  };
+};
+
 // Virtual for remaining time
 gameSchema.virtual('remainingTime').get(function() {
   if (!this.startTime || this.status !== 'active') return null;
-  
-  const now = new Date();
-  const endTime = this.endTime || new Date(this.startTime.getTime() + (this.duration * 60 * 1000));
-  const remaining = endTime.getTime() - now.getTime();
-  
-  return Math.max(0, Math.floor(remaining / 1000)); // seconds
+
+  return Math.floor(this.getRemainingMs() / 1000); // seconds
 });
 
 // Virtual for game progress
 gameSchema.virtual('progress').get(function() {
   if (!this.startTime) return 0;
-  
-  const now = new Date();
+
   const totalDuration = this.duration * 60 * 1000; // milliseconds
-  const elapsed = now.getTime() - this.startTime.getTime();
-  
+  const elapsed = totalDuration - this.getRemainingMs();
+
   return Math.min(100, Math.max(0, (elapsed / totalDuration) * 100));
 });
 
 // Method to check if game is expired
-gameSchema.methods.isExpired = function() {
+gameSchema.methods.isExpired = function(now = new Date()) {
   if (!this.startTime || this.status !== 'active') return false;
-  
-  const now = new Date();
-  const endTime = this.endTime || new Date(this.startTime.getTime() + (this.duration * 60 * 1000));
-  
-  return now > endTime;
+
+  return this.getRemainingMs(now) === 0;
+};
+
+// Number of tasks fugitives must complete (games from before the setting had 6)
+gameSchema.methods.getTaskCount = function() {
+  return this.settings?.taskCount || 6;
+};
+
+// Method to check if a player has completed every task on their route and may head to extraction
+gameSchema.methods.hasCompletedAllTasks = function(player) {
+  const route = this.getPlayerRoute(player);
+  return route.length > 0 && player.completedTasks.length >= route.length;
+};
+
+// Method to get the time a fugitive must escape by, after wrong answer time penalties
+gameSchema.methods.getDeadlineForPlayer = function(player) {
+  const endTime = ['active', 'paused'].includes(this.status) ? this.getEndTime() : this.endTime;
+  if (!endTime) return null;
+
+  return new Date(endTime.getTime() - (player.timePenaltyMinutes || 0) * 60 * 1000);
+};
+
+// Method to build a task route: the steps fugitives go through, each the task numbers they
+// may complete one of at that point. `random` shuffles the route of a shuffled game.
+gameSchema.methods.buildTaskRoute = function(random = null) {
+  const numbers = this.tasks.map(task => task.taskNumber).sort((a, b) => a - b);
+  const last = numbers.pop();
+  const taskOrder = this.settings?.taskOrder || 'sequential';
+
+  if (last === undefined) return [];
+
+  if (taskOrder === 'branching') {
+    // The extraction task is always the last stage of its own
+    const stageOf = task => task.stage || task.taskNumber;
+    const tasks = this.tasks.filter(task => task.taskNumber !== last);
+    const stages = [...new Set(tasks.map(stageOf))].sort((a, b) => a - b);
+    return [...stages.map(stage => tasks
+      .filter(task => stageOf(task) === stage)
+      .map(task => task.taskNumber)
+      .sort((a, b) => a - b)), [last]];
+  }
+
+  if (taskOrder === 'free') {
+    return [...numbers.map(() => [...numbers]), [last]];
+  }
+
+  if (taskOrder === 'shuffled' && random) {
+    for (let i = numbers.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [numbers[i], numbers[j]] = [numbers[j], numbers[i]];
+    }
+  }
+
+  return [...numbers.map(number => [number]), [last]];
 };
 
-// Method to get next task for a player
-gameSchema.methods.getNextTaskForPlayer = function(playerId) {
-  const completedTasks = this.tasks.filter(task => 
-    task.completedBy.some(completion => completion.player.toString() === playerId.toString())
-  );
-  
-  const nextTaskNumber = completedTasks.length + 1;
-  
-  if (nextTaskNumber > 6) return null; // All tasks completed
-  
-  return this.tasks.find(task => task.taskNumber === nextTaskNumber);
+// Method to get a player's route: the one they were given at the start, or the game's order
+gameSchema.methods.getPlayerRoute = function(player) {
+  return player.route?.length ? player.route : this.buildTaskRoute();
+};
+
+// Method to get the tasks a player may complete now, replacing the next task of sequential games
+gameSchema.methods.getAvailableTasksForPlayer = function(player) {
+  const completed = new Set(player.completedTasks.map(ct => ct.taskNumber));
+  const step = this.getPlayerRoute(player)[player.completedTasks.length] || [];
+
+  return step
+    .filter(taskNumber => !completed.has(taskNumber))
+    .map(taskNumber => this.tasks.find(task => task.taskNumber === taskNumber))
+    .filter(Boolean);
 };
 
 // Static method to find active games
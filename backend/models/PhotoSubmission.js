@@ -0,0 +1,63 @@
+const mongoose = require('mongoose');
+
+// Photo uploaded by a fugitive for a photo task, waiting for a game master's verdict
+const photoSubmissionSchema = new mongoose.Schema({
+  game: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Game',
+    required: true
+  },
+  player: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Player',
+    required: true
+  },
+  taskId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true
+  },
+  taskNumber: {
+    type: Number,
+    required: true
+  },
+  filename: {
+    type: String, // Name of the file in the photo upload directory
+    required: true
+  },
+  mimeType: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: Number
+  },
+  location: {
+    latitude: Number,
+    longitude: Number
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'approved', 'rejected'],
+    default: 'pending'
+  },
+  reviewedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reviewedAt: {
+    type: Date
+  },
+  reviewNote: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for performance
+photoSubmissionSchema.index({ game: 1, status: 1 });
+photoSubmissionSchema.index({ player: 1, taskNumber: 1 });
+
+module.exports = mongoose.model('PhotoSubmission', photoSubmissionSchema);
@@ -67,7 +67,60 @@ const playerSchema = new mongoose.Schema({
       type: Number
     }
   },
+  // Last position shown to hunters (see services/revealService.js)
+  revealedLocation: {
+    latitude: {
+      type: Number
+    },
+    longitude: {
+      type: Number
+    },
+    accuracy: {
+      type: Number
+    },
+    revealedAt: {
+      type: Date
+    },
+    trigger: {
+      type: String
+    }
+  },
   locationHistory: [locationHistorySchema],
+  // Reveal zones the player is currently inside, so only entering one triggers a reveal
+  activeZones: [{
+    type: mongoose.Schema.Types.ObjectId
+  }],
+  // Hints called for, in the order they were given
+  hintsUsed: [{
+    taskNumber: {
+      type: Number
+    },
+    hintNumber: {
+      type: Number
+    },
+    cost: {
+      type: String,
+      enum: ['none', 'reveal', 'time', 'score']
+    },
+    usedAt: {
+      type: Date,
+      default: Date.now
+    },
+    location: {
+      latitude: Number,
+      longitude: Number
+    }
+  }],
+  // Taken off this fugitive's time to escape for wrong answers and hints
+  timePenaltyMinutes: {
+    type: Number,
+    default: 0
+  },
+  // Points deducted from this fugitive's score for hints
+  scorePenalty: {
+    type: Number,
+    default: 0
+  },
   completedTasks: [{
     taskId: {
       type: mongoose.Schema.Types.ObjectId
@@ -82,12 +135,27 @@ const playerSchema = new mongoose.Schema({
     location: {
       latitude: Number,
       longitude: Number
+    },
+    answer: String, // What the player submitted
+    matchedAnswer: String, // Accepted answer or pattern it matched, for review
+    hintsUsed: {
+      type: Number,
+      default: 0
     }
   }],
   team: {
     type: String,
     trim: true
   },
+  // Task route given at the start: per step, the task numbers the fugitive may complete one of
+  route: {
+    type: [[Number]],
+    default: undefined
+  },
+  // One of the game's other extraction points; the main extraction point when not set
+  extractionPoint: {
+    type: mongoose.Schema.Types.ObjectId
+  },
   deviceInfo: {
     userAgent: String,
     platform: String,
@@ -116,9 +184,25 @@ const playerSchema = new mongoose.Schema({
     type: Boolean,
     default: false
   },
+  // The newest moment the server has heard about from the player's phone: items it queued
+  // offline and sends later can't be dated before it (see services/syncService.js)
+  syncedUntil: {
+    type: Date
+  },
   socketId: {
     type: String
   },
+  // Incremented to revoke all issued player tokens (e.g. lost phone)
+  sessionVersion: {
+    type: Number,
+    default: 0
+  },
+  sessionRevokedAt: Date,
+  // Muted by a game master: can read the chat but not post
+  chatMuted: {
+    type: Boolean,
+    default: false
+  },
   gameStats: {
     tasksCompleted: {
       type: Number,
@@ -160,22 +244,26 @@ playerSchema.pre('save', function(next) {
 });
 
 // Method to update location
-playerSchema.methods.updateLocation = function(latitude, longitude, accuracy = null, trigger = 'manual') {
-  // Update current location
-  this.currentLocation = {
-    latitude,
-    longitude,
-    lastUpdated: new Date(),
-    accuracy
-  };
+playerSchema.methods.updateLocation = function(latitude, longitude, accuracy = null, trigger = 'manual', recordedAt = new Date()) {
+  // Points queued while offline arrive late; one older than the current location only fills in the history
+  const lastUpdated = this.currentLocation?.lastUpdated;
+  if (!lastUpdated || recordedAt >= lastUpdated) {
+    this.currentLocation = {
+      latitude,
+      longitude,
+      lastUpdated: recordedAt,
+      accuracy
+    };
+  }
 
-  // Add to location history
-  this.locationHistory.push({
-    latitude,
-    longitude,
-    accuracy,
-    trigger
-  });
+  // Add to location history, kept in the order the points were recorded
+  const point = { latitude, longitude, accuracy, trigger, timestamp: recordedAt };
+  const index = this.locationHistory.findIndex(existing => existing.timestamp > recordedAt);
+  if (index === -1) {
+    this.locationHistory.push(point);
+  } else {
+    this.locationHistory.splice(index, 0, point);
+  }
 
   // Keep only last 100 location points to prevent document size issues
   if (this.locationHistory.length > 100) {
@@ -240,27 +328,11 @@ playerSchema.methods.isNearLocation = function(targetLat, targetLon, radiusMeter
   return distance <= radiusMeters;
 };
 
-// Method to complete a task
-playerSchema.methods.completeTask = function(taskId, taskNumber, location = null) {
-  const taskLocation = location || this.currentLocation;
-  
-  this.completedTasks.push({
-    taskId,
-    taskNumber,
-    completedAt: new Date(),
-    location: taskLocation
-  });
-
-  this.gameStats.tasksCompleted = this.completedTasks.length;
-  
-  return this.save();
+// Method to count the hints a player called for on a task
+playerSchema.methods.getHintsUsed = function(taskNumber) {
+  return this.hintsUsed.filter(hint => hint.taskNumber === taskNumber).length;
 };
 
-// Virtual for player's current task number
-playerSchema.virtual('currentTaskNumber').get(function() {
-  return this.completedTasks.length + 1;
-});
-
 // Virtual for time since last location update
 playerSchema.virtual('timeSinceLastLocation').get(function() {
   if (!this.currentLocation.lastUpdated) return null;
@@ -0,0 +1,39 @@
+const mongoose = require('mongoose');
+
+// A browser's Web Push subscription, belonging to a player or to a game master's account
+const pushSubscriptionSchema = new mongoose.Schema({
+  endpoint: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  keys: {
+    p256dh: {
+      type: String,
+      required: true
+    },
+    auth: {
+      type: String,
+      required: true
+    }
+  },
+  player: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Player'
+  },
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  userAgent: {
+    type: String
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for performance
+pushSubscriptionSchema.index({ player: 1 });
+pushSubscriptionSchema.index({ user: 1 });
+
+module.exports = mongoose.model('PushSubscription', pushSubscriptionSchema);
@@ -0,0 +1,68 @@
+const mongoose = require('mongoose');
+
+// A game event due at a set time, run by whichever server instance claims it first
+const scheduledJobSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: [
+      'game_start',
+      'timer_warning',
+      'location_reveal',
+      'extraction_open',
+      'extraction_point_open',
+      'extraction_point_close',
+      'game_end',
+      'catch_expiry'
+    ],
+    required: true
+  },
+  game: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Game',
+    required: true
+  },
+  // Identifies the job within its game, so scheduling it again moves it instead of adding a copy
+  key: {
+    type: String,
+    required: true
+  },
+  runAt: {
+    type: Date,
+    required: true
+  },
+  payload: {
+    type: mongoose.Schema.Types.Mixed
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'running', 'done', 'failed', 'cancelled'],
+    default: 'pending'
+  },
+  // The instance running the job and until when; a crashed instance's lock expires
+  lockedBy: {
+    type: String
+  },
+  lockedUntil: {
+    type: Date
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  lastError: {
+    type: String
+  },
+  finishedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for performance
+scheduledJobSchema.index({ status: 1, runAt: 1 });
+scheduledJobSchema.index({ status: 1, lockedUntil: 1 });
+scheduledJobSchema.index({ game: 1, status: 1 });
+scheduledJobSchema.index({ key: 1 }, { unique: true, partialFilterExpression: { status: 'pending' } });
+
+module.exports = mongoose.model('ScheduledJob', scheduledJobSchema);
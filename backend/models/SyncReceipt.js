@@ -0,0 +1,53 @@
+const mongoose = require('mongoose');
+
+// A location update or answer a player's phone queued while offline, stored once it was sent
+// so a batch sent again (e.g. when the response was lost) is never applied twice
+const syncReceiptSchema = new mongoose.Schema({
+  game: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Game',
+    required: true
+  },
+  player: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Player',
+    required: true
+  },
+  // Generated by the phone when it queued the item
+  clientId: {
+    type: String,
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['location', 'task_answer'],
+    required: true
+  },
+  // When the phone recorded the item, which may be long before it reached the server
+  recordedAt: {
+    type: Date,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['processing', 'applied', 'rejected'],
+    default: 'processing'
+  },
+  // What the player was told, returned again for a repeated item
+  result: {
+    type: mongoose.Schema.Types.Mixed
+  },
+  error: {
+    message: String,
+    code: String,
+    statusCode: Number
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for performance
+syncReceiptSchema.index({ player: 1, clientId: 1 }, { unique: true });
+syncReceiptSchema.index({ game: 1 });
+
+module.exports = mongoose.model('SyncReceipt', syncReceiptSchema);
@@ -0,0 +1,50 @@
+const mongoose = require('mongoose');
+
+// Every answer a fugitive submits, right or wrong
+const taskAttemptSchema = new mongoose.Schema({
+  game: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Game',
+    required: true
+  },
+  player: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Player',
+    required: true
+  },
+  taskNumber: {
+    type: Number,
+    required: true
+  },
+  answer: {
+    type: String,
+    trim: true
+  },
+  correct: {
+    type: Boolean,
+    required: true
+  },
+  matchedAnswer: {
+    type: String
+  },
+  distance: {
+    type: Number // meters from the task, for GPS check-ins
+  },
+  // Set on the attempt that used up the last try; no answers are accepted until then
+  lockedUntil: {
+    type: Date
+  },
+  penalty: {
+    type: String,
+    enum: ['none', 'reveal', 'time'],
+    default: 'none'
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for performance
+taskAttemptSchema.index({ player: 1, taskNumber: 1, createdAt: -1 });
+taskAttemptSchema.index({ game: 1 });
+
+module.exports = mongoose.model('TaskAttempt', taskAttemptSchema);
@@ -1,13 +1,57 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
-const QRCode = require('qrcode');
+const fs = require('fs');
+const path = require('path');
+const { body, query, validationResult } = require('express-validator');
 const Game = require('../models/Game');
 const Player = require('../models/Player');
+const PhotoSubmission = require('../models/PhotoSubmission');
+const TaskAttempt = require('../models/TaskAttempt');
+const CatchRequest = require('../models/CatchRequest');
+const ScheduledJob = require('../models/ScheduledJob');
+const ChatMessage = require('../models/ChatMessage');
+const SyncReceipt = require('../models/SyncReceipt');
 const { authenticateToken, requireAdmin, requireGameLead, requireOwnershipOrAdmin } = require('../middleware/auth');
 const { asyncHandler, AppError } = require('../middleware/errorHandler');
+const { PHOTO_UPLOAD_DIR } = require('../middleware/upload');
+const { generateTaskSecret, ensureTaskSecret, generateTaskQRCode, generateBadgeQRCode, getManualCode } = require('../services/taskCodeService');
+const { TASK_TYPES, validateTaskDefinition, buildTaskFields, getPlayerTaskDetails } = require('../services/taskAnswerService');
+const { HINT_COSTS, MAX_HINTS_PER_TASK } = require('../services/hintService');
+const { decideDispute } = require('../services/catchService');
+const { scheduleGameStart, startGame, pauseGame, resumeGame, endGame, scheduleExtractionPointJobs } = require('../services/gameLifecycleService');
+const { toMasterMessage, sendGameMessage } = require('../services/messageService');
+const { getGameChannels, getChatHistory, deleteChatMessage, setChatMuted } = require('../services/chatService');
+const { recordCompletion } = require('../services/taskProgressService');
+const { TASK_ORDERS } = require('../services/taskRouteService');
+const { setExtractionPoint, removeExtractionPoint } = require('../services/extractionService');
 
 const router = express.Router();
 
+// Check the submitted tasks against the game's task count and work out their order.
+// Tasks are numbered in the order given unless every task carries a `taskNumber`.
+function orderTasks(game, tasks) {
+  const taskCount = game.getTaskCount();
+
+  if (tasks.length !== taskCount) {
+    throw new AppError(`This game needs exactly ${taskCount} tasks`, 400, 'TASK_COUNT_MISMATCH');
+  }
+
+  if (!tasks.some(task => task.taskNumber !== undefined)) {
+    return tasks.map((task, index) => ({ ...task, taskNumber: index + 1 }));
+  }
+
+  const numbers = tasks.map(task => parseInt(task.taskNumber));
+  const isPermutation = numbers.every(n => n >= 1 && n <= taskCount) &&
+    new Set(numbers).size === taskCount;
+
+  if (!isPermutation) {
+    throw new AppError(`Task numbers must run from 1 to ${taskCount} without gaps or duplicates`, 400, 'INVALID_TASK_ORDER');
+  }
+
+  return tasks
+    .map((task, index) => ({ ...task, taskNumber: numbers[index] }))
+    .sort((a, b) => a.taskNumber - b.taskNumber);
+}
+
 // Validation rules
 const createGameValidation = [
   body('name')
@@ -23,6 +67,13 @@ const createGameValidation = [
     .optional()
     .isInt({ min: 30, max: 480 })
     .withMessage('Duration must be between 30 and 480 minutes'),
+  body('scheduledStartTime')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Scheduled start must be a date and time')
+    .bail()
+    .custom(value => new Date(value) > new Date())
+    .withMessage('Scheduled start must be in the future'),
   body('extractionPoint.latitude')
     .isFloat({ min: -90, max: 90 })
     .withMessage('Latitude must be between -90 and 90'),
@@ -33,21 +84,200 @@ const createGameValidation = [
     .optional()
     .trim()
     .isLength({ max: 200 })
-    .withMessage('Address must be less than 200 characters')
+    .withMessage('Address must be less than 200 characters'),
+  body('settings.timerWarningMinutes')
+    .optional()
+    .isArray({ max: 6 })
+    .withMessage('At most 6 timer warnings are allowed'),
+  body('settings.timerWarningMinutes.*')
+    .isInt({ min: 1, max: 480 })
+    .withMessage('Timer warnings must be between 1 and 480 minutes before the end'),
+  body('settings.extractionOpenMinutes')
+    .optional()
+    .isInt({ min: 0, max: 480 })
+    .withMessage('Extraction opening must be between 0 (always open) and 480 minutes before the end'),
+  body('settings.taskCount')
+    .optional()
+    .isInt({ min: 1, max: 20 })
+    .withMessage('Task count must be between 1 and 20'),
+  body('settings.maxAttempts')
+    .optional()
+    .isInt({ min: 0, max: 20 })
+    .withMessage('Max attempts must be between 0 (unlimited) and 20'),
+  body('settings.lockoutMinutes')
+    .optional()
+    .isInt({ min: 1, max: 60 })
+    .withMessage('Lockout must be between 1 and 60 minutes'),
+  body('settings.wrongAnswerPenalty')
+    .optional()
+    .isIn(['none', 'reveal', 'time'])
+    .withMessage('Wrong answer penalty must be none, reveal or time'),
+  body('settings.penaltyMinutes')
+    .optional()
+    .isInt({ min: 1, max: 30 })
+    .withMessage('Penalty must be between 1 and 30 minutes'),
+  body('settings.hintCost')
+    .optional()
+    .isIn(HINT_COSTS)
+    .withMessage(`Hint cost must be one of: ${HINT_COSTS.join(', ')}`),
+  body('settings.hintPenaltyMinutes')
+    .optional()
+    .isInt({ min: 1, max: 30 })
+    .withMessage('Hint time penalty must be between 1 and 30 minutes'),
+  body('settings.hintScorePenalty')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Hint score penalty must be between 1 and 100 points'),
+  body('settings.catchRadius')
+    .optional()
+    .isInt({ min: 3, max: 100 })
+    .withMessage('Catch radius must be between 3 and 100 meters'),
+  body('settings.catchLocationMaxAge')
+    .optional()
+    .isInt({ min: 10, max: 600 })
+    .withMessage('Catch location age must be between 10 and 600 seconds'),
+  body('settings.catchConfirmSeconds')
+    .optional()
+    .isInt({ min: 15, max: 300 })
+    .withMessage('Catch confirmation time must be between 15 and 300 seconds'),
+  body('settings.taskOrder')
+    .optional()
+    .isIn(TASK_ORDERS)
+    .withMessage(`Task order must be one of: ${TASK_ORDERS.join(', ')}`),
+  body('settings.shareRoutesByTeam')
+    .optional()
+    .isBoolean()
+    .withMessage('Share routes by team must be true or false'),
+  body('settings.extractionAssignment')
+    .optional()
+    .isIn(['random', 'game_master'])
+    .withMessage('Extraction assignment must be random or game_master'),
+  body('settings.shareExtractionByTeam')
+    .optional()
+    .isBoolean()
+    .withMessage('Share extraction points by team must be true or false')
+];
+
+const revealZoneValidation = [
+  body('zones')
+    .isArray({ min: 1 })
+    .withMessage('At least one zone is required'),
+  body('zones.*.type')
+    .isIn(['surveillance', 'atm'])
+    .withMessage('Zone type must be surveillance or atm'),
+  body('zones.*.name')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Zone name must be less than 100 characters'),
+  body('zones.*.latitude')
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('Zone latitude must be between -90 and 90'),
+  body('zones.*.longitude')
+    .isFloat({ min: -180, max: 180 })
+    .withMessage('Zone longitude must be between -180 and 180'),
+  body('zones.*.radius')
+    .optional()
+    .isInt({ min: 5, max: 500 })
+    .withMessage('Zone radius must be between 5 and 500 meters')
+];
+
+const extractionPointValidation = [
+  body('points')
+    .isArray({ min: 1, max: 10 })
+    .withMessage('Between 1 and 10 extraction points are required'),
+  body('points.*.latitude')
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('Extraction point latitude must be between -90 and 90'),
+  body('points.*.longitude')
+    .isFloat({ min: -180, max: 180 })
+    .withMessage('Extraction point longitude must be between -180 and 180'),
+  body('points.*.address')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Address must be less than 200 characters'),
+  body('points.*.radius')
+    .optional()
+    .isInt({ min: 5, max: 500 })
+    .withMessage('Extraction point radius must be between 5 and 500 meters'),
+  body('points.*.decoy')
+    .optional()
+    .isBoolean()
+    .withMessage('Decoy must be true or false'),
+  body('points.*.opensAfterMinutes')
+    .optional({ values: 'null' })
+    .isInt({ min: 0, max: 480 })
+    .withMessage('Opening must be between 0 and 480 minutes into the game')
+    .toInt(),
+  body('points.*.closesAfterMinutes')
+    .optional({ values: 'null' })
+    .isInt({ min: 1, max: 480 })
+    .withMessage('Closing must be between 1 and 480 minutes into the game')
+    .toInt()
 ];
 
 const taskValidation = [
   body('tasks')
-    .isArray({ min: 6, max: 6 })
-    .withMessage('Exactly 6 tasks are required'),
+    .isArray({ min: 1, max: 20 })
+    .withMessage('Between 1 and 20 tasks are required'),
+  body('tasks.*.taskNumber')
+    .optional()
+    .isInt({ min: 1, max: 20 })
+    .withMessage('Task number must be between 1 and 20'),
   body('tasks.*.question')
     .trim()
     .isLength({ min: 10, max: 500 })
     .withMessage('Question must be between 10 and 500 characters'),
+  body('tasks.*.type')
+    .optional()
+    .isIn(TASK_TYPES)
+    .withMessage(`Task type must be one of: ${TASK_TYPES.join(', ')}`),
   body('tasks.*.answer')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Answer must be less than 100 characters'),
+  body('tasks.*.options')
+    .optional()
+    .isArray({ max: 8 })
+    .withMessage('A task can have at most 8 options'),
+  body('tasks.*.options.*')
     .trim()
     .isLength({ min: 1, max: 100 })
-    .withMessage('Answer must be between 1 and 100 characters'),
+    .withMessage('Options must be between 1 and 100 characters'),
+  body('tasks.*.acceptedAnswers')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('A task can have at most 20 accepted answers'),
+  body('tasks.*.acceptedAnswers.*')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Accepted answers must be between 1 and 100 characters'),
+  body([
+    'tasks.*.matching.foldAccents',
+    'tasks.*.matching.ignorePunctuation',
+    'tasks.*.matching.ignoreWhitespace',
+    'tasks.*.matching.ignoreArticles'
+  ])
+    .optional()
+    .isBoolean()
+    .withMessage('Matching options must be true or false'),
+  body('tasks.*')
+    .custom(validateTaskDefinition),
+  body('tasks.*.hint')
+    .optional()
+    .trim()
+    .isLength({ max: 300 })
+    .withMessage('Hint must be less than 300 characters'),
+  body('tasks.*.hints')
+    .optional()
+    .isArray({ max: MAX_HINTS_PER_TASK })
+    .withMessage(`A task can have at most ${MAX_HINTS_PER_TASK} hints`),
+  body('tasks.*.hints.*')
+    .trim()
+    .isLength({ min: 1, max: 300 })
+    .withMessage('Each hint must be between 1 and 300 characters'),
   body('tasks.*.location.latitude')
     .isFloat({ min: -90, max: 90 })
     .withMessage('Task latitude must be between -90 and 90'),
@@ -100,10 +330,11 @@ router.get('/', authenticateToken, asyncHandler(async (req, res) => {
 
     // Add joined players data
     const joinedPlayers = await Player.find({ game: game._id })
-      .select('name role team status tasksCompleted lastSeen currentLocation')
+      .select('name role team status tasksCompleted completedTasks lastSeen currentLocation')
       .lean();
     
     game._doc.joinedPlayers = joinedPlayers;
+    game._doc.clock = game.getClock();
   }
 
   res.json({
@@ -150,10 +381,11 @@ router.get('/:id', authenticateToken, requireOwnershipOrAdmin(), asyncHandler(as
 
   // Add joined players data
   const joinedPlayers = await Player.find({ game: game._id })
-    .select('name role team status tasksCompleted lastSeen currentLocation')
+    .select('name role team status tasksCompleted completedTasks lastSeen currentLocation')
     .lean();
   
   game._doc.joinedPlayers = joinedPlayers;
+  game._doc.clock = game.getClock();
 
   res.json({ game });
 }));
@@ -170,7 +402,7 @@ router.post('/', authenticateToken, requireGameLead, createGameValidation, async
     });
   }
 
-  const { name, description, duration, extractionPoint, settings } = req.body;
+  const { name, description, duration, extractionPoint, settings, scheduledStartTime } = req.body;
 
   const game = new Game({
     name,
@@ -178,11 +410,15 @@ router.post('/', authenticateToken, requireGameLead, createGameValidation, async
     duration,
     extractionPoint,
     settings,
+    scheduledStartTime: scheduledStartTime || undefined,
     createdBy: req.user._id,
-    gameMaster: req.user._id
+    gameMaster: req.user._id,
+    taskSecret: generateTaskSecret(),
+    taskSecretRotatedAt: new Date()
   });
 
   await game.save();
+  await scheduleGameStart(game);
 
   res.status(201).json({
     message: 'Game created successfully',
@@ -191,6 +427,7 @@ router.post('/', authenticateToken, requireGameLead, createGameValidation, async
       gameCode: game.gameCode,
       name: game.name,
       status: game.status,
+      scheduledStartTime: game.scheduledStartTime,
       extractionPoint: game.extractionPoint,
       createdAt: game.createdAt
     }
@@ -226,15 +463,17 @@ router.put('/:id', authenticateToken, requireOwnershipOrAdmin(), createGameValid
     throw new AppError('Cannot update active game', 400, 'GAME_ACTIVE');
   }
 
-  const { name, description, duration, extractionPoint, settings } = req.body;
+  const { name, description, duration, extractionPoint, settings, scheduledStartTime } = req.body;
 
   game.name = name;
   game.description = description;
   game.duration = duration;
   game.extractionPoint = extractionPoint;
   if (settings) game.settings = { ...game.settings, ...settings };
+  if (scheduledStartTime !== undefined) game.scheduledStartTime = scheduledStartTime || undefined;
 
   await game.save();
+  await scheduleGameStart(game);
 
   res.json({
     message: 'Game updated successfully',
@@ -254,7 +493,7 @@ router.post('/:id/tasks', authenticateToken, requireOwnershipOrAdmin(), taskVali
     });
   }
 
-  const game = await Game.findById(req.params.id);
+  const game = await Game.findById(req.params.id).select('+taskSecret');
   if (!game) {
     throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
   }
@@ -271,35 +510,18 @@ router.post('/:id/tasks', authenticateToken, requireOwnershipOrAdmin(), taskVali
     throw new AppError('Cannot update active game', 400, 'GAME_ACTIVE');
   }
 
-  const { tasks } = req.body;
+  const tasks = orderTasks(game, req.body.tasks);
 
-  // Generate QR codes for each task
-  const tasksWithQR = await Promise.all(tasks.map(async (task, index) => {
-    const taskNumber = index + 1;
-    const qrData = {
-      gameId: game._id,
-      taskId: `task_${taskNumber}`,
-      taskNumber,
-      question: task.question,
-      url: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/task/${game._id}/${taskNumber}`
-    };
+  ensureTaskSecret(game);
 
-    const qrCode = await QRCode.toDataURL(JSON.stringify(qrData), {
-      errorCorrectionLevel: 'M',
-      type: 'image/png',
-      quality: 0.92,
-      margin: 1,
-      color: {
-        dark: '#000000',
-        light: '#FFFFFF'
-      }
-    });
+  // Generate signed QR codes for each task
+  const tasksWithQR = await Promise.all(tasks.map(async (task) => {
+    const { taskNumber } = task;
+    const qrCode = await generateTaskQRCode(game, taskNumber);
 
     return {
       taskNumber,
-      question: task.question,
-      answer: task.answer.toLowerCase().trim(), // Normalize answer
-      location: task.location,
+      ...buildTaskFields(task),
       qrCode
     };
   }));
@@ -311,6 +533,7 @@ router.post('/:id/tasks', authenticateToken, requireOwnershipOrAdmin(), taskVali
     message: 'Tasks added successfully',
     tasks: game.tasks.map(task => ({
       taskNumber: task.taskNumber,
+      type: task.type,
       question: task.question,
       location: task.location,
       qrCode: task.qrCode
@@ -330,7 +553,7 @@ router.put('/:id/tasks', authenticateToken, requireOwnershipOrAdmin(), taskValid
     });
   }
 
-  const game = await Game.findById(req.params.id);
+  const game = await Game.findById(req.params.id).select('+taskSecret');
   if (!game) {
     throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
   }
@@ -347,35 +570,18 @@ router.put('/:id/tasks', authenticateToken, requireOwnershipOrAdmin(), taskValid
     throw new AppError('Cannot update active game', 400, 'GAME_ACTIVE');
   }
 
-  const { tasks } = req.body;
+  const tasks = orderTasks(game, req.body.tasks);
 
-  // Generate QR codes for each task
-  const tasksWithQR = await Promise.all(tasks.map(async (task, index) => {
-    const taskNumber = index + 1;
-    const qrData = {
-      gameId: game._id,
-      taskId: `task_${taskNumber}`,
-      taskNumber,
-      question: task.question,
-      url: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/task/${game._id}/${taskNumber}`
-    };
+  ensureTaskSecret(game);
 
-    const qrCode = await QRCode.toDataURL(JSON.stringify(qrData), {
-      errorCorrectionLevel: 'M',
-      type: 'image/png',
-      quality: 0.92,
-      margin: 1,
-      color: {
-        dark: '#000000',
-        light: '#FFFFFF'
-      }
-    });
+  // Generate signed QR codes for each task
+  const tasksWithQR = await Promise.all(tasks.map(async (task) => {
+    const { taskNumber } = task;
+    const qrCode = await generateTaskQRCode(game, taskNumber);
 
     return {
       taskNumber,
-      question: task.question,
-      answer: task.answer.toLowerCase().trim(), // Normalize answer
-      location: task.location,
+      ...buildTaskFields(task),
       qrCode
     };
   }));
@@ -387,6 +593,7 @@ router.put('/:id/tasks', authenticateToken, requireOwnershipOrAdmin(), taskValid
     message: 'Tasks updated successfully',
     tasks: game.tasks.map(task => ({
       taskNumber: task.taskNumber,
+      type: task.type,
       question: task.question,
       location: task.location,
       qrCode: task.qrCode
@@ -410,31 +617,7 @@ router.post('/:id/start', authenticateToken, requireOwnershipOrAdmin(), asyncHan
     throw new AppError('Access denied', 403, 'ACCESS_DENIED');
   }
 
-  if (game.status !== 'setup' && game.status !== 'waiting') {
-    throw new AppError('Game cannot be started', 400, 'INVALID_GAME_STATUS');
-  }
-
-  if (game.tasks.length !== 6) {
-    throw new AppError('Game must have exactly 6 tasks', 400, 'INCOMPLETE_TASKS');
-  }
-
-  // Check if there are players
-  const playerCount = await Player.countDocuments({ game: game._id });
-  if (playerCount === 0) {
-    throw new AppError('Game must have at least one player', 400, 'NO_PLAYERS');
-  }
-
-  game.status = 'active';
-  game.startTime = new Date();
-  game.endTime = new Date(Date.now() + (game.duration * 60 * 1000));
-
-  await game.save();
-
-  // Update all players to active status
-  await Player.updateMany(
-    { game: game._id, status: 'waiting' },
-    { status: 'active' }
-  );
+  await startGame(req.app.get('io'), game);
 
   res.json({
     message: 'Game started successfully',
@@ -442,7 +625,8 @@ router.post('/:id/start', authenticateToken, requireOwnershipOrAdmin(), asyncHan
       id: game._id,
       status: game.status,
       startTime: game.startTime,
-      endTime: game.endTime
+      endTime: game.endTime,
+      clock: game.getClock()
     }
   });
 }));
@@ -479,16 +663,7 @@ router.post('/:id/pause', authenticateToken, asyncHandler(async (req, res) => {
     }
 
     console.log('Pausing game...');
-    game.status = 'paused';
-    game.pausedAt = new Date();
-
-    await game.save();
-
-    // Update all players to paused status
-    await Player.updateMany(
-      { game: game._id, status: 'active' },
-      { status: 'paused' }
-    );
+    await pauseGame(req.app.get('io'), game);
 
     console.log('Game paused successfully');
     res.json({
@@ -496,7 +671,8 @@ router.post('/:id/pause', authenticateToken, asyncHandler(async (req, res) => {
       game: {
         id: game._id,
         status: game.status,
-        pausedAt: game.pausedAt
+        pausedAt: game.pausedAt,
+        clock: game.getClock()
       }
     });
   } catch (error) {
@@ -525,23 +701,15 @@ router.post('/:id/resume', authenticateToken, requireOwnershipOrAdmin(), asyncHa
     throw new AppError('Only paused games can be resumed', 400, 'INVALID_GAME_STATUS');
   }
 
-  game.status = 'active';
-  game.resumedAt = new Date();
-
-  await game.save();
-
-  // Update all players to active status
-  await Player.updateMany(
-    { game: game._id, status: 'paused' },
-    { status: 'active' }
-  );
+  await resumeGame(req.app.get('io'), game);
 
   res.json({
     message: 'Game resumed successfully',
     game: {
       id: game._id,
       status: game.status,
-      resumedAt: game.resumedAt
+      resumedAt: game.resumedAt,
+      clock: game.getClock()
     }
   });
 }));
@@ -564,60 +732,171 @@ router.post('/:id/end', authenticateToken, requireOwnershipOrAdmin(), asyncHandl
     throw new AppError('Access denied', 403, 'ACCESS_DENIED');
   }
 
-  if (game.status === 'completed' || game.status === 'cancelled') {
-    throw new AppError('Game is already completed or cancelled', 400, 'INVALID_GAME_STATUS');
+  await endGame(req.app.get('io'), game, { reason });
+
+  res.json({
+    message: 'Game ended successfully',
+    game: {
+      id: game._id,
+      status: game.status,
+      results: game.results
+    }
+  });
+}));
+
+// @route   GET /api/games/:id/chat
+// @desc    All chat channels of a game and a page of one channel's history, newest first
+// @access  Private (Owner or Admin)
+router.get('/:id/chat', authenticateToken, requireOwnershipOrAdmin(), [
+  query('channel')
+    .optional()
+    .isString()
+    .withMessage('Channel must be a string'),
+  query('before')
+    .optional()
+    .isMongoId()
+    .withMessage('Before must be a valid message ID')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+
+  const game = await Game.findById(req.params.id);
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
   }
 
-  game.status = 'completed';
-  game.results.gameEndReason = reason;
+  // Check ownership
+  if (req.requireOwnershipCheck && 
+      !['super_admin', 'admin'].includes(req.user.role) &&
+      game.createdBy.toString() !== req.user._id.toString()) {
+    throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+  }
 
-  // Calculate results
-  const fugitives = await Player.find({ game: game._id, role: 'fugitive' });
-  const escapedFugitives = fugitives.filter(f => f.status === 'escaped');
-  const caughtFugitives = fugitives.filter(f => f.status === 'caught');
+  const channels = await getGameChannels(game);
+  const channel = req.query.channel || channels[0].id;
+  const history = await getChatHistory(game._id, channel, { before: req.query.before });
 
-  game.results.fugitivesEscaped = escapedFugitives.map(f => f._id);
-  game.results.fugitivesCaught = caughtFugitives.map(f => ({
-    player: f._id,
-    caughtAt: f.updatedAt,
-    location: f.currentLocation
-  }));
+  res.json({
+    channels,
+    channel,
+    ...history
+  });
+}));
 
-  // Determine winner
-  if (escapedFugitives.length > 0) {
-    game.results.winner = 'fugitives';
-  } else if (caughtFugitives.length === fugitives.length) {
-    game.results.winner = 'hunters';
-  } else {
-    game.results.winner = 'none';
+// @route   DELETE /api/games/:id/chat/:messageId
+// @desc    Remove a chat message from the chat
+// @access  Private (Owner or Admin)
+router.delete('/:id/chat/:messageId', authenticateToken, requireOwnershipOrAdmin(), asyncHandler(async (req, res) => {
+  const game = await Game.findById(req.params.id);
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
   }
 
-  await game.save();
+  // Check ownership
+  if (req.requireOwnershipCheck && 
+      !['super_admin', 'admin'].includes(req.user.role) &&
+      game.createdBy.toString() !== req.user._id.toString()) {
+    throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+  }
 
-  // Update all players to completed status
-  await Player.updateMany(
-    { game: game._id },
-    { status: 'completed' }
-  );
+  await deleteChatMessage(req.app.get('io'), game, req.params.messageId, req.user);
 
   res.json({
-    message: 'Game ended successfully',
-    game: {
-      id: game._id,
-      status: game.status,
-      results: game.results
+    message: 'Chat message deleted'
+  });
+}));
+
+// @route   PUT /api/games/:id/chat/mute/:playerId
+// @desc    Mute or unmute a player in the chat
+// @access  Private (Owner or Admin)
+router.put('/:id/chat/mute/:playerId', authenticateToken, requireOwnershipOrAdmin(), [
+  body('muted')
+    .isBoolean()
+    .withMessage('Muted must be true or false')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+
+  const game = await Game.findById(req.params.id);
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
+  // Check ownership
+  if (req.requireOwnershipCheck && 
+      !['super_admin', 'admin'].includes(req.user.role) &&
+      game.createdBy.toString() !== req.user._id.toString()) {
+    throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+  }
+
+  const player = await setChatMuted(req.app.get('io'), game, req.params.playerId, req.body.muted);
+
+  res.json({
+    message: player.chatMuted ? `${player.name} is muted` : `${player.name} can chat again`,
+    player: {
+      id: player._id,
+      name: player.name,
+      chatMuted: player.chatMuted
     }
   });
 }));
 
+// @route   GET /api/games/:id/messages
+// @desc    Messages sent in a game, newest first, with who read them
+// @access  Private (Owner or Admin)
+router.get('/:id/messages', authenticateToken, requireOwnershipOrAdmin(), asyncHandler(async (req, res) => {
+  const game = await Game.findById(req.params.id);
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
+  // Check ownership
+  if (req.requireOwnershipCheck && 
+      !['super_admin', 'admin'].includes(req.user.role) &&
+      game.createdBy.toString() !== req.user._id.toString()) {
+    throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+  }
+
+  res.json({
+    messages: (game.messages || []).map(toMasterMessage).reverse()
+  });
+}));
+
 // @route   POST /api/games/:id/message
-// @desc    Send a message to all players in a game
+// @desc    Send a message to all players in a game, or to one role, team or player
 // @access  Private (Owner or Admin)
 router.post('/:id/message', authenticateToken, requireOwnershipOrAdmin(), [
   body('message')
     .trim()
     .isLength({ min: 1, max: 500 })
-    .withMessage('Message must be between 1 and 500 characters')
+    .withMessage('Message must be between 1 and 500 characters'),
+  body('audience.scope')
+    .optional()
+    .isIn(['all', 'role', 'team', 'player'])
+    .withMessage('Audience must be all, role, team or player'),
+  body('audience.role')
+    .if(body('audience.scope').equals('role'))
+    .isIn(['fugitive', 'hunter', 'spectator'])
+    .withMessage('Role must be fugitive, hunter or spectator'),
+  body('audience.team')
+    .if(body('audience.scope').equals('team'))
+    .trim()
+    .notEmpty()
+    .withMessage('Team is required'),
+  body('audience.player')
+    .if(body('audience.scope').equals('player'))
+    .isMongoId()
+    .withMessage('Player ID must be valid')
 ], asyncHandler(async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -639,42 +918,23 @@ router.post('/:id/message', authenticateToken, requireOwnershipOrAdmin(), [
     throw new AppError('Access denied', 403, 'ACCESS_DENIED');
   }
 
-  const { message } = req.body;
+  const { message, audience = {} } = req.body;
+  const scope = audience.scope || 'all';
 
-  // Get all players in the game
-  const players = await Player.find({ game: game._id });
-  
-  if (players.length === 0) {
-    throw new AppError('No players found in this game', 400, 'NO_PLAYERS');
-  }
-
-  // For now, we'll just store the message in the game object
-  // In a real implementation, you might want to use WebSockets or push notifications
-  if (!game.messages) {
-    game.messages = [];
-  }
-
-  const newMessage = {
+  const sent = await sendGameMessage(req.app.get('io'), game, {
     text: message.trim(),
     sender: req.user.name || req.user.email,
-    timestamp: new Date(),
-    recipients: players.length
-  };
-
-  game.messages.push(newMessage);
-  await game.save();
-
-  // TODO: In a real implementation, you would send the message to all connected players
-  // via WebSockets, push notifications, or similar real-time communication method
+    audience: {
+      scope,
+      ...(scope === 'role' && { role: audience.role }),
+      ...(scope === 'team' && { team: audience.team }),
+      ...(scope === 'player' && { player: audience.player })
+    }
+  });
 
   res.json({
-    message: 'Message sent successfully to all players',
-    messageDetails: {
-      text: newMessage.text,
-      sender: newMessage.sender,
-      timestamp: newMessage.timestamp,
-      recipients: newMessage.recipients
-    }
+    message: `Message sent to ${sent.recipients} player${sent.recipients === 1 ? '' : 's'}`,
+    messageDetails: toMasterMessage(sent)
   });
 }));
 
@@ -700,6 +960,16 @@ router.delete('/:id', authenticateToken, requireOwnershipOrAdmin(), asyncHandler
   }
 
   // Hard delete - completely remove from database
+  const photos = await PhotoSubmission.find({ game: game._id }).select('filename');
+  await Promise.all(photos.map(photo =>
+    fs.promises.unlink(path.join(PHOTO_UPLOAD_DIR, photo.filename)).catch(() => {})
+  ));
+  await PhotoSubmission.deleteMany({ game: game._id });
+  await TaskAttempt.deleteMany({ game: game._id });
+  await CatchRequest.deleteMany({ game: game._id });
+  await ScheduledJob.deleteMany({ game: game._id });
+  await ChatMessage.deleteMany({ game: game._id });
+  await SyncReceipt.deleteMany({ game: game._id });
   await Player.deleteMany({ game: game._id });
   await Game.findByIdAndDelete(req.params.id);
 
@@ -815,7 +1085,7 @@ router.get('/:id/predefined-players', authenticateToken, requireOwnershipOrAdmin
 // @desc    Get tasks with QR codes for a game
 // @access  Private (Owner or Admin)
 router.get('/:id/tasks', authenticateToken, requireOwnershipOrAdmin(), asyncHandler(async (req, res) => {
-  const game = await Game.findById(req.params.id);
+  const game = await Game.findById(req.params.id).select('+taskSecret');
   if (!game) {
     throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
   }
@@ -827,8 +1097,20 @@ router.get('/:id/tasks', authenticateToken, requireOwnershipOrAdmin(), asyncHand
     throw new AppError('Access denied', 403, 'ACCESS_DENIED');
   }
 
+  // Games from before signed codes existed get a secret and fresh QR codes
+  if (ensureTaskSecret(game)) {
+    for (const task of game.tasks) {
+      task.qrCode = await generateTaskQRCode(game, task.taskNumber);
+    }
+    await game.save();
+  }
+
   res.json({
-    tasks: game.tasks || [],
+    tasks: (game.tasks || []).map(task => ({
+      ...task.toObject(),
+      manualCode: getManualCode(game, task.taskNumber)
+    })),
+    taskSecretRotatedAt: game.taskSecretRotatedAt,
     gameInfo: {
       id: game._id,
       name: game.name,
@@ -838,39 +1120,11 @@ router.get('/:id/tasks', authenticateToken, requireOwnershipOrAdmin(), asyncHand
   });
 }));
 
-// @route   PUT /api/games/:id/predefined-players/:playerId
-// @desc    Update a predefined player
+// @route   GET /api/games/:id/badges
+// @desc    Get the QR badges fugitives wear for hunters to scan
 // @access  Private (Owner or Admin)
-router.put('/:id/predefined-players/:playerId', authenticateToken, requireOwnershipOrAdmin(), [
-  body('name')
-    .optional()
-    .trim()
-    .isLength({ min: 2, max: 50 })
-    .withMessage('Player name must be between 2 and 50 characters'),
-  body('role')
-    .optional()
-    .isIn(['fugitive', 'hunter', 'spectator'])
-    .withMessage('Role must be fugitive, hunter, or spectator'),
-  body('team')
-    .optional()
-    .trim()
-    .isLength({ max: 50 })
-    .withMessage('Team name must be less than 50 characters'),
-  body('password')
-    .optional()
-    .trim()
-    .isLength({ min: 3, max: 20 })
-    .withMessage('Password must be between 3 and 20 characters')
-], asyncHandler(async (req, res) => {
-  const errors = validationResult(req);
-  if (!errors.isEmpty()) {
-    return res.status(400).json({
-      error: 'Validation failed',
-      details: errors.array()
-    });
-  }
-
-  const game = await Game.findById(req.params.id);
+router.get('/:id/badges', authenticateToken, requireOwnershipOrAdmin(), asyncHandler(async (req, res) => {
+  const game = await Game.findById(req.params.id).select('+taskSecret');
   if (!game) {
     throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
   }
@@ -882,24 +1136,645 @@ router.put('/:id/predefined-players/:playerId', authenticateToken, requireOwners
     throw new AppError('Access denied', 403, 'ACCESS_DENIED');
   }
 
-  // Can't update active games
-  if (game.status === 'active') {
-    throw new AppError('Cannot update active game', 400, 'GAME_ACTIVE');
+  if (ensureTaskSecret(game)) {
+    await game.save();
   }
 
-  const predefinedPlayer = game.predefinedPlayers.id(req.params.playerId);
-  if (!predefinedPlayer) {
-    throw new AppError('Predefined player not found', 404, 'PLAYER_NOT_FOUND');
-  }
+  const fugitives = await Player.find({ game: game._id, role: 'fugitive' }).select('name team status');
 
-  // Can't update if player has already joined
-  if (predefinedPlayer.isJoined) {
-    throw new AppError('Cannot update player who has already joined', 400, 'PLAYER_ALREADY_JOINED');
-  }
+  const badges = await Promise.all(fugitives.map(async (fugitive) => ({
+    playerId: fugitive._id,
+    name: fugitive.name,
+    team: fugitive.team,
+    status: fugitive.status,
+    qrCode: await generateBadgeQRCode(game, fugitive)
+  })));
 
-  const { name, role, team, password } = req.body;
+  res.json({ badges });
+}));
 
-  if (name) predefinedPlayer.name = name.trim();
+// @route   POST /api/games/:id/rotate-task-secret
+// @desc    Rotate the task code secret, invalidating all printed QR codes and manual codes
+// @access  Private (Owner or Admin)
+router.post('/:id/rotate-task-secret', authenticateToken, requireOwnershipOrAdmin(), asyncHandler(async (req, res) => {
+  const game = await Game.findById(req.params.id).select('+taskSecret');
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
+  // Check ownership
+  if (req.requireOwnershipCheck && 
+      !['super_admin', 'admin'].includes(req.user.role) &&
+      game.createdBy.toString() !== req.user._id.toString()) {
+    throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+  }
+
+  if (game.status === 'completed' || game.status === 'cancelled') {
+    throw new AppError('Game is already completed or cancelled', 400, 'INVALID_GAME_STATUS');
+  }
+
+  game.taskSecret = generateTaskSecret();
+  game.taskSecretRotatedAt = new Date();
+
+  for (const task of game.tasks) {
+    task.qrCode = await generateTaskQRCode(game, task.taskNumber);
+  }
+  await game.save();
+
+  res.json({
+    message: 'Task codes and fugitive badges rotated successfully. Print the new QR codes.',
+    tasks: game.tasks.map(task => ({
+      ...task.toObject(),
+      manualCode: getManualCode(game, task.taskNumber)
+    })),
+    taskSecretRotatedAt: game.taskSecretRotatedAt
+  });
+}));
+
+// @route   GET /api/games/:id/reveal-zones
+// @desc    Get surveillance camera and ATM zones for a game
+// @access  Private (Owner or Admin)
+router.get('/:id/reveal-zones', authenticateToken, requireOwnershipOrAdmin(), asyncHandler(async (req, res) => {
+  const game = await Game.findById(req.params.id);
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
+  // Check ownership
+  if (req.requireOwnershipCheck && 
+      !['super_admin', 'admin'].includes(req.user.role) &&
+      game.createdBy.toString() !== req.user._id.toString()) {
+    throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+  }
+
+  res.json({
+    revealZones: game.revealZones
+  });
+}));
+
+// @route   POST /api/games/:id/reveal-zones
+// @desc    Place surveillance camera and ATM zones on a game
+// @access  Private (Owner or Admin)
+router.post('/:id/reveal-zones', authenticateToken, requireOwnershipOrAdmin(), revealZoneValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+
+  const game = await Game.findById(req.params.id);
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
+  // Check ownership
+  if (req.requireOwnershipCheck && 
+      !['super_admin', 'admin'].includes(req.user.role) &&
+      game.createdBy.toString() !== req.user._id.toString()) {
+    throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+  }
+
+  if (game.status === 'completed' || game.status === 'cancelled') {
+    throw new AppError('Game is already completed or cancelled', 400, 'INVALID_GAME_STATUS');
+  }
+
+  const { zones } = req.body;
+
+  game.revealZones.push(...zones.map(zone => ({
+    type: zone.type,
+    name: zone.name ? zone.name.trim() : undefined,
+    latitude: zone.latitude,
+    longitude: zone.longitude,
+    radius: zone.radius
+  })));
+  await game.save();
+
+  res.status(201).json({
+    message: 'Reveal zones added successfully',
+    revealZones: game.revealZones
+  });
+}));
+
+// @route   DELETE /api/games/:id/reveal-zones/:zoneId
+// @desc    Remove a surveillance camera or ATM zone
+// @access  Private (Owner or Admin)
+router.delete('/:id/reveal-zones/:zoneId', authenticateToken, requireOwnershipOrAdmin(), asyncHandler(async (req, res) => {
+  const game = await Game.findById(req.params.id);
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
+  // Check ownership
+  if (req.requireOwnershipCheck && 
+      !['super_admin', 'admin'].includes(req.user.role) &&
+      game.createdBy.toString() !== req.user._id.toString()) {
+    throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+  }
+
+  const zone = game.revealZones.id(req.params.zoneId);
+  if (!zone) {
+    throw new AppError('Reveal zone not found', 404, 'ZONE_NOT_FOUND');
+  }
+
+  game.revealZones.pull(req.params.zoneId);
+  await game.save();
+
+  res.json({
+    message: 'Reveal zone removed successfully'
+  });
+}));
+
+// @route   GET /api/games/:id/extraction-points
+// @desc    Get the game's other extraction points and decoys, and which fugitive escapes where
+// @access  Private (Owner or Admin)
+router.get('/:id/extraction-points', authenticateToken, requireOwnershipOrAdmin(), asyncHandler(async (req, res) => {
+  const game = await Game.findById(req.params.id);
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
+  // Check ownership
+  if (req.requireOwnershipCheck && 
+      !['super_admin', 'admin'].includes(req.user.role) &&
+      game.createdBy.toString() !== req.user._id.toString()) {
+    throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+  }
+
+  const fugitives = await Player.find({ game: game._id, role: 'fugitive' })
+    .select('name team status extractionPoint')
+    .sort({ team: 1, name: 1 });
+
+  res.json({
+    extractionPoint: game.extractionPoint,
+    extractionPoints: game.extractionPoints,
+    assignment: game.settings?.extractionAssignment || 'random',
+    fugitives: fugitives.map(fugitive => ({
+      id: fugitive._id,
+      name: fugitive.name,
+      team: fugitive.team,
+      status: fugitive.status,
+      extractionPointId: fugitive.extractionPoint || null
+    }))
+  });
+}));
+
+// @route   POST /api/games/:id/extraction-points
+// @desc    Add extraction points fugitives may be sent to, or decoys shown to hunters
+// @access  Private (Owner or Admin)
+router.post('/:id/extraction-points', authenticateToken, requireOwnershipOrAdmin(), extractionPointValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+
+  const game = await Game.findById(req.params.id);
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
+  // Check ownership
+  if (req.requireOwnershipCheck && 
+      !['super_admin', 'admin'].includes(req.user.role) &&
+      game.createdBy.toString() !== req.user._id.toString()) {
+    throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+  }
+
+  if (game.status === 'completed' || game.status === 'cancelled') {
+    throw new AppError('Game is already completed or cancelled', 400, 'INVALID_GAME_STATUS');
+  }
+
+  const { points } = req.body;
+  if (game.extractionPoints.length + points.length > 10) {
+    throw new AppError('A game has at most 10 other extraction points', 400, 'TOO_MANY_EXTRACTION_POINTS');
+  }
+
+  if (points.some(point => point.opensAfterMinutes != null && point.closesAfterMinutes != null &&
+      point.closesAfterMinutes <= point.opensAfterMinutes)) {
+    throw new AppError('An extraction point must close after it opens', 400, 'INVALID_EXTRACTION_WINDOW');
+  }
+
+  if (points.some(point => point.opensAfterMinutes >= game.duration || point.closesAfterMinutes > game.duration)) {
+    throw new AppError(
+      `An extraction point must open and close within the game's ${game.duration} minutes`,
+      400,
+      'INVALID_EXTRACTION_WINDOW'
+    );
+  }
+
+  game.extractionPoints.push(...points.map(point => ({
+    latitude: point.latitude,
+    longitude: point.longitude,
+    address: point.address ? point.address.trim() : undefined,
+    radius: point.radius,
+    decoy: Boolean(point.decoy),
+    opensAfterMinutes: point.opensAfterMinutes ?? undefined,
+    closesAfterMinutes: point.closesAfterMinutes ?? undefined
+  })));
+  await game.save();
+
+  if (game.status === 'active') {
+    await scheduleExtractionPointJobs(game);
+  }
+
+  res.status(201).json({
+    message: 'Extraction points added successfully',
+    extractionPoints: game.extractionPoints
+  });
+}));
+
+// @route   DELETE /api/games/:id/extraction-points/:pointId
+// @desc    Remove an extraction point or decoy; its fugitives go back to the main extraction point
+// @access  Private (Owner or Admin)
+router.delete('/:id/extraction-points/:pointId', authenticateToken, requireOwnershipOrAdmin(), asyncHandler(async (req, res) => {
+  const game = await Game.findById(req.params.id);
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
+  // Check ownership
+  if (req.requireOwnershipCheck && 
+      !['super_admin', 'admin'].includes(req.user.role) &&
+      game.createdBy.toString() !== req.user._id.toString()) {
+    throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+  }
+
+  await removeExtractionPoint(req.app.get('io'), game, req.params.pointId);
+
+  if (game.status === 'active') {
+    await scheduleExtractionPointJobs(game);
+  }
+
+  res.json({
+    message: 'Extraction point removed successfully'
+  });
+}));
+
+// @route   PUT /api/games/:id/extraction-points/assignments/:playerId
+// @desc    Send a fugitive (and their team, when the game shares extraction points by team) to an extraction point
+// @access  Private (Owner or Admin)
+router.put('/:id/extraction-points/assignments/:playerId', authenticateToken, requireOwnershipOrAdmin(), [
+  body('extractionPointId')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Extraction point ID must be valid')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+
+  const game = await Game.findById(req.params.id);
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
+  // Check ownership
+  if (req.requireOwnershipCheck && 
+      !['super_admin', 'admin'].includes(req.user.role) &&
+      game.createdBy.toString() !== req.user._id.toString()) {
+    throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+  }
+
+  if (game.status === 'completed' || game.status === 'cancelled') {
+    throw new AppError('Game is already completed or cancelled', 400, 'INVALID_GAME_STATUS');
+  }
+
+  const player = await Player.findOne({ _id: req.params.playerId, game: game._id });
+  if (!player) {
+    throw new AppError('Player not found', 404, 'PLAYER_NOT_FOUND');
+  }
+
+  const fugitives = await setExtractionPoint(req.app.get('io'), game, player, req.body.extractionPointId);
+
+  res.json({
+    message: 'Extraction point assigned successfully',
+    fugitives: fugitives.map(fugitive => ({
+      id: fugitive._id,
+      name: fugitive.name,
+      team: fugitive.team,
+      extractionPointId: fugitive.extractionPoint || null
+    }))
+  });
+}));
+
+// @route   GET /api/games/:id/photo-submissions
+// @desc    Get photos uploaded for photo tasks (optionally filtered by status)
+// @access  Private (Owner or Admin)
+router.get('/:id/photo-submissions', authenticateToken, requireOwnershipOrAdmin(), asyncHandler(async (req, res) => {
+  const game = await Game.findById(req.params.id);
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
+  // Check ownership
+  if (req.requireOwnershipCheck && 
+      !['super_admin', 'admin'].includes(req.user.role) &&
+      game.createdBy.toString() !== req.user._id.toString()) {
+    throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+  }
+
+  const query = { game: game._id };
+  if (['pending', 'approved', 'rejected'].includes(req.query.status)) {
+    query.status = req.query.status;
+  }
+
+  const submissions = await PhotoSubmission.find(query)
+    .populate('player', 'name team')
+    .populate('reviewedBy', 'name')
+    .sort({ createdAt: -1 })
+    .lean();
+
+  res.json({
+    submissions: submissions.map(submission => ({
+      id: submission._id,
+      taskNumber: submission.taskNumber,
+      question: game.tasks.find(t => t.taskNumber === submission.taskNumber)?.question,
+      player: submission.player && {
+        id: submission.player._id,
+        name: submission.player.name,
+        team: submission.player.team
+      },
+      status: submission.status,
+      location: submission.location,
+      submittedAt: submission.createdAt,
+      reviewedBy: submission.reviewedBy?.name,
+      reviewedAt: submission.reviewedAt,
+      reviewNote: submission.reviewNote
+    }))
+  });
+}));
+
+// @route   GET /api/games/:id/photo-submissions/:submissionId/photo
+// @desc    Get the uploaded photo itself
+// @access  Private (Owner or Admin)
+router.get('/:id/photo-submissions/:submissionId/photo', authenticateToken, requireOwnershipOrAdmin(), asyncHandler(async (req, res) => {
+  const game = await Game.findById(req.params.id);
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
+  // Check ownership
+  if (req.requireOwnershipCheck && 
+      !['super_admin', 'admin'].includes(req.user.role) &&
+      game.createdBy.toString() !== req.user._id.toString()) {
+    throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+  }
+
+  const submission = await PhotoSubmission.findOne({ _id: req.params.submissionId, game: game._id });
+  if (!submission) {
+    throw new AppError('Photo submission not found', 404, 'SUBMISSION_NOT_FOUND');
+  }
+
+  res.type(submission.mimeType);
+  res.sendFile(path.join(PHOTO_UPLOAD_DIR, submission.filename));
+}));
+
+// @route   POST /api/games/:id/photo-submissions/:submissionId/review
+// @desc    Approve (completing the task) or reject a photo
+// @access  Private (Owner or Admin)
+router.post('/:id/photo-submissions/:submissionId/review', authenticateToken, requireOwnershipOrAdmin(), [
+  body('approved')
+    .isBoolean()
+    .withMessage('Approved must be true or false'),
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Note must be less than 200 characters')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+
+  const game = await Game.findById(req.params.id);
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
+  // Check ownership
+  if (req.requireOwnershipCheck && 
+      !['super_admin', 'admin'].includes(req.user.role) &&
+      game.createdBy.toString() !== req.user._id.toString()) {
+    throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+  }
+
+  const submission = await PhotoSubmission.findOne({ _id: req.params.submissionId, game: game._id });
+  if (!submission) {
+    throw new AppError('Photo submission not found', 404, 'SUBMISSION_NOT_FOUND');
+  }
+
+  if (submission.status !== 'pending') {
+    throw new AppError('This photo has already been reviewed', 400, 'ALREADY_REVIEWED');
+  }
+
+  const player = await Player.findById(submission.player);
+  if (!player) {
+    throw new AppError('Player not found', 404, 'PLAYER_NOT_FOUND');
+  }
+
+  const approved = req.body.approved === true || req.body.approved === 'true';
+  const io = req.app.get('io');
+
+  if (approved) {
+    if (player.completedTasks.some(ct => ct.taskNumber === submission.taskNumber)) {
+      throw new AppError('Task already completed', 400, 'TASK_ALREADY_COMPLETED');
+    }
+
+    const task = game.tasks.find(t => t.taskNumber === submission.taskNumber);
+    if (!task) {
+      throw new AppError('Task not found', 404, 'TASK_NOT_FOUND');
+    }
+
+    await recordCompletion(io, game, player, task, { location: submission.location });
+  }
+
+  submission.status = approved ? 'approved' : 'rejected';
+  submission.reviewedBy = req.user._id;
+  submission.reviewedAt = new Date();
+  submission.reviewNote = req.body.note;
+  await submission.save();
+
+  if (player.socketId) {
+    io?.to(player.socketId).emit('photo_reviewed', {
+      submissionId: submission._id,
+      taskNumber: submission.taskNumber,
+      approved,
+      note: submission.reviewNote
+    });
+  }
+
+  res.json({
+    message: approved ? 'Photo approved, task completed' : 'Photo rejected',
+    submission: {
+      id: submission._id,
+      status: submission.status,
+      reviewedAt: submission.reviewedAt
+    }
+  });
+}));
+
+// @route   GET /api/games/:id/catch-requests
+// @desc    Get catches claimed by hunters, disputed ones first
+// @access  Private (Owner or Admin)
+router.get('/:id/catch-requests', authenticateToken, requireOwnershipOrAdmin(), asyncHandler(async (req, res) => {
+  const game = await Game.findById(req.params.id);
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
+  // Check ownership
+  if (req.requireOwnershipCheck && 
+      !['super_admin', 'admin'].includes(req.user.role) &&
+      game.createdBy.toString() !== req.user._id.toString()) {
+    throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+  }
+
+  const requests = await CatchRequest.find({ game: game._id })
+    .populate('hunter', 'name')
+    .populate('fugitive', 'name')
+    .sort({ createdAt: -1 })
+    .limit(100);
+
+  const order = ['disputed', 'pending'];
+  requests.sort((a, b) => {
+    const rank = (request) => (order.includes(request.status) ? order.indexOf(request.status) : order.length);
+    return rank(a) - rank(b);
+  });
+
+  res.json({
+    requests: requests.map(request => ({
+      id: request._id,
+      hunter: request.hunter ? { id: request.hunter._id, name: request.hunter.name } : null,
+      fugitive: request.fugitive ? { id: request.fugitive._id, name: request.fugitive.name } : null,
+      status: request.status,
+      distance: request.distance,
+      hunterLocation: request.hunterLocation,
+      fugitiveLocation: request.fugitiveLocation,
+      disputeReason: request.disputeReason,
+      autoConfirmed: request.autoConfirmed,
+      requestedAt: request.createdAt,
+      respondedAt: request.respondedAt
+    }))
+  });
+}));
+
+// @route   POST /api/games/:id/catch-requests/:requestId/decide
+// @desc    Uphold (fugitive is caught) or dismiss a disputed catch
+// @access  Private (Owner or Admin)
+router.post('/:id/catch-requests/:requestId/decide', authenticateToken, requireOwnershipOrAdmin(), [
+  body('upheld')
+    .isBoolean()
+    .withMessage('Upheld must be true or false')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+
+  const game = await Game.findById(req.params.id);
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
+  // Check ownership
+  if (req.requireOwnershipCheck && 
+      !['super_admin', 'admin'].includes(req.user.role) &&
+      game.createdBy.toString() !== req.user._id.toString()) {
+    throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+  }
+
+  const request = await CatchRequest.findOne({ _id: req.params.requestId, game: game._id });
+  if (!request) {
+    throw new AppError('Catch request not found', 404, 'CATCH_REQUEST_NOT_FOUND');
+  }
+
+  const upheld = req.body.upheld === true || req.body.upheld === 'true';
+  const { request: decided, caught } = await decideDispute(req.app.get('io'), request, upheld);
+
+  res.json({
+    message: upheld ? 'Catch upheld' : 'Catch dismissed',
+    status: decided.status,
+    caught
+  });
+}));
+
+// @route   PUT /api/games/:id/predefined-players/:playerId
+// @desc    Update a predefined player
+// @access  Private (Owner or Admin)
+router.put('/:id/predefined-players/:playerId', authenticateToken, requireOwnershipOrAdmin(), [
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('Player name must be between 2 and 50 characters'),
+  body('role')
+    .optional()
+    .isIn(['fugitive', 'hunter', 'spectator'])
+    .withMessage('Role must be fugitive, hunter, or spectator'),
+  body('team')
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Team name must be less than 50 characters'),
+  body('password')
+    .optional()
+    .trim()
+    .isLength({ min: 3, max: 20 })
+    .withMessage('Password must be between 3 and 20 characters')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+
+  const game = await Game.findById(req.params.id);
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
+  // Check ownership
+  if (req.requireOwnershipCheck && 
+      !['super_admin', 'admin'].includes(req.user.role) &&
+      game.createdBy.toString() !== req.user._id.toString()) {
+    throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+  }
+
+  // Can't update active games
+  if (game.status === 'active') {
+    throw new AppError('Cannot update active game', 400, 'GAME_ACTIVE');
+  }
+
+  const predefinedPlayer = game.predefinedPlayers.id(req.params.playerId);
+  if (!predefinedPlayer) {
+    throw new AppError('Predefined player not found', 404, 'PLAYER_NOT_FOUND');
+  }
+
+  // Can't update if player has already joined
+  if (predefinedPlayer.isJoined) {
+    throw new AppError('Cannot update player who has already joined', 400, 'PLAYER_ALREADY_JOINED');
+  }
+
+  const { name, role, team, password } = req.body;
+
+  if (name) predefinedPlayer.name = name.trim();
   if (role) predefinedPlayer.role = role;
   if (team !== undefined) predefinedPlayer.team = team ? team.trim() : undefined;
   if (password) predefinedPlayer.password = password.trim();
@@ -1008,11 +1883,24 @@ router.get('/code/:gameCode', asyncHandler(async (req, res) => {
       gameCode: game.gameCode,
       startTime: game.startTime,
       endTime: game.endTime,
+      scheduledStartTime: game.scheduledStartTime,
       pausedAt: game.pausedAt,
       resumedAt: game.resumedAt,
       duration: game.duration,
-      tasks: game.tasks || [],
-      extractionPoint: game.extractionPoint,
+      clock: game.getClock(),
+      // Answers, hints, signed QR codes and player IDs stay on the server
+      tasks: (game.tasks || []).map(task => ({
+        _id: task._id,
+        taskNumber: task.taskNumber,
+        question: task.question,
+        // Lets players answer a scanned task from the cached game while offline
+        ...getPlayerTaskDetails(task),
+        location: task.location,
+        isCompleted: task.isCompleted
+      })),
+      // Real extraction points and decoys alike; fugitives learn theirs once every task is done
+      ...(game.extractionPoints.length === 0 && { extractionPoint: game.extractionPoint }),
+      extractionPoints: game.getExtractionCandidates(),
       playerCount,
       maxPlayers: game.settings?.maxPlayers || 20,
       settings: game.settings,
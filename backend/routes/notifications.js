@@ -0,0 +1,112 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const { authenticateToken, authenticatePlayer } = require('../middleware/auth');
+const { asyncHandler, AppError } = require('../middleware/errorHandler');
+const { getVapidPublicKey, saveSubscription, removeSubscription } = require('../services/notificationService');
+
+const router = express.Router();
+
+// Validation rules
+const subscriptionValidation = [
+  body('subscription.endpoint')
+    .isURL({ protocols: ['https'], require_tld: false })
+    .withMessage('Subscription endpoint must be an HTTPS URL'),
+  body('subscription.keys.p256dh')
+    .isString()
+    .notEmpty()
+    .withMessage('Subscription key p256dh is required'),
+  body('subscription.keys.auth')
+    .isString()
+    .notEmpty()
+    .withMessage('Subscription key auth is required')
+];
+
+function assertPushEnabled() {
+  if (!getVapidPublicKey()) {
+    throw new AppError('Push notifications are not configured on this server', 503, 'PUSH_DISABLED');
+  }
+}
+
+// @route   GET /api/notifications/vapid-public-key
+// @desc    The server's public VAPID key browsers subscribe with
+// @access  Public
+router.get('/vapid-public-key', asyncHandler(async (req, res) => {
+  assertPushEnabled();
+
+  res.json({
+    publicKey: getVapidPublicKey()
+  });
+}));
+
+// @route   POST /api/notifications/subscriptions/player
+// @desc    Subscribe this browser to push notifications for the player
+// @access  Private (Player token)
+router.post('/subscriptions/player', authenticatePlayer, subscriptionValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+
+  assertPushEnabled();
+
+  await saveSubscription(req.body.subscription, {
+    player: req.player,
+    userAgent: req.get('user-agent')
+  });
+
+  res.status(201).json({
+    message: 'Push notifications enabled'
+  });
+}));
+
+// @route   POST /api/notifications/subscriptions/user
+// @desc    Subscribe this browser to push notifications for the game master's games
+// @access  Private
+router.post('/subscriptions/user', authenticateToken, subscriptionValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+
+  assertPushEnabled();
+
+  await saveSubscription(req.body.subscription, {
+    user: req.user,
+    userAgent: req.get('user-agent')
+  });
+
+  res.status(201).json({
+    message: 'Push notifications enabled'
+  });
+}));
+
+// @route   DELETE /api/notifications/subscriptions
+// @desc    Unsubscribe a browser; only that browser knows its endpoint
+// @access  Public
+router.delete('/subscriptions', [
+  body('endpoint')
+    .isURL({ protocols: ['https'], require_tld: false })
+    .withMessage('Subscription endpoint must be an HTTPS URL')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+
+  await removeSubscription(req.body.endpoint);
+
+  res.json({
+    message: 'Push notifications disabled'
+  });
+}));
+
+module.exports = router;
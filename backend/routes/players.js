@@ -1,9 +1,20 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const { body, query, validationResult } = require('express-validator');
 const Game = require('../models/Game');
 const Player = require('../models/Player');
-const { optionalAuth, authenticateToken, requireGameMaster } = require('../middleware/auth');
+const { optionalAuth, authenticateToken, requireRoles, requireGameMaster, generatePlayerToken, authenticatePlayer } = require('../middleware/auth');
 const { asyncHandler, AppError } = require('../middleware/errorHandler');
+const { applyLocationUpdate } = require('../services/locationService');
+const { ensureTaskSecret, generateBadgeQRCode } = require('../services/taskCodeService');
+const { completeTask } = require('../services/taskProgressService');
+const { assignTaskRoute } = require('../services/taskRouteService');
+const { assignExtractionPoint } = require('../services/extractionService');
+const { MAX_SYNC_BATCH, processSyncBatch } = require('../services/syncService');
+const { getTaskHints, getHintCost, getUsedHints, useNextHint } = require('../services/hintService');
+const { recordCatch, requestCatch, catchByBadge, resolveCatch } = require('../services/catchService');
+const { getPlayerMessages, markMessagesRead } = require('../services/messageService');
+const { getPlayerChannels, canPlayerUseChannel, getChatHistory } = require('../services/chatService');
+const CatchRequest = require('../models/CatchRequest');
 
 const router = express.Router();
 
@@ -43,20 +54,135 @@ const updateLocationValidation = [
     .optional()
     .isFloat({ min: 0 })
     .withMessage('Accuracy must be a positive number'),
+  // Surveillance, ATM and phone-call triggers are only ever set by the server
   body('trigger')
     .optional()
-    .isIn(['manual', 'automatic', 'surveillance', 'atm', 'phone_call', 'task_completion'])
+    .isIn(['manual', 'automatic'])
     .withMessage('Invalid trigger type')
 ];
 
+const hintRequestValidation = [
+  body('latitude')
+    .optional()
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('Latitude must be between -90 and 90'),
+  body('longitude')
+    .optional()
+    .isFloat({ min: -180, max: 180 })
+    .withMessage('Longitude must be between -180 and 180'),
+  body('accuracy')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Accuracy must be a positive number'),
+  body('taskNumber')
+    .optional()
+    .isInt({ min: 1, max: 20 })
+    .withMessage('Task number must be between 1 and 20')
+    .toInt()
+];
+
+const catchRequestValidation = [
+  body('fugitiveId')
+    .isMongoId()
+    .withMessage('Valid fugitive ID is required'),
+  ...hintRequestValidation
+];
+
+const badgeCatchValidation = [
+  body('badge.playerId')
+    .isMongoId()
+    .withMessage('Badge must name a fugitive'),
+  body('badge.gameId')
+    .isMongoId()
+    .withMessage('Badge must name a game'),
+  body('badge.sig')
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Badge signature is required')
+];
+
+const messagesReadValidation = [
+  body('messageIds')
+    .optional()
+    .isArray({ max: 200 })
+    .withMessage('Message IDs must be a list'),
+  body('messageIds.*')
+    .isMongoId()
+    .withMessage('Message IDs must be valid')
+];
+
+const chatHistoryValidation = [
+  query('channel')
+    .optional()
+    .isString()
+    .withMessage('Channel must be a string'),
+  query('before')
+    .optional()
+    .isMongoId()
+    .withMessage('Before must be a valid message ID')
+];
+
+const syncBatchValidation = [
+  body('items')
+    .isArray({ min: 1, max: MAX_SYNC_BATCH })
+    .withMessage(`Items must be a list of 1 to ${MAX_SYNC_BATCH} entries`),
+  body('items.*.id')
+    .isString()
+    .isLength({ min: 8, max: 64 })
+    .withMessage('Each item needs an ID of 8 to 64 characters'),
+  body('items.*.type')
+    .isIn(['location', 'task_answer'])
+    .withMessage('Item type must be location or task_answer'),
+  body('items.*.recordedAt')
+    .isISO8601()
+    .withMessage('Each item needs the time it was recorded'),
+  body('items.*.data.latitude')
+    .optional()
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('Latitude must be between -90 and 90'),
+  body('items.*.data.longitude')
+    .optional()
+    .isFloat({ min: -180, max: 180 })
+    .withMessage('Longitude must be between -180 and 180'),
+  body('items.*.data.accuracy')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Accuracy must be a positive number'),
+  body('items.*.data.taskNumber')
+    .optional()
+    .isInt({ min: 1, max: 20 })
+    .withMessage('Task number must be between 1 and 20'),
+  body('items.*.data.answer')
+    .optional()
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Answer must be less than 100 characters'),
+  body('items.*')
+    .custom(item => item.type !== 'location' ||
+      (typeof item.data?.latitude === 'number' && typeof item.data?.longitude === 'number'))
+    .withMessage('A location needs a latitude and longitude')
+    .custom(item => item.type !== 'task_answer' ||
+      (Number.isInteger(item.data?.taskNumber) && Boolean(item.data?.signature || item.data?.manualCode)))
+    .withMessage('An answer needs a task number and the QR code signature or manual code')
+];
+
+const catchResponseValidation = [
+  body('confirmed')
+    .isBoolean()
+    .withMessage('Confirmed must be true or false'),
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Reason must be less than 200 characters')
+];
+
 // @route   POST /api/players/restore-session
 // @desc    Restore existing player session
-// @access  Public
-router.post('/restore-session', [
-  body('playerId')
-    .isMongoId()
-    .withMessage('Valid player ID is required'),
+// @access  Private (Player token)
+router.post('/restore-session', authenticatePlayer, [
   body('gameCode')
+    .optional()
     .trim()
     .isLength({ min: 6, max: 6 })
     .withMessage('Game code must be exactly 6 characters')
@@ -69,17 +195,12 @@ router.post('/restore-session', [
     });
   }
 
-  const { playerId, gameCode } = req.body;
+  const { gameCode } = req.body;
 
-  // Find the player
-  const player = await Player.findById(playerId).populate('game');
-  
-  if (!player) {
-    throw new AppError('Player session not found', 404, 'PLAYER_NOT_FOUND');
-  }
+  const player = await req.player.populate('game');
 
   // Verify the game code matches
-  if (player.game.gameCode !== gameCode.toUpperCase()) {
+  if (gameCode && player.game.gameCode !== gameCode.toUpperCase()) {
     throw new AppError('Invalid session for this game', 400, 'INVALID_SESSION');
   }
 
@@ -94,6 +215,7 @@ router.post('/restore-session', [
 
   res.json({
     message: 'Session restored successfully',
+    token: generatePlayerToken(player),
     player: {
       id: player._id,
       name: player.name,
@@ -109,7 +231,8 @@ router.post('/restore-session', [
       gameCode: player.game.gameCode,
       status: player.game.status,
       startTime: player.game.startTime,
-      endTime: player.game.endTime
+      endTime: player.game.endTime,
+      clock: player.game.getClock()
     }
   });
 }));
@@ -182,6 +305,7 @@ router.post('/join', joinGameValidation, asyncHandler(async (req, res) => {
         
         return res.json({
           message: 'Successfully rejoined the game',
+          token: generatePlayerToken(existingPlayer),
           player: {
             id: existingPlayer._id,
             name: existingPlayer.name,
@@ -211,8 +335,18 @@ router.post('/join', joinGameValidation, asyncHandler(async (req, res) => {
 
     // Create new player
     const player = new Player(playerData);
+    await assignTaskRoute(game, player);
+    await assignExtractionPoint(game, player);
     await player.save();
 
+    req.app.get('io')?.to(`game_${game._id}`).emit('player_joined', {
+      playerId: player._id,
+      playerName: player.name,
+      role: player.role,
+      team: player.team,
+      timestamp: new Date()
+    });
+
     // Mark predefined player as joined
     predefinedPlayer.isJoined = true;
     predefinedPlayer.playerId = player._id;
@@ -220,6 +354,7 @@ router.post('/join', joinGameValidation, asyncHandler(async (req, res) => {
 
     res.status(201).json({
       message: 'Successfully joined the game',
+      token: generatePlayerToken(player),
       player: {
         id: player._id,
         name: player.name,
@@ -255,10 +390,21 @@ router.post('/join', joinGameValidation, asyncHandler(async (req, res) => {
 
     // Create new player
     const player = new Player(playerData);
+    await assignTaskRoute(game, player);
+    await assignExtractionPoint(game, player);
     await player.save();
 
+    req.app.get('io')?.to(`game_${game._id}`).emit('player_joined', {
+      playerId: player._id,
+      playerName: player.name,
+      role: player.role,
+      team: player.team,
+      timestamp: new Date()
+    });
+
     res.status(201).json({
       message: 'Successfully joined the game',
+      token: generatePlayerToken(player),
       player: {
         id: player._id,
         name: player.name,
@@ -363,6 +509,98 @@ router.get('/game/:gameId', authenticateToken, requireGameMaster, asyncHandler(a
   });
 }));
 
+// @route   GET /api/players/:id/lobby
+// @desc    Players who joined the game, for the lobby before it starts
+// @access  Private (Player token)
+router.get('/:id/lobby', authenticatePlayer, asyncHandler(async (req, res) => {
+  const game = await Game.findById(req.player.game);
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
+  // Names and roles only: locations and progress stay with the game master
+  const players = await Player.find({ game: game._id })
+    .select('name role team isOnline')
+    .sort({ createdAt: 1 });
+
+  res.json({
+    players: players.map(player => ({
+      id: player._id,
+      name: player.name,
+      role: player.role,
+      team: player.team,
+      isOnline: player.isOnline
+    })),
+    clock: game.getClock()
+  });
+}));
+
+// @route   GET /api/players/:id/messages
+// @desc    Messages from the game master for this player, newest first, with the unread count
+// @access  Private (Player token)
+router.get('/:id/messages', authenticatePlayer, asyncHandler(async (req, res) => {
+  const game = await Game.findById(req.player.game).select('messages');
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
+  res.json(getPlayerMessages(game, req.player));
+}));
+
+// @route   POST /api/players/:id/messages/read
+// @desc    Mark messages as read, all of the player's messages when no IDs are given
+// @access  Private (Player token)
+router.post('/:id/messages/read', authenticatePlayer, messagesReadValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+
+  const game = await Game.findById(req.player.game).select('messages');
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
+  const marked = await markMessagesRead(req.app.get('io'), game, req.player, req.body.messageIds || null);
+
+  res.json({
+    marked: marked.length
+  });
+}));
+
+// @route   GET /api/players/:id/chat
+// @desc    The player's chat channels and a page of one channel's history, newest first
+// @access  Private (Player token)
+router.get('/:id/chat', authenticatePlayer, chatHistoryValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+
+  const player = req.player;
+  const channels = getPlayerChannels(player);
+  const channel = req.query.channel || channels[0].id;
+
+  if (!canPlayerUseChannel(player, channel)) {
+    throw new AppError('You cannot read this channel', 403, 'CHANNEL_NOT_ALLOWED');
+  }
+
+  const history = await getChatHistory(player.game, channel, { before: req.query.before });
+
+  res.json({
+    channels,
+    channel,
+    muted: player.chatMuted,
+    ...history
+  });
+}));
+
 // @route   GET /api/players/:id
 // @desc    Get a specific player
 // @access  Private
@@ -379,8 +617,8 @@ router.get('/:id', authenticateToken, asyncHandler(async (req, res) => {
 
 // @route   PUT /api/players/:id/location
 // @desc    Update player location
-// @access  Public (with player ID)
-router.put('/:id/location', updateLocationValidation, asyncHandler(async (req, res) => {
+// @access  Private (Player token)
+router.put('/:id/location', authenticatePlayer, updateLocationValidation, asyncHandler(async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
     return res.status(400).json({
@@ -401,34 +639,298 @@ router.put('/:id/location', updateLocationValidation, asyncHandler(async (req, r
     throw new AppError('Cannot update location for inactive player or game', 400, 'INACTIVE_PLAYER_OR_GAME');
   }
 
-  // Update location
-  await player.updateLocation(latitude, longitude, accuracy, trigger);
+  await applyLocationUpdate(req.app.get('io'), player, { latitude, longitude, accuracy, trigger });
 
-  // Check if fugitive reached extraction point
-  if (player.role === 'fugitive' && player.game.extractionPoint) {
-    const isNearExtraction = player.isNearLocation(
-      player.game.extractionPoint.latitude,
-      player.game.extractionPoint.longitude,
-      player.game.extractionPoint.radius || 50
+  res.json({
+    message: 'Location updated successfully',
+    location: player.currentLocation,
+    status: player.status
+  });
+}));
+
+// @route   POST /api/players/:id/sync
+// @desc    Apply location updates and answers queued while offline, each at most once
+// @access  Private (Player token)
+router.post('/:id/sync', authenticatePlayer, syncBatchValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+
+  const results = await processSyncBatch(req.app.get('io'), req.params.id, req.body.items);
+
+  res.json({ results });
+}));
+
+// @route   GET /api/players/:id/reveals
+// @desc    Get the last revealed fugitive locations (hunters never see live positions)
+// @access  Private (Player token)
+router.get('/:id/reveals', authenticatePlayer, asyncHandler(async (req, res) => {
+  const player = await Player.findById(req.params.id).populate('game');
+  if (!player) {
+    throw new AppError('Player not found', 404, 'PLAYER_NOT_FOUND');
+  }
+
+  if (!['hunter', 'spectator'].includes(player.role)) {
+    throw new AppError('Only hunters and spectators can view revealed locations', 403, 'INVALID_PLAYER_ROLE');
+  }
+
+  const fugitives = await Player.find({ game: player.game._id, role: 'fugitive' })
+    .select('name team status revealedLocation');
+
+  res.json({
+    fugitives: fugitives.map(f => ({
+      playerId: f._id,
+      name: f.name,
+      team: f.team,
+      status: f.status,
+      revealedLocation: f.revealedLocation?.revealedAt ? f.revealedLocation : null
+    })),
+    lastRevealAt: player.game.revealSchedule?.lastRevealAt || null,
+    nextRevealAt: player.game.revealSchedule?.nextRevealAt || null,
+    locationUpdateInterval: player.game.settings?.locationUpdateInterval
+  });
+}));
+
+// Find the fugitive calling for a hint and the task they are on. When their route lets them
+// choose, `taskNumber` says which of the tasks open to them; the first one otherwise.
+async function findHintTask(playerId, taskNumber) {
+  const player = await Player.findById(playerId).populate('game');
+  if (!player) {
+    throw new AppError('Player not found', 404, 'PLAYER_NOT_FOUND');
+  }
+
+  if (player.role !== 'fugitive') {
+    throw new AppError('Only fugitives can call for hints', 403, 'INVALID_PLAYER_ROLE');
+  }
+
+  const available = player.game.getAvailableTasksForPlayer(player);
+  const task = taskNumber ? available.find(t => t.taskNumber === taskNumber) : available[0];
+  if (!task) {
+    throw new AppError(
+      taskNumber ? `Task ${taskNumber} is not open to you right now` : 'No task left to call for a hint on',
+      400,
+      'NO_HINT_AVAILABLE'
     );
+  }
 
-    if (isNearExtraction && player.completedTasks.length === 6) {
-      player.status = 'escaped';
-      await player.save();
+  return { player, task };
+}
 
-      // Emit socket event for real-time updates
-      req.app.get('io')?.to(`game_${player.game._id}`).emit('player_escaped', {
-        playerId: player._id,
-        playerName: player.name,
-        location: player.currentLocation
-      });
+// @route   GET /api/players/:id/hints
+// @desc    Get the hints already given for the current task and what the next one costs
+// @access  Private (Player token)
+router.get('/:id/hints', authenticatePlayer, [
+  query('taskNumber')
+    .optional()
+    .isInt({ min: 1, max: 20 })
+    .withMessage('Task number must be between 1 and 20')
+    .toInt()
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+
+  const { player, task } = await findHintTask(req.params.id, req.query.taskNumber);
+  const hints = getUsedHints(player, task);
+
+  res.json({
+    taskNumber: task.taskNumber,
+    hints,
+    totalHints: getTaskHints(task).length,
+    cost: getHintCost(player.game)
+  });
+}));
+
+// @route   POST /api/players/:id/hints
+// @desc    Call for the next hint on the current task, paying the game's hint cost
+// @access  Private (Player token)
+router.post('/:id/hints', authenticatePlayer, hintRequestValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+
+  const { latitude, longitude, accuracy, taskNumber } = req.body;
+
+  const { player, task } = await findHintTask(req.params.id, taskNumber);
+
+  if (player.game.status !== 'active' || player.status !== 'active') {
+    throw new AppError('Cannot call for a hint for inactive player or game', 400, 'INACTIVE_PLAYER_OR_GAME');
+  }
+
+  // The position is a phone call reveal only when that is what the hint costs
+  if (latitude !== undefined && longitude !== undefined) {
+    const trigger = getHintCost(player.game).type === 'reveal' ? 'phone_call' : 'manual';
+    await player.updateLocation(latitude, longitude, accuracy, trigger);
+  }
+
+  const result = await useNextHint(req.app.get('io'), player.game, player, task);
+
+  res.json({
+    ...result,
+    hints: getUsedHints(player, task)
+  });
+}));
+
+// @route   POST /api/players/:id/catch
+// @desc    Hunter claims to have caught a fugitive nearby; the fugitive is asked to confirm
+// @access  Private (Player token)
+router.post('/:id/catch', authenticatePlayer, catchRequestValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+
+  const { fugitiveId, latitude, longitude, accuracy } = req.body;
+
+  const hunter = await Player.findById(req.params.id).populate('game');
+  if (!hunter) {
+    throw new AppError('Player not found', 404, 'PLAYER_NOT_FOUND');
+  }
+
+  // The hunter sends a fresh fix with the claim; the fugitive's comes from their location updates
+  if (latitude !== undefined && longitude !== undefined && hunter.status === 'active') {
+    await hunter.updateLocation(latitude, longitude, accuracy);
+  }
+
+  const fugitive = await Player.findById(fugitiveId);
+  const request = await requestCatch(req.app.get('io'), hunter.game, hunter, fugitive);
+
+  res.status(201).json({
+    message: `Waiting for ${fugitive.name} to confirm the catch`,
+    request: {
+      id: request._id,
+      fugitiveId: fugitive._id,
+      fugitiveName: fugitive.name,
+      distance: request.distance,
+      status: request.status,
+      expiresAt: request.expiresAt
     }
+  });
+}));
+
+// @route   GET /api/players/:id/badge
+// @desc    Get the fugitive's own QR badge to show a hunter who caught them
+// @access  Private (Player token)
+router.get('/:id/badge', authenticatePlayer, asyncHandler(async (req, res) => {
+  const player = req.player;
+  if (player.role !== 'fugitive') {
+    throw new AppError('Only fugitives have a badge', 403, 'INVALID_PLAYER_ROLE');
+  }
+
+  const game = await Game.findById(player.game).select('+taskSecret');
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
+  if (ensureTaskSecret(game)) {
+    await game.save();
   }
 
   res.json({
-    message: 'Location updated successfully',
-    location: player.currentLocation,
-    status: player.status
+    playerId: player._id,
+    name: player.name,
+    qrCode: await generateBadgeQRCode(game, player)
+  });
+}));
+
+// @route   POST /api/players/:id/catch-badge
+// @desc    Hunter scans a fugitive's badge to catch them
+// @access  Private (Player token)
+router.post('/:id/catch-badge', authenticatePlayer, badgeCatchValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+
+  const hunter = req.player;
+  const game = await Game.findById(hunter.game).select('+taskSecret');
+  if (!game) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
+  const fugitive = await catchByBadge(req.app.get('io'), game, hunter, req.body.badge);
+
+  res.json({
+    message: `${fugitive.name} is caught!`,
+    fugitive: {
+      id: fugitive._id,
+      name: fugitive.name,
+      status: fugitive.status
+    }
+  });
+}));
+
+// @route   GET /api/players/:id/catch-requests
+// @desc    Get the catch requests waiting for this player's answer, or made by this hunter
+// @access  Private (Player token)
+router.get('/:id/catch-requests', authenticatePlayer, asyncHandler(async (req, res) => {
+  const requests = await CatchRequest.find({
+    $or: [{ fugitive: req.params.id }, { hunter: req.params.id }],
+    status: 'pending'
+  })
+    .populate('hunter', 'name')
+    .populate('fugitive', 'name')
+    .sort({ createdAt: -1 });
+
+  res.json({
+    requests: requests.map(request => ({
+      id: request._id,
+      hunterId: request.hunter?._id,
+      hunterName: request.hunter?.name,
+      fugitiveId: request.fugitive?._id,
+      fugitiveName: request.fugitive?.name,
+      distance: request.distance,
+      status: request.status,
+      expiresAt: request.expiresAt
+    }))
+  });
+}));
+
+// @route   POST /api/players/:id/catch-requests/:requestId/respond
+// @desc    Fugitive confirms or disputes a hunter's catch
+// @access  Private (Player token)
+router.post('/:id/catch-requests/:requestId/respond', authenticatePlayer, catchResponseValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+
+  const request = await CatchRequest.findById(req.params.requestId);
+  if (!request || request.fugitive.toString() !== req.params.id) {
+    throw new AppError('Catch request not found', 404, 'CATCH_REQUEST_NOT_FOUND');
+  }
+
+  const confirmed = req.body.confirmed === true || req.body.confirmed === 'true';
+  const { request: resolved, caught } = await resolveCatch(req.app.get('io'), request, {
+    confirmed,
+    reason: req.body.reason
+  });
+
+  res.json({
+    message: confirmed ? 'Catch confirmed' : 'Catch disputed, the game master will decide',
+    status: resolved.status,
+    caught
   });
 }));
 
@@ -438,7 +940,11 @@ router.put('/:id/location', updateLocationValidation, asyncHandler(async (req, r
 router.put('/:id/status', authenticateToken, requireGameMaster, [
   body('status')
     .isIn(['waiting', 'active', 'caught', 'escaped', 'disconnected'])
-    .withMessage('Invalid status')
+    .withMessage('Invalid status'),
+  body('caughtBy')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Caught by must be the ID of the hunter')
 ], asyncHandler(async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -456,24 +962,27 @@ router.put('/:id/status', authenticateToken, requireGameMaster, [
   }
 
   const oldStatus = player.status;
-  player.status = status;
 
-  // If player was caught, record details
+  // A catch set by hand is recorded like any other: once, with its hunter, and announced
   if (status === 'caught' && oldStatus !== 'caught') {
-    // Update game results
-    const game = await Game.findById(player.game._id);
-    if (game) {
-      game.results.fugitivesCaught.push({
-        player: player._id,
-        caughtBy: caughtBy || null,
-        caughtAt: new Date(),
-        location: location || player.currentLocation
-      });
-      await game.save();
+    const hunter = caughtBy && await Player.findOne({ _id: caughtBy, game: player.game._id, role: 'hunter' });
+    if (caughtBy && !hunter) {
+      throw new AppError('Hunter not found', 404, 'PLAYER_NOT_FOUND');
     }
-  }
 
-  await player.save();
+    const caught = await recordCatch(req.app.get('io'), player.game, player._id, {
+      hunter,
+      location,
+      reportedBy: req.user.name
+    });
+    if (!caught) {
+      throw new AppError(`${player.name} can't be caught any more`, 409, 'FUGITIVE_NOT_ACTIVE');
+    }
+    player.status = caught.status;
+  } else {
+    player.status = status;
+    await player.save();
+  }
 
   // Emit socket event
   req.app.get('io')?.to(`game_${player.game._id}`).emit('player_status_changed', {
@@ -494,10 +1003,51 @@ router.put('/:id/status', authenticateToken, requireGameMaster, [
   });
 }));
 
+// @route   POST /api/players/:id/revoke-session
+// @desc    End a player's session on all devices (e.g. lost phone); the player can join again
+// @access  Private (Game Master or Game Lead)
+router.post('/:id/revoke-session', authenticateToken, requireRoles('super_admin', 'admin', 'game_lead', 'game_master'), asyncHandler(async (req, res) => {
+  const player = await Player.findById(req.params.id).populate('game');
+  if (!player) {
+    throw new AppError('Player not found', 404, 'PLAYER_NOT_FOUND');
+  }
+
+  // Check ownership
+  if (!['super_admin', 'admin'].includes(req.user.role) &&
+      player.game.createdBy.toString() !== req.user._id.toString()) {
+    throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+  }
+
+  player.sessionVersion = (player.sessionVersion || 0) + 1;
+  player.sessionRevokedAt = new Date();
+  player.isOnline = false;
+  const socketId = player.socketId;
+  player.socketId = null;
+  await player.save();
+
+  // Kick the device that is currently connected
+  const io = req.app.get('io');
+  if (io && socketId) {
+    io.to(socketId).emit('session_revoked', {
+      message: 'Your session was ended by the game master. Please join again.'
+    });
+    io.in(socketId).disconnectSockets(true);
+  }
+
+  res.json({
+    message: 'Player session revoked successfully',
+    player: {
+      id: player._id,
+      name: player.name,
+      sessionRevokedAt: player.sessionRevokedAt
+    }
+  });
+}));
+
 // @route   POST /api/players/:id/permissions
 // @desc    Update player permissions
-// @access  Public (with player ID)
-router.post('/:id/permissions', [
+// @access  Private (Player token)
+router.post('/:id/permissions', authenticatePlayer, [
   body('location')
     .optional()
     .isBoolean()
@@ -563,8 +1113,8 @@ router.delete('/:id', authenticateToken, requireGameMaster, asyncHandler(async (
 
 // @route   GET /api/players/:id/stats
 // @desc    Get player statistics
-// @access  Public (with player ID)
-router.get('/:id/stats', asyncHandler(async (req, res) => {
+// @access  Private (Player token)
+router.get('/:id/stats', authenticatePlayer, asyncHandler(async (req, res) => {
   const player = await Player.findById(req.params.id).populate('game');
   if (!player) {
     throw new AppError('Player not found', 404, 'PLAYER_NOT_FOUND');
@@ -577,7 +1127,11 @@ router.get('/:id/stats', asyncHandler(async (req, res) => {
     ...player.gameStats,
     distanceTraveled,
     tasksCompleted: player.completedTasks.length,
-    currentTaskNumber: player.currentTaskNumber,
+    totalTasks: player.game ? player.game.getPlayerRoute(player).length : null,
+    availableTasks: player.game ? player.game.getAvailableTasksForPlayer(player).map(task => task.taskNumber) : [],
+    hintsUsed: player.hintsUsed.length,
+    timePenaltyMinutes: player.timePenaltyMinutes || 0,
+    scorePenalty: player.scorePenalty || 0,
     timeSinceLastLocation: player.timeSinceLastLocation,
     isOnline: player.isOnline,
     lastSeen: player.lastSeen
@@ -588,18 +1142,41 @@ router.get('/:id/stats', asyncHandler(async (req, res) => {
 
 // @route   POST /api/players/:id/complete-task
 // @desc    Complete a task for a player
-// @access  Public (for game players)
-router.post('/:id/complete-task', [
+// @access  Private (Player token)
+router.post('/:id/complete-task', authenticatePlayer, [
   body('taskNumber')
-    .isInt({ min: 1, max: 6 })
-    .withMessage('Task number must be between 1 and 6'),
+    .isInt({ min: 1, max: 20 })
+    .withMessage('Task number must be between 1 and 20')
+    .toInt(),
   body('answer')
+    .optional()
     .trim()
-    .isLength({ min: 1, max: 100 })
-    .withMessage('Answer must be between 1 and 100 characters'),
+    .isLength({ max: 100 })
+    .withMessage('Answer must be less than 100 characters'),
+  body('location.latitude')
+    .optional()
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('Latitude must be between -90 and 90'),
+  body('location.longitude')
+    .optional()
+    .isFloat({ min: -180, max: 180 })
+    .withMessage('Longitude must be between -180 and 180'),
   body('gameId')
     .isMongoId()
-    .withMessage('Valid game ID is required')
+    .withMessage('Valid game ID is required'),
+  body('signature')
+    .optional()
+    .isString()
+    .isLength({ max: 64 })
+    .withMessage('Invalid QR code signature'),
+  body('manualCode')
+    .optional()
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('Manual code must be 6 digits'),
+  body()
+    .custom(value => Boolean(value.signature || value.manualCode))
+    .withMessage('A QR code signature or manual code is required')
 ], asyncHandler(async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -609,97 +1186,29 @@ router.post('/:id/complete-task', [
     });
   }
 
-  const { taskNumber, answer, gameId } = req.body;
+  const { taskNumber, answer, location, gameId, signature, manualCode } = req.body;
   const playerId = req.params.id;
 
   // Find the player
-  const player = await Player.findById(playerId).populate('game');
+  const player = await Player.findById(playerId).populate({ path: 'game', select: '+taskSecret' });
   if (!player) {
     throw new AppError('Player not found', 404, 'PLAYER_NOT_FOUND');
   }
 
+  if (!player.game || !player.game.isActive) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+  }
+
   // Verify the game ID matches
   if (player.game._id.toString() !== gameId) {
     throw new AppError('Game ID mismatch', 400, 'GAME_MISMATCH');
   }
 
-  // Check if game is active
-  if (player.game.status !== 'active') {
-    throw new AppError('Game is not active', 400, 'GAME_NOT_ACTIVE');
-  }
-
-  // Check if player is active (allow 'waiting' status if game just started)
-  if (player.status !== 'active' && player.status !== 'waiting') {
-    throw new AppError('Player is not active', 400, 'PLAYER_NOT_ACTIVE');
-  }
-
-  // If player is waiting but game is active, update player status
-  if (player.status === 'waiting' && player.game.status === 'active') {
-    player.status = 'active';
-    await player.save();
-  }
+  const result = await completeTask(req.app.get('io'), player, { taskNumber, answer, location, signature, manualCode });
 
-  // Find the task in the game
-  const task = player.game.tasks.find(t => t.taskNumber === taskNumber);
-  if (!task) {
-    throw new AppError('Task not found', 404, 'TASK_NOT_FOUND');
-  }
-
-  // Check if player can access this task (sequential completion)
-  const playerCompletedTasks = player.completedTasks.length || 0;
-  if (taskNumber !== playerCompletedTasks + 1) {
-    if (taskNumber <= playerCompletedTasks) {
-      throw new AppError('Task already completed', 400, 'TASK_ALREADY_COMPLETED');
-    } else {
-      throw new AppError('Must complete previous tasks first', 400, 'SEQUENTIAL_COMPLETION_REQUIRED');
-    }
-  }
-
-  // Check the answer (case-insensitive)
-  const normalizedAnswer = answer.toLowerCase().trim();
-  const correctAnswer = task.answer.toLowerCase().trim();
-  const isCorrect = normalizedAnswer === correctAnswer;
-
-  if (isCorrect) {
-    // Add completion record to the player's completedTasks array
-    player.completedTasks.push({
-      taskId: task._id,
-      taskNumber: taskNumber,
-      completedAt: new Date(),
-      location: player.currentLocation
-    });
-    
-    // Update gameStats
-    player.gameStats.tasksCompleted = player.completedTasks.length;
-    
-    // Add completion record to the task
-    if (!task.completedBy) {
-      task.completedBy = [];
-    }
-    
-    task.completedBy.push({
-      player: player._id,
-      completedAt: new Date(),
-      answer: normalizedAnswer
-    });
-
-    // Save both player and game
-    await player.save();
-    await player.game.save();
-
-    res.json({
-      correct: true,
-      message: 'Task completed successfully',
-      tasksCompleted: player.completedTasks.length,
-      taskNumber: taskNumber
-    });
-  } else {
-    res.json({
-      correct: false,
-      message: 'Incorrect answer',
-      taskNumber: taskNumber
-    });
-  }
+  // Unlike the task submit endpoint, a wrong answer is a 200 with `correct: false` here, as it
+  // has always been for this endpoint's clients
+  res.json(result);
 }));
 
 module.exports = router;
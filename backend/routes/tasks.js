@@ -2,20 +2,43 @@ const express = require('express');
 const { body, validationResult } = require('express-validator');
 const Game = require('../models/Game');
 const Player = require('../models/Player');
-const { optionalAuth } = require('../middleware/auth');
 const { asyncHandler, AppError } = require('../middleware/errorHandler');
+const PhotoSubmission = require('../models/PhotoSubmission');
+const TaskAttempt = require('../models/TaskAttempt');
+const { optionalAuth, optionalPlayer, authenticatePlayer } = require('../middleware/auth');
+const { uploadPhoto, discardUpload } = require('../middleware/upload');
+const { verifyTaskProof, findTaskNumberByManualCode } = require('../services/taskCodeService');
+const { getPlayerTaskDetails } = require('../services/taskAnswerService');
+const { getAttemptStats } = require('../services/taskAttemptService');
+const { assertCanAnswer, completeTask, getExtractionStep, getTaskProgress } = require('../services/taskProgressService');
 
 const router = express.Router();
 
 // Validation rules
+
+// Every task request must prove the player scanned the QR code or typed its manual code
+const taskProofValidation = [
+  body('signature')
+    .optional()
+    .isString()
+    .isLength({ max: 64 })
+    .withMessage('Invalid QR code signature'),
+  body('manualCode')
+    .optional()
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('Manual code must be 6 digits'),
+  body()
+    .custom(value => Boolean(value.signature || value.manualCode))
+    .withMessage('A QR code signature or manual code is required')
+];
+
 const submitAnswerValidation = [
   body('answer')
+    .optional()
     .trim()
-    .isLength({ min: 1, max: 100 })
-    .withMessage('Answer must be between 1 and 100 characters'),
-  body('playerId')
-    .isMongoId()
-    .withMessage('Valid player ID is required'),
+    .isLength({ max: 100 })
+    .withMessage('Answer must be less than 100 characters'),
   body('location')
     .optional()
     .isObject()
@@ -27,22 +50,46 @@ const submitAnswerValidation = [
   body('location.longitude')
     .optional()
     .isFloat({ min: -180, max: 180 })
-    .withMessage('Longitude must be between -180 and 180')
+    .withMessage('Longitude must be between -180 and 180'),
+  ...taskProofValidation
+];
+
+// Multipart fields sent along with a photo
+const photoUploadValidation = [
+  body('latitude')
+    .optional()
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('Latitude must be between -90 and 90'),
+  body('longitude')
+    .optional()
+    .isFloat({ min: -180, max: 180 })
+    .withMessage('Longitude must be between -180 and 180'),
+  ...taskProofValidation
+];
+
+const verifyCodeValidation = [
+  body('taskNumber')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Task number must be a positive integer'),
+  ...taskProofValidation
 ];
 
 // @route   GET /api/tasks/:gameId/:taskNumber
-// @desc    Get a specific task (accessed via QR code)
+// @desc    Get a specific task (accessed via QR code); with a player token of this game,
+//          also where the player stands, so the task page knows whether to take an answer
 // @access  Public
-router.get('/:gameId/:taskNumber', asyncHandler(async (req, res) => {
+router.get('/:gameId/:taskNumber', optionalPlayer, asyncHandler(async (req, res) => {
   const { gameId, taskNumber } = req.params;
+  const { sig, code } = req.query;
 
-  const game = await Game.findById(gameId);
+  const game = await Game.findById(gameId).select('+taskSecret');
   if (!game || !game.isActive) {
     throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
   }
 
   const taskNum = parseInt(taskNumber);
-  if (isNaN(taskNum) || taskNum < 1 || taskNum > 6) {
+  if (isNaN(taskNum) || taskNum < 1 || taskNum > game.getTaskCount()) {
     throw new AppError('Invalid task number', 400, 'INVALID_TASK_NUMBER');
   }
 
@@ -51,24 +98,33 @@ router.get('/:gameId/:taskNumber', asyncHandler(async (req, res) => {
     throw new AppError('Task not found', 404, 'TASK_NOT_FOUND');
   }
 
+  if (!verifyTaskProof(game, taskNum, { signature: sig, manualCode: code })) {
+    throw new AppError('Invalid or expired task code', 403, 'INVALID_TASK_CODE');
+  }
+
+  const player = req.player && req.player.game.toString() === game._id.toString() ? req.player : null;
+
   // Return task without the answer
   res.json({
     task: {
       id: task._id,
       taskNumber: task.taskNumber,
       question: task.question,
+      ...getPlayerTaskDetails(task),
       location: task.location,
       gameId: game._id,
       gameName: game.name,
+      gameCode: game.gameCode,
       gameStatus: game.status
-    }
+    },
+    progress: player ? getTaskProgress(game, player, taskNum) : null
   });
 }));
 
-// @route   POST /api/tasks/:gameId/:taskNumber/submit
-// @desc    Submit an answer to a task
-// @access  Public
-router.post('/:gameId/:taskNumber/submit', submitAnswerValidation, asyncHandler(async (req, res) => {
+// @route   POST /api/tasks/:gameId/verify
+// @desc    Check a scanned QR signature or typed manual code and return its task
+// @access  Private (Player token)
+router.post('/:gameId/verify', authenticatePlayer, verifyCodeValidation, asyncHandler(async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
     return res.status(400).json({
@@ -77,169 +133,160 @@ router.post('/:gameId/:taskNumber/submit', submitAnswerValidation, asyncHandler(
     });
   }
 
-  const { gameId, taskNumber } = req.params;
-  const { answer, playerId, location } = req.body;
+  const { signature, manualCode } = req.body;
 
-  // Find the game
-  const game = await Game.findById(gameId);
+  const game = await Game.findById(req.params.gameId).select('+taskSecret');
   if (!game || !game.isActive) {
     throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
   }
 
-  // Check if game is active
-  if (game.status !== 'active') {
-    throw new AppError('Game is not active', 400, 'GAME_NOT_ACTIVE');
-  }
+  const taskNum = manualCode && !signature
+    ? findTaskNumberByManualCode(game, manualCode)
+    : parseInt(req.body.taskNumber);
 
-  // Check if game has expired
-  if (game.isExpired()) {
-    throw new AppError('Game has expired', 400, 'GAME_EXPIRED');
+  const task = game.tasks.find(t => t.taskNumber === taskNum);
+  if (!task || !verifyTaskProof(game, taskNum, { signature, manualCode })) {
+    throw new AppError('Invalid or expired task code', 403, 'INVALID_TASK_CODE');
   }
 
-  const taskNum = parseInt(taskNumber);
-  if (isNaN(taskNum) || taskNum < 1 || taskNum > 6) {
-    throw new AppError('Invalid task number', 400, 'INVALID_TASK_NUMBER');
-  }
+  res.json({
+    task: {
+      id: task._id,
+      taskNumber: task.taskNumber,
+      question: task.question,
+      ...getPlayerTaskDetails(task),
+      location: task.location,
+      gameId: game._id,
+      gameName: game.name,
+      gameStatus: game.status
+    }
+  });
+}));
 
-  // Find the task
-  const task = game.tasks.find(t => t.taskNumber === taskNum);
-  if (!task) {
-    throw new AppError('Task not found', 404, 'TASK_NOT_FOUND');
+// @route   POST /api/tasks/:gameId/:taskNumber/submit
+// @desc    Submit an answer to a task
+// @access  Private (Player token)
+router.post('/:gameId/:taskNumber/submit', authenticatePlayer, submitAnswerValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array()
+    });
   }
 
-  // Find the player
-  const player = await Player.findById(playerId);
+  const { gameId, taskNumber } = req.params;
+  const { answer, location, signature, manualCode } = req.body;
+
+  // The player comes from the token, which is scoped to one game
+  const player = await Player.findById(req.player._id).populate({ path: 'game', select: '+taskSecret' });
   if (!player) {
     throw new AppError('Player not found', 404, 'PLAYER_NOT_FOUND');
   }
 
-  // Check if player belongs to this game
-  if (player.game.toString() !== gameId) {
-    throw new AppError('Player does not belong to this game', 403, 'PLAYER_GAME_MISMATCH');
+  if (!player.game || !player.game.isActive) {
+    throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
   }
 
-  // Check if player is a fugitive and active
-  if (player.role !== 'fugitive') {
-    throw new AppError('Only fugitives can complete tasks', 403, 'INVALID_PLAYER_ROLE');
+  if (player.game._id.toString() !== gameId) {
+    throw new AppError('Game ID mismatch', 400, 'GAME_MISMATCH');
   }
 
-  if (player.status !== 'active') {
-    throw new AppError('Player is not active', 400, 'PLAYER_NOT_ACTIVE');
-  }
+  const result = await completeTask(req.app.get('io'), player, {
+    taskNumber: parseInt(taskNumber),
+    answer,
+    location,
+    signature,
+    manualCode
+  });
 
-  // Check if this is the correct next task for the player
-  const expectedTaskNumber = player.completedTasks.length + 1;
-  if (taskNum !== expectedTaskNumber) {
-    throw new AppError(
-      `You must complete task ${expectedTaskNumber} first`, 
-      400, 
-      'WRONG_TASK_ORDER'
-    );
+  // A wrong answer is a client error on this endpoint, with the same fields as a right one
+  if (!result.correct) {
+    return res.status(400).json({ error: result.message, ...result });
   }
 
-  // Check if player already completed this task
-  const alreadyCompleted = player.completedTasks.some(ct => ct.taskNumber === taskNum);
-  if (alreadyCompleted) {
-    throw new AppError('Task already completed', 400, 'TASK_ALREADY_COMPLETED');
-  }
+  res.json(result);
+}));
 
-  // Check the answer (case-insensitive)
-  const normalizedAnswer = answer.toLowerCase().trim();
-  const correctAnswer = task.answer.toLowerCase().trim();
-  
-  const isCorrect = normalizedAnswer === correctAnswer;
+// @route   POST /api/tasks/:gameId/:taskNumber/photo
+// @desc    Upload a photo for a photo task; a game master approves or rejects it
+// @access  Private (Player token)
+router.post('/:gameId/:taskNumber/photo', authenticatePlayer, uploadPhoto, photoUploadValidation, asyncHandler(async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      await discardUpload(req);
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
 
-  if (!isCorrect) {
-    return res.status(400).json({
-      error: 'Incorrect answer',
-      code: 'INCORRECT_ANSWER',
-      correct: false
-    });
-  }
+    if (!req.file) {
+      throw new AppError('A photo is required', 400, 'PHOTO_REQUIRED');
+    }
 
-  // Answer is correct - complete the task
-  await player.completeTask(task._id, taskNum, location);
+    const { gameId, taskNumber } = req.params;
+    const { latitude, longitude, signature, manualCode } = req.body;
 
-  // Update task completion in game
-  const taskIndex = game.tasks.findIndex(t => t.taskNumber === taskNum);
-  if (taskIndex !== -1) {
-    game.tasks[taskIndex].completedBy.push({
-      player: player._id,
-      completedAt: new Date()
-    });
-    
-    // Update game stats
-    game.results.completedTasks = Math.max(
-      game.results.completedTasks || 0,
-      player.completedTasks.length
-    );
-    
-    await game.save();
-  }
+    const game = await Game.findById(gameId).select('+taskSecret');
+    if (!game || !game.isActive) {
+      throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
+    }
 
-  // Update player location if provided
-  if (location && location.latitude && location.longitude) {
-    await player.updateLocation(
-      location.latitude, 
-      location.longitude, 
-      location.accuracy,
-      'task_completion'
-    );
-  }
+    const player = req.player;
+    const taskNum = parseInt(taskNumber);
+    const task = assertCanAnswer(game, player, taskNum, { signature, manualCode });
 
-  // Determine what to return next
-  let nextStep = null;
-  
-  if (player.completedTasks.length === 6) {
-    // All tasks completed - provide extraction point
-    nextStep = {
-      type: 'extraction',
-      message: 'All tasks completed! Head to the extraction point.',
-      extractionPoint: game.extractionPoint,
-      remainingTime: game.remainingTime
-    };
-  } else {
-    // Get next task location
-    const nextTask = game.getNextTaskForPlayer(player._id);
-    if (nextTask) {
-      nextStep = {
-        type: 'next_task',
-        message: `Task ${taskNum} completed! Head to the next location.`,
-        nextTaskNumber: nextTask.taskNumber,
-        nextLocation: nextTask.location,
-        remainingTasks: 6 - player.completedTasks.length
-      };
+    if (task.type !== 'photo') {
+      throw new AppError('This task is not a photo task', 400, 'NOT_A_PHOTO_TASK');
     }
-  }
-
-  // Emit socket event for real-time updates
-  req.app.get('io')?.to(`game_${gameId}`).emit('task_completed', {
-    playerId: player._id,
-    playerName: player.name,
-    taskNumber: taskNum,
-    completedTasks: player.completedTasks.length,
-    location: player.currentLocation
-  });
 
-  res.json({
-    correct: true,
-    message: `Task ${taskNum} completed successfully!`,
-    completedTasks: player.completedTasks.length,
-    totalTasks: 6,
-    nextStep,
-    player: {
-      id: player._id,
-      name: player.name,
-      completedTasks: player.completedTasks.length,
-      currentLocation: player.currentLocation
+    const pending = await PhotoSubmission.exists({ player: player._id, taskNumber: taskNum, status: 'pending' });
+    if (pending) {
+      throw new AppError('Your photo for this task is still being reviewed', 409, 'PHOTO_PENDING_REVIEW');
     }
-  });
+
+    const submission = await PhotoSubmission.create({
+      game: game._id,
+      player: player._id,
+      taskId: task._id,
+      taskNumber: taskNum,
+      filename: req.file.filename,
+      mimeType: req.file.mimetype,
+      size: req.file.size,
+      location: latitude !== undefined && longitude !== undefined
+        ? { latitude: parseFloat(latitude), longitude: parseFloat(longitude) }
+        : undefined
+    });
+
+    req.app.get('io')?.to(`game_${game._id}_masters`).emit('photo_submitted', {
+      submissionId: submission._id,
+      playerId: player._id,
+      playerName: player.name,
+      taskNumber: taskNum,
+      submittedAt: submission.createdAt
+    });
+
+    res.status(201).json({
+      message: 'Photo submitted! Waiting for the game master to review it.',
+      submission: {
+        id: submission._id,
+        taskNumber: submission.taskNumber,
+        status: submission.status,
+        submittedAt: submission.createdAt
+      }
+    });
+  } catch (error) {
+    await discardUpload(req);
+    throw error;
+  }
 }));
 
 // @route   GET /api/tasks/player/:playerId/current
 // @desc    Get current task for a player
-// @access  Public
-router.get('/player/:playerId/current', asyncHandler(async (req, res) => {
+// @access  Private (Player token)
+router.get('/player/:playerId/current', authenticatePlayer, asyncHandler(async (req, res) => {
   const player = await Player.findById(req.params.playerId).populate('game');
   
   if (!player) {
@@ -261,19 +308,25 @@ router.get('/player/:playerId/current', asyncHandler(async (req, res) => {
   }
 
   // Check if all tasks are completed
-  if (player.completedTasks.length === 6) {
+  if (game.hasCompletedAllTasks(player)) {
+    const { message, extractionPoint, opensAt, closesAt, isOpen } = getExtractionStep(game, player);
+
     return res.json({
       currentTask: null,
       allTasksCompleted: true,
-      extractionPoint: game.extractionPoint,
-      message: 'All tasks completed! Head to the extraction point.',
+      extractionPoint,
+      opensAt,
+      closesAt,
+      isOpen,
+      message,
       completedTasks: player.completedTasks.length
     });
   }
 
-  // Get next task
-  const nextTask = game.getNextTaskForPlayer(player._id);
-  
+  // Get the tasks open to the player on their route
+  const available = game.getAvailableTasksForPlayer(player);
+  const nextTask = available[0];
+
   if (!nextTask) {
     return res.json({
       currentTask: null,
@@ -288,9 +341,11 @@ router.get('/player/:playerId/current', asyncHandler(async (req, res) => {
       location: nextTask.location,
       // Don't include question or QR code - player must scan QR to get task
     },
+    // Every task the player may pick from now, when their route offers a choice
+    availableTasks: available.map(task => ({ taskNumber: task.taskNumber, location: task.location })),
     completedTasks: player.completedTasks.length,
-    totalTasks: 6,
-    remainingTasks: 6 - player.completedTasks.length,
+    totalTasks: game.getPlayerRoute(player).length,
+    remainingTasks: game.getPlayerRoute(player).length - player.completedTasks.length,
     gameStatus: game.status,
     remainingTime: game.remainingTime
   });
@@ -298,8 +353,8 @@ router.get('/player/:playerId/current', asyncHandler(async (req, res) => {
 
 // @route   GET /api/tasks/player/:playerId/completed
 // @desc    Get completed tasks for a player
-// @access  Public
-router.get('/player/:playerId/completed', asyncHandler(async (req, res) => {
+// @access  Private (Player token)
+router.get('/player/:playerId/completed', authenticatePlayer, asyncHandler(async (req, res) => {
   const player = await Player.findById(req.params.playerId).populate('game');
   
   if (!player) {
@@ -309,13 +364,22 @@ router.get('/player/:playerId/completed', asyncHandler(async (req, res) => {
   const completedTasks = player.completedTasks.map(ct => ({
     taskNumber: ct.taskNumber,
     completedAt: ct.completedAt,
-    location: ct.location
+    location: ct.location,
+    hintsUsed: ct.hintsUsed || 0
   }));
 
   res.json({
     completedTasks,
     totalCompleted: completedTasks.length,
-    totalTasks: 6,
+    totalTasks: player.game ? player.game.getPlayerRoute(player).length : null,
+    // The player's route and the tasks open to them now
+    route: player.game ? player.game.getPlayerRoute(player) : [],
+    availableTasks: player.game ? player.game.getAvailableTasksForPlayer(player).map(task => task.taskNumber) : [],
+    timePenaltyMinutes: player.timePenaltyMinutes || 0,
+    scorePenalty: player.scorePenalty || 0,
+    deadline: player.game ? player.game.getDeadlineForPlayer(player) : null,
+    // Where the fugitive escapes, once every task on their route is done
+    extraction: player.game?.hasCompletedAllTasks(player) ? getExtractionStep(player.game, player) : null,
     player: {
       id: player._id,
       name: player.name,
@@ -326,43 +390,94 @@ router.get('/player/:playerId/completed', asyncHandler(async (req, res) => {
 
 // @route   GET /api/tasks/game/:gameId/progress
 // @desc    Get task completion progress for all players in a game
-// @access  Public
-router.get('/game/:gameId/progress', asyncHandler(async (req, res) => {
+// @access  Public (answer attempts and penalties for the game's game master only)
+router.get('/game/:gameId/progress', optionalAuth, asyncHandler(async (req, res) => {
   const game = await Game.findById(req.params.gameId);
   if (!game) {
     throw new AppError('Game not found', 404, 'GAME_NOT_FOUND');
   }
 
+  const isGameMaster = Boolean(req.user) && (
+    ['super_admin', 'admin'].includes(req.user.role) ||
+    [game.createdBy, game.gameMaster].some(id => id?.toString() === req.user._id.toString())
+  );
+
   const players = await Player.find({ 
     game: req.params.gameId, 
     role: 'fugitive' 
-  }).select('name completedTasks status');
+  }).select('name team completedTasks status timePenaltyMinutes scorePenalty hintsUsed route');
 
-  const progress = players.map(player => ({
-    playerId: player._id,
-    playerName: player.name,
-    completedTasks: player.completedTasks.length,
-    status: player.status,
-    lastTaskCompleted: player.completedTasks.length > 0 
-      ? player.completedTasks[player.completedTasks.length - 1].completedAt 
-      : null
-  }));
+  const attemptStats = isGameMaster ? await getAttemptStats(game) : null;
+
+  const progress = players.map(player => {
+    const stats = attemptStats?.get(player._id.toString());
+
+    return {
+      playerId: player._id,
+      playerName: player.name,
+      completedTasks: player.completedTasks.length,
+      totalTasks: game.getPlayerRoute(player).length,
+      status: player.status,
+      lastTaskCompleted: player.completedTasks.length > 0 
+        ? player.completedTasks[player.completedTasks.length - 1].completedAt 
+        : null,
+      ...(isGameMaster && {
+        attempts: stats?.attempts || 0,
+        wrongAttempts: stats?.wrongAttempts || 0,
+        lockedTasks: stats?.lockouts || [],
+        hintsUsed: player.hintsUsed.length,
+        timePenaltyMinutes: player.timePenaltyMinutes || 0,
+        scorePenalty: player.scorePenalty || 0,
+        deadline: game.getDeadlineForPlayer(player),
+        // Their assigned path: per step the tasks they may choose from, and what they did
+        team: player.team,
+        route: game.getPlayerRoute(player),
+        completedRoute: player.completedTasks.map(ct => ct.taskNumber)
+      })
+    };
+  });
 
   // Calculate overall statistics
-  const totalTasks = players.length * 6;
+  const totalTasks = players.reduce((sum, p) => sum + game.getPlayerRoute(p).length, 0);
   const completedTasks = players.reduce((sum, p) => sum + p.completedTasks.length, 0);
   const completionRate = totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0;
 
-  res.json({
+  const response = {
     progress,
     statistics: {
       totalPlayers: players.length,
       totalTasks,
       completedTasks,
       completionRate: Math.round(completionRate * 100) / 100,
-      playersCompleted: players.filter(p => p.completedTasks.length === 6).length
-    }
-  });
+      playersCompleted: players.filter(p => game.hasCompletedAllTasks(p)).length
+    },
+    tasksPerPlayer: game.getTaskCount(),
+    taskOrder: game.settings?.taskOrder || 'sequential'
+  };
+
+  // The latest answers given, so the game master can spot guessing
+  if (isGameMaster) {
+    const recentAttempts = await TaskAttempt.find({ game: game._id })
+      .sort({ createdAt: -1 })
+      .limit(50)
+      .populate('player', 'name');
+
+    response.recentAttempts = recentAttempts.map(attempt => ({
+      id: attempt._id,
+      playerId: attempt.player?._id,
+      playerName: attempt.player?.name,
+      taskNumber: attempt.taskNumber,
+      answer: attempt.answer,
+      correct: attempt.correct,
+      matchedAnswer: attempt.matchedAnswer,
+      distance: attempt.distance,
+      lockedUntil: attempt.lockedUntil,
+      penalty: attempt.penalty,
+      createdAt: attempt.createdAt
+    }));
+  }
+
+  res.json(response);
 }));
 
 module.exports = router;
@@ -0,0 +1,8 @@
+// Generate the VAPID key pair the server signs Web Push notifications with.
+// Run once and copy the output into .env; changing the keys invalidates every subscription.
+const webpush = require('web-push');
+
+const { publicKey, privateKey } = webpush.generateVAPIDKeys();
+
+console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
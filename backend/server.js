@@ -14,6 +14,7 @@ const gameRoutes = require('./routes/games');
 const playerRoutes = require('./routes/players');
 const taskRoutes = require('./routes/tasks');
 const adminRoutes = require('./routes/admin');
+const notificationRoutes = require('./routes/notifications');
 
 // Import middleware
 const authMiddleware = require('./middleware/auth');
@@ -22,13 +23,15 @@ const { errorHandler } = require('./middleware/errorHandler');
 // Import socket handlers
 const socketHandler = require('./socket/socketHandler');
 
+// Import services
+const { registerCatchJobHandlers, ensureCatchExpiryJobs } = require('./services/catchService');
+const { startClockScheduler } = require('./services/gameClockService');
+const { startJobWorker } = require('./services/jobQueueService');
+const { registerGameJobHandlers, ensureRunningGameJobs } = require('./services/gameLifecycleService');
+
 // Import database initialization
 const initDatabase = require('./config/database');
 
-// Import models for game expiration checking
-const Game = require('./models/Game');
-const Player = require('./models/Player');
-
 const app = express();
 const server = createServer(app);
 
@@ -41,6 +44,9 @@ const io = new Server(server, {
   }
 });
 
+// Make Socket.IO available to route handlers via req.app.get('io')
+app.set('io', io);
+
 // Security middleware - disabled for development to avoid CORS conflicts
 // app.use(helmet({
 //   contentSecurityPolicy: {
@@ -108,6 +114,7 @@ app.use('/api/games', gameRoutes);
 app.use('/api/players', playerRoutes);
 app.use('/api/tasks', taskRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/notifications', notificationRoutes);
 
 // Socket.IO connection handling
 socketHandler(io);
@@ -123,70 +130,6 @@ app.use('*', (req, res) => {
   });
 });
 
-// Automatic game expiration checker
-async function checkExpiredGames() {
-  try {
-    const now = new Date();
-    
-    // Find active games that have exceeded their duration
-    const expiredGames = await Game.find({
-      status: 'active',
-      startTime: { $exists: true },
-      $expr: {
-        $lt: [
-          { $add: ['$startTime', { $multiply: ['$duration', 60000] }] }, // startTime + duration in ms
-          now
-        ]
-      }
-    });
-
-    for (const game of expiredGames) {
-      console.log(`⏰ Game ${game.name} (${game.gameCode}) has expired, ending automatically...`);
-      
-      // End the game
-      game.status = 'completed';
-      game.results.gameEndReason = 'time_expired';
-      
-      // Calculate results
-      const fugitives = await Player.find({ game: game._id, role: 'fugitive' });
-      const escapedFugitives = fugitives.filter(f => f.status === 'escaped');
-      const caughtFugitives = fugitives.filter(f => f.status === 'caught');
-
-      game.results.fugitivesEscaped = escapedFugitives.map(f => f._id);
-      game.results.fugitivesCaught = caughtFugitives.map(f => ({
-        player: f._id,
-        caughtAt: f.updatedAt,
-        location: f.currentLocation
-      }));
-
-      // Determine winner based on time expiration
-      if (escapedFugitives.length > 0) {
-        game.results.winner = 'fugitives'; // Fugitives win if they survived until time expired
-      } else if (caughtFugitives.length === fugitives.length) {
-        game.results.winner = 'hunters';
-      } else {
-        game.results.winner = 'fugitives'; // Default to fugitives if time expired
-      }
-
-      await game.save();
-
-      // Update all players to completed status
-      await Player.updateMany(
-        { game: game._id },
-        { status: 'completed' }
-      );
-
-      console.log(`✅ Game ${game.name} ended due to time expiration. Winner: ${game.results.winner}`);
-    }
-
-    if (expiredGames.length > 0) {
-      console.log(`⏰ Processed ${expiredGames.length} expired game(s)`);
-    }
-  } catch (error) {
-    console.error('❌ Error checking expired games:', error);
-  }
-}
-
 // Database connection and server startup
 const PORT = process.env.PORT || 5000;
 
@@ -200,9 +143,18 @@ async function startServer() {
     // Initialize database (create super admin, etc.)
     await initDatabase();
     
-    // Start automatic game expiration checker (runs every minute)
-    setInterval(checkExpiredGames, 60000); // Check every 60 seconds
-    console.log('⏰ Game expiration checker started (runs every 60 seconds)');
+    // Run scheduled game events (start, warnings, reveals, extraction, end, unanswered catches);
+    // jobs that came due while the server was down run right away
+    registerGameJobHandlers();
+    registerCatchJobHandlers();
+    await ensureRunningGameJobs();
+    await ensureCatchExpiryJobs();
+    startJobWorker(io);
+    console.log('🗓️ Game job worker started');
+
+    // Keep client timers in sync with the server's game clocks
+    startClockScheduler(io);
+    console.log('⏰ Game clock broadcast started');
     
     // Start server
     server.listen(PORT, () => {
@@ -0,0 +1,348 @@
+const Game = require('../models/Game');
+const Player = require('../models/Player');
+const CatchRequest = require('../models/CatchRequest');
+const { AppError } = require('../middleware/errorHandler');
+const { BADGE_PAYLOAD_TYPE, verifyBadge } = require('./taskCodeService');
+const { notifyGame, notifyPlayer: pushToPlayer, notifyGameMasters } = require('./notificationService');
+const { registerJobHandler, scheduleJob } = require('./jobQueueService');
+
+function getCatchSettings(game) {
+  const { catchRadius = 15, catchLocationMaxAge = 60, catchConfirmSeconds = 60 } = game.settings || {};
+  return { catchRadius, catchLocationMaxAge, catchConfirmSeconds };
+}
+
+function toLocation(player) {
+  const { latitude, longitude, accuracy } = player.currentLocation || {};
+  return { latitude, longitude, accuracy };
+}
+
+// A position is only good enough to validate a catch when it is recent
+function assertFreshLocation(player, maxAgeSeconds, who) {
+  const { latitude, longitude, lastUpdated } = player.currentLocation || {};
+
+  if (latitude == null || longitude == null || !lastUpdated) {
+    throw new AppError(`No location known for ${who}`, 400, 'LOCATION_REQUIRED');
+  }
+
+  if (Date.now() - new Date(lastUpdated).getTime() > maxAgeSeconds * 1000) {
+    throw new AppError(`The location of ${who} is out of date, wait for a fresh GPS fix`, 400, 'LOCATION_TOO_OLD');
+  }
+}
+
+// Mark a fugitive caught and record the catch in the game results.
+// Atomic: of two simultaneous catches only one succeeds; returns null for the other.
+// `reportedBy` names whoever registered a catch that no hunter claimed (a game master).
+async function recordCatch(io, game, fugitiveId, { hunter = null, location = null, method = 'game_master', reportedBy = null } = {}) {
+  const caughtAt = new Date();
+
+  const fugitive = await Player.findOneAndUpdate(
+    { _id: fugitiveId, game: game._id, role: 'fugitive', status: 'active' },
+    { status: 'caught' },
+    { new: true }
+  );
+  if (!fugitive) return null;
+
+  const catchLocation = location || toLocation(fugitive);
+
+  await Game.updateOne(
+    { _id: game._id },
+    {
+      $push: {
+        'results.fugitivesCaught': {
+          player: fugitive._id,
+          caughtBy: hunter?._id,
+          method,
+          caughtAt,
+          location: { latitude: catchLocation.latitude, longitude: catchLocation.longitude }
+        }
+      }
+    }
+  );
+
+  io?.to(`game_${game._id}`).emit('player_caught', {
+    playerId: fugitive._id,
+    playerName: fugitive.name,
+    location: catchLocation,
+    caughtBy: hunter?.name || reportedBy,
+    caughtById: hunter?._id || null,
+    method,
+    timestamp: caughtAt
+  });
+  notifyGame(game, { title: '🚨 Fugitive caught', body: `${fugitive.name} was caught.`, tag: `caught_${fugitive._id}` });
+
+  return fugitive;
+}
+
+// Fugitives caught without a recorded catch (e.g. before catches were recorded) are added
+// to the results; catches already recorded keep their hunter and location.
+function mergeCaughtFugitives(game, caughtFugitives) {
+  const recorded = (game.results.fugitivesCaught || []).filter(entry =>
+    caughtFugitives.some(f => f._id.toString() === entry.player?.toString())
+  );
+
+  const missing = caughtFugitives
+    .filter(f => !recorded.some(entry => entry.player.toString() === f._id.toString()))
+    .map(f => ({
+      player: f._id,
+      caughtAt: f.updatedAt,
+      location: f.currentLocation
+    }));
+
+  return [...recorded, ...missing];
+}
+
+function notifyPlayer(io, player, event, data) {
+  if (player?.socketId) {
+    io?.to(player.socketId).emit(event, data);
+  }
+}
+
+// A hunter claims a catch: check both players are close enough right now, then
+// ask the fugitive to confirm or dispute it
+async function requestCatch(io, game, hunter, fugitive) {
+  if (game.status !== 'active') {
+    throw new AppError('Game is not active', 400, 'GAME_NOT_ACTIVE');
+  }
+
+  if (hunter.role !== 'hunter') {
+    throw new AppError('Only hunters can catch fugitives', 403, 'INVALID_PLAYER_ROLE');
+  }
+
+  if (hunter.status !== 'active') {
+    throw new AppError('Player is not active', 400, 'PLAYER_NOT_ACTIVE');
+  }
+
+  if (!fugitive || fugitive.role !== 'fugitive' || fugitive.game.toString() !== game._id.toString()) {
+    throw new AppError('Fugitive not found', 404, 'PLAYER_NOT_FOUND');
+  }
+
+  if (fugitive.status !== 'active') {
+    throw new AppError(`${fugitive.name} can't be caught any more`, 400, 'FUGITIVE_NOT_ACTIVE');
+  }
+
+  const catchPending = () =>
+    new AppError(`A catch of ${fugitive.name} is already waiting for confirmation`, 409, 'CATCH_PENDING');
+
+  const pending = await CatchRequest.findOne({ fugitive: fugitive._id, status: 'pending' });
+  if (pending) {
+    throw catchPending();
+  }
+
+  const { catchRadius, catchLocationMaxAge, catchConfirmSeconds } = getCatchSettings(game);
+
+  assertFreshLocation(hunter, catchLocationMaxAge, 'you');
+  assertFreshLocation(fugitive, catchLocationMaxAge, fugitive.name);
+
+  const distance = Math.round(hunter.calculateDistance(
+    hunter.currentLocation.latitude,
+    hunter.currentLocation.longitude,
+    fugitive.currentLocation.latitude,
+    fugitive.currentLocation.longitude
+  ));
+
+  if (distance > catchRadius) {
+    throw new AppError(
+      `${fugitive.name} is ${distance}m away, get within ${catchRadius}m to catch them`,
+      400,
+      'TOO_FAR_TO_CATCH'
+    );
+  }
+
+  let request;
+  try {
+    request = await CatchRequest.create({
+      game: game._id,
+      hunter: hunter._id,
+      fugitive: fugitive._id,
+      hunterLocation: toLocation(hunter),
+      fugitiveLocation: toLocation(fugitive),
+      distance,
+      expiresAt: new Date(Date.now() + catchConfirmSeconds * 1000)
+    });
+  } catch (error) {
+    // Another hunter's request for this fugitive got in first
+    if (error.code === 11000) throw catchPending();
+    throw error;
+  }
+
+  await scheduleCatchExpiry(request);
+
+  const payload = {
+    requestId: request._id,
+    gameId: game._id,
+    hunterId: hunter._id,
+    hunterName: hunter.name,
+    fugitiveId: fugitive._id,
+    fugitiveName: fugitive.name,
+    distance,
+    expiresAt: request.expiresAt
+  };
+
+  notifyPlayer(io, fugitive, 'catch_requested', payload);
+  io?.to(`game_${game._id}_masters`).emit('catch_requested', payload);
+  pushToPlayer(fugitive, {
+    title: '🚨 Were you caught?',
+    body: `${hunter.name} claims to have caught you. Confirm or dispute within ${catchConfirmSeconds} seconds.`,
+    tag: 'catch_request'
+  });
+
+  return request;
+}
+
+// A hunter scanned a fugitive's badge: that is proof enough, the catch is recorded straight away.
+// `game` must be loaded with its task secret.
+async function catchByBadge(io, game, hunter, badge = {}) {
+  if (game.status !== 'active') {
+    throw new AppError('Game is not active', 400, 'GAME_NOT_ACTIVE');
+  }
+
+  if (hunter.role !== 'hunter') {
+    throw new AppError('Only hunters can catch fugitives', 403, 'INVALID_PLAYER_ROLE');
+  }
+
+  if (hunter.status !== 'active') {
+    throw new AppError('Player is not active', 400, 'PLAYER_NOT_ACTIVE');
+  }
+
+  if (badge.type !== BADGE_PAYLOAD_TYPE || badge.gameId !== game._id.toString()) {
+    throw new AppError('This badge is not from this game', 400, 'BADGE_WRONG_GAME');
+  }
+
+  if (!verifyBadge(game, badge.playerId, badge.sig)) {
+    throw new AppError('Invalid or replaced badge', 403, 'INVALID_BADGE');
+  }
+
+  const fugitive = await recordCatch(io, game, badge.playerId, { hunter, method: 'badge' });
+  if (!fugitive) {
+    throw new AppError('This fugitive is already caught or out of the game', 409, 'FUGITIVE_NOT_ACTIVE');
+  }
+
+  return fugitive;
+}
+
+// Record the catch of a confirmed or upheld request and tell everyone involved
+async function announceOutcome(io, request) {
+  const [game, hunter, fugitive] = await Promise.all([
+    Game.findById(request.game),
+    Player.findById(request.hunter),
+    Player.findById(request.fugitive)
+  ]);
+
+  let caught = false;
+  if (['confirmed', 'upheld'].includes(request.status) && game?.status === 'active') {
+    caught = Boolean(await recordCatch(io, game, request.fugitive, {
+      hunter,
+      location: request.fugitiveLocation,
+      method: 'proximity'
+    }));
+  }
+
+  const payload = {
+    requestId: request._id,
+    gameId: request.game,
+    hunterId: request.hunter,
+    hunterName: hunter?.name,
+    fugitiveId: request.fugitive,
+    fugitiveName: fugitive?.name,
+    status: request.status,
+    caught,
+    autoConfirmed: request.autoConfirmed,
+    reason: request.disputeReason
+  };
+
+  notifyPlayer(io, hunter, 'catch_resolved', payload);
+  notifyPlayer(io, fugitive, 'catch_resolved', payload);
+  io?.to(`game_${request.game}_masters`).emit('catch_resolved', payload);
+  if (request.status === 'disputed' && game) {
+    notifyGameMasters(game, {
+      title: '⚖️ Disputed catch',
+      body: `${fugitive?.name} disputes the catch by ${hunter?.name}. You decide.`,
+      tag: `dispute_${request._id}`
+    });
+  }
+
+  return caught;
+}
+
+// Settle a pending catch request: confirmed catches are recorded, disputes go to the game master
+async function resolveCatch(io, request, { confirmed, reason, autoConfirmed = false }) {
+  // Claim the request atomically so a late answer and the expiry check can't both settle it
+  const claimed = await CatchRequest.findOneAndUpdate(
+    { _id: request._id, status: 'pending' },
+    {
+      status: confirmed ? 'confirmed' : 'disputed',
+      respondedAt: new Date(),
+      autoConfirmed,
+      ...(reason && { disputeReason: reason })
+    },
+    { new: true }
+  );
+  if (!claimed) {
+    throw new AppError('This catch has already been settled', 409, 'CATCH_ALREADY_RESOLVED');
+  }
+
+  const caught = await announceOutcome(io, claimed);
+  return { request: claimed, caught };
+}
+
+// The game master's verdict on a disputed catch
+async function decideDispute(io, request, upheld) {
+  const decided = await CatchRequest.findOneAndUpdate(
+    { _id: request._id, status: 'disputed' },
+    { status: upheld ? 'upheld' : 'dismissed' },
+    { new: true }
+  );
+  if (!decided) {
+    throw new AppError('Only disputed catches can be decided', 409, 'CATCH_NOT_DISPUTED');
+  }
+
+  const caught = await announceOutcome(io, decided);
+  return { request: decided, caught };
+}
+
+// Plan the confirmation of a catch request in case the fugitive doesn't answer it
+function scheduleCatchExpiry(request) {
+  return scheduleJob('catch_expiry', { _id: request.game }, request.expiresAt, {
+    key: `catch_expiry:${request._id}`,
+    payload: { requestId: request._id }
+  });
+}
+
+// Job handler: confirm a catch request the fugitive didn't answer in time
+async function runCatchExpiry(io, job) {
+  const request = await CatchRequest.findById(job.payload?.requestId);
+  if (!request || request.status !== 'pending') return;
+
+  try {
+    await resolveCatch(io, request, { confirmed: true, autoConfirmed: true });
+  } catch (error) {
+    // The fugitive answered at the last moment
+    if (error.code !== 'CATCH_ALREADY_RESOLVED') throw error;
+  }
+}
+
+function registerCatchJobHandlers() {
+  registerJobHandler('catch_expiry', runCatchExpiry);
+}
+
+// Catch requests left pending without a planned expiry (made before the job queue handled them)
+// get one at startup; those already overdue are confirmed right away
+async function ensureCatchExpiryJobs() {
+  const pending = await CatchRequest.find({ status: 'pending' });
+
+  for (const request of pending) {
+    await scheduleCatchExpiry(request);
+  }
+}
+
+module.exports = {
+  getCatchSettings,
+  recordCatch,
+  mergeCaughtFugitives,
+  requestCatch,
+  catchByBadge,
+  resolveCatch,
+  decideDispute,
+  registerCatchJobHandlers,
+  ensureCatchExpiryJobs
+};
@@ -0,0 +1,190 @@
+const mongoose = require('mongoose');
+const Player = require('../models/Player');
+const ChatMessage = require('../models/ChatMessage');
+const { AppError } = require('../middleware/errorHandler');
+
+// Messages per page of chat history
+const CHAT_PAGE_SIZE = 30;
+
+const ROLE_CHANNEL_NAMES = {
+  fugitive: 'Fugitives',
+  hunter: 'Hunters',
+  spectator: 'Spectators'
+};
+
+function chatRoom(gameId, channel) {
+  return `chat_${gameId}_${channel}`;
+}
+
+// Teams are per role: a hunter team and a fugitive team of the same name don't share a channel
+function teamChannel(role, team) {
+  return `team:${role}:${team}`;
+}
+
+// The channels a player can read and post in: their role, their team and their thread with the game masters
+function getPlayerChannels(player) {
+  return [
+    { id: `role:${player.role}`, name: ROLE_CHANNEL_NAMES[player.role] || player.role },
+    ...(player.team ? [{ id: teamChannel(player.role, player.team), name: `Team ${player.team}` }] : []),
+    { id: `gm:${player._id}`, name: 'Game master' }
+  ];
+}
+
+// Every channel of a game, for game masters
+async function getGameChannels(game) {
+  const players = await Player.find({ game: game._id }).select('name role team').sort({ createdAt: 1 });
+  const teams = new Map(players
+    .filter(player => player.team)
+    .map(player => [teamChannel(player.role, player.team), player]));
+
+  return [
+    ...Object.entries(ROLE_CHANNEL_NAMES).map(([role, name]) => ({ id: `role:${role}`, name })),
+    ...[...teams].map(([id, { role, team }]) => ({ id, name: `${ROLE_CHANNEL_NAMES[role] || role} · Team ${team}` })),
+    ...players.map(player => ({ id: `gm:${player._id}`, name: `Game master · ${player.name}` }))
+  ];
+}
+
+function canPlayerUseChannel(player, channel) {
+  return getPlayerChannels(player).some(option => option.id === channel);
+}
+
+// Split an id at its first colon: a channel's kind from the rest, or a team channel's role
+// from the team, whose name may contain colons
+function splitChannel(id) {
+  const separator = id.indexOf(':');
+  return separator === -1 ? [id, ''] : [id.slice(0, separator), id.slice(separator + 1)];
+}
+
+// Game masters may use any channel that can exist in the game
+async function assertGameChannel(game, channel) {
+  const [kind, value] = splitChannel(channel);
+  const [role, team] = kind === 'team' ? splitChannel(value) : [];
+
+  const valid = (kind === 'role' && ROLE_CHANNEL_NAMES[value]) ||
+    (kind === 'team' && ROLE_CHANNEL_NAMES[role] && team && await Player.exists({ game: game._id, role, team })) ||
+    (kind === 'gm' && mongoose.isValidObjectId(value) && await Player.exists({ game: game._id, _id: value }));
+
+  if (!valid) {
+    throw new AppError('Unknown chat channel', 400, 'INVALID_CHANNEL');
+  }
+}
+
+// Put a player's socket in the rooms of their chat channels
+function joinChatRooms(socket, gameId, player) {
+  getPlayerChannels(player).forEach(channel => socket.join(chatRoom(gameId, channel.id)));
+}
+
+function leaveChatRooms(socket, gameId) {
+  [...socket.rooms]
+    .filter(room => room.startsWith(`chat_${gameId}_`))
+    .forEach(room => socket.leave(room));
+}
+
+function toChatMessage(message) {
+  return {
+    id: message._id,
+    gameId: message.game,
+    channel: message.channel,
+    message: message.text,
+    sender: {
+      name: message.senderName,
+      role: message.senderRole,
+      playerId: message.senderPlayer || null,
+      userId: message.senderUser || null
+    },
+    timestamp: message.createdAt
+  };
+}
+
+// One page of a channel's history, newest first; pass the oldest message ID seen to get the page before it
+async function getChatHistory(gameId, channel, { before, limit = CHAT_PAGE_SIZE } = {}) {
+  const messages = await ChatMessage.find({
+    game: gameId,
+    channel,
+    deletedAt: { $exists: false },
+    ...(before && { _id: { $lt: before } })
+  })
+    .sort({ _id: -1 })
+    .limit(limit + 1);
+
+  return {
+    messages: messages.slice(0, limit).map(toChatMessage),
+    hasMore: messages.length > limit
+  };
+}
+
+// Post a message as a player or a game master; the sender is whoever the socket authenticated as
+async function sendChatMessage(io, game, { player, user }, channel, text) {
+  if (player) {
+    if (!canPlayerUseChannel(player, channel)) {
+      throw new AppError('You cannot post in this channel', 403, 'CHANNEL_NOT_ALLOWED');
+    }
+    if (player.chatMuted) {
+      throw new AppError('A game master muted you in the chat', 403, 'CHAT_MUTED');
+    }
+  } else {
+    await assertGameChannel(game, channel);
+  }
+
+  const message = await ChatMessage.create({
+    game: game._id,
+    channel,
+    text,
+    senderPlayer: player?._id,
+    senderUser: player ? undefined : user._id,
+    senderName: player ? player.name : (user.name || user.email),
+    senderRole: player ? player.role : 'game_master'
+  });
+
+  const data = toChatMessage(message);
+  io?.to(chatRoom(game._id, channel)).to(`game_${game._id}_masters`).emit('chat_message', data);
+
+  return data;
+}
+
+async function deleteChatMessage(io, game, messageId, user) {
+  const message = await ChatMessage.findOne({ _id: messageId, game: game._id, deletedAt: { $exists: false } });
+  if (!message) {
+    throw new AppError('Chat message not found', 404, 'CHAT_MESSAGE_NOT_FOUND');
+  }
+
+  message.deletedAt = new Date();
+  message.deletedBy = user._id;
+  await message.save();
+
+  io?.to(chatRoom(game._id, message.channel)).to(`game_${game._id}_masters`).emit('chat_message_deleted', {
+    gameId: game._id,
+    channel: message.channel,
+    messageId: message._id
+  });
+
+  return message;
+}
+
+async function setChatMuted(io, game, playerId, muted) {
+  const player = await Player.findOne({ _id: playerId, game: game._id });
+  if (!player) {
+    throw new AppError('Player not found', 404, 'PLAYER_NOT_FOUND');
+  }
+
+  player.chatMuted = muted;
+  await player.save();
+
+  if (player.socketId) {
+    io?.to(player.socketId).emit('chat_muted', { gameId: game._id, muted });
+  }
+
+  return player;
+}
+
+module.exports = {
+  getPlayerChannels,
+  getGameChannels,
+  canPlayerUseChannel,
+  joinChatRooms,
+  leaveChatRooms,
+  getChatHistory,
+  sendChatMessage,
+  deleteChatMessage,
+  setChatMuted
+};
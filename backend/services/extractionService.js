@@ -0,0 +1,134 @@
+const Player = require('../models/Player');
+const { AppError } = require('../middleware/errorHandler');
+const { notifyPlayer } = require('./notificationService');
+
+// Fugitives who escape through the same extraction point: a team when the game shares them by team
+function getTeamQuery(game, player) {
+  return game.settings?.shareExtractionByTeam && player.team
+    ? { game: game._id, role: 'fugitive', team: player.team }
+    : { _id: player._id };
+}
+
+// Draw one of the extraction points fugitives can be sent to; undefined is the main one
+function drawExtractionPoint(game) {
+  const points = [undefined, ...game.extractionPoints.filter(point => !point.decoy).map(point => point._id)];
+  return points[Math.floor(Math.random() * points.length)];
+}
+
+// Give every fugitive their extraction point when the game starts, unless the game master picks them
+async function assignExtractionPoints(game) {
+  if (game.settings?.extractionAssignment === 'game_master') return;
+
+  const fugitives = await Player.find({ game: game._id, role: 'fugitive' });
+  const drawn = new Map();
+
+  for (const fugitive of fugitives) {
+    const key = game.settings?.shareExtractionByTeam && fugitive.team
+      ? `team:${fugitive.team}`
+      : `player:${fugitive._id}`;
+    if (!drawn.has(key)) {
+      drawn.set(key, drawExtractionPoint(game));
+    }
+
+    fugitive.extractionPoint = drawn.get(key);
+    await fugitive.save();
+  }
+}
+
+// A fugitive joining a game that already started gets an extraction point too, their team's
+// if it has one. The caller saves the player.
+async function assignExtractionPoint(game, player) {
+  if (!game.startTime || player.role !== 'fugitive' || game.settings?.extractionAssignment === 'game_master') return;
+
+  if (game.settings?.shareExtractionByTeam && player.team) {
+    const teammate = await Player.findOne({ game: game._id, role: 'fugitive', team: player.team });
+    if (teammate) {
+      player.extractionPoint = teammate.extractionPoint;
+      return;
+    }
+  }
+
+  player.extractionPoint = drawExtractionPoint(game);
+}
+
+// Tell a fugitive heading out what changed about their extraction point. `event` is
+// extraction_point_changed, extraction_opened or extraction_closed.
+function announceExtractionPoint(io, game, fugitive, point, event, message) {
+  if (fugitive.socketId) {
+    io?.to(fugitive.socketId).emit(event, {
+      gameId: game._id,
+      extractionPoint: point,
+      ...game.getExtractionWindow(point),
+      message
+    });
+  }
+  notifyPlayer(fugitive, {
+    title: '🚁 Extraction',
+    body: point.address ? `${message} ${point.address}` : message,
+    tag: 'extraction'
+  });
+}
+
+// The game master sends a fugitive, and their team when the game shares extraction points by
+// team, to one of the game's extraction points (null for the main one). Returns the fugitives moved.
+async function setExtractionPoint(io, game, player, extractionPointId) {
+  if (player.role !== 'fugitive') {
+    throw new AppError('Only fugitives have an extraction point', 400, 'INVALID_PLAYER_ROLE');
+  }
+
+  const point = extractionPointId ? game.extractionPoints.id(extractionPointId) : game.extractionPoint;
+  if (!point) {
+    throw new AppError('Extraction point not found', 404, 'EXTRACTION_POINT_NOT_FOUND');
+  }
+  if (point.decoy) {
+    throw new AppError('Fugitives cannot escape through a decoy', 400, 'EXTRACTION_POINT_DECOY');
+  }
+
+  const fugitives = await Player.find(getTeamQuery(game, player));
+  for (const fugitive of fugitives) {
+    fugitive.extractionPoint = extractionPointId || undefined;
+    await fugitive.save();
+
+    // Fugitives already heading out learn about the change right away
+    if (game.hasCompletedAllTasks(fugitive)) {
+      announceExtractionPoint(io, game, fugitive, point, 'extraction_point_changed', 'Your extraction point has changed!');
+    }
+  }
+
+  return fugitives;
+}
+
+// The game master removes an extraction point or decoy: fugitives sent there go back to the
+// main extraction point, and those already heading out are told. Returns the fugitives moved.
+async function removeExtractionPoint(io, game, extractionPointId) {
+  const point = game.extractionPoints.id(extractionPointId);
+  if (!point) {
+    throw new AppError('Extraction point not found', 404, 'EXTRACTION_POINT_NOT_FOUND');
+  }
+
+  game.extractionPoints.pull(point._id);
+  await game.save();
+
+  const fugitives = await Player.find({ game: game._id, extractionPoint: point._id });
+  await Player.updateMany(
+    { game: game._id, extractionPoint: point._id },
+    { $unset: { extractionPoint: 1 } }
+  );
+
+  for (const fugitive of fugitives) {
+    fugitive.extractionPoint = undefined;
+    if (game.hasCompletedAllTasks(fugitive)) {
+      announceExtractionPoint(io, game, fugitive, game.extractionPoint, 'extraction_point_changed', 'Your extraction point has changed!');
+    }
+  }
+
+  return fugitives;
+}
+
+module.exports = {
+  assignExtractionPoints,
+  assignExtractionPoint,
+  announceExtractionPoint,
+  setExtractionPoint,
+  removeExtractionPoint
+};
@@ -0,0 +1,34 @@
+const Game = require('../models/Game');
+
+// How often running games push their clock to correct drifting client timers
+const CLOCK_BROADCAST_INTERVAL = 30000;
+
+// Push the authoritative clock to everyone in the game
+function emitClock(io, game) {
+  io?.to(`game_${game._id}`).emit('clock', game.getClock());
+}
+
+// Push the clock of every running game; the game itself is ended by its scheduled game_end job
+async function broadcastClocks(io) {
+  try {
+    const now = new Date();
+    const activeGames = await Game.find({ status: 'active', startTime: { $exists: true } })
+      .select('status startTime endTime duration pausedAt pausedDuration settings');
+
+    for (const game of activeGames) {
+      io?.to(`game_${game._id}`).emit('clock', game.getClock(now));
+    }
+  } catch (error) {
+    console.error('❌ Error broadcasting game clocks:', error);
+  }
+}
+
+// Start the periodic clock broadcast
+function startClockScheduler(io) {
+  return setInterval(() => broadcastClocks(io), CLOCK_BROADCAST_INTERVAL);
+}
+
+module.exports = {
+  emitClock,
+  startClockScheduler
+};
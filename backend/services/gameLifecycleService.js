@@ -0,0 +1,428 @@
+const Game = require('../models/Game');
+const Player = require('../models/Player');
+const ScheduledJob = require('../models/ScheduledJob');
+const { AppError } = require('../middleware/errorHandler');
+const { registerJobHandler, scheduleJob, cancelJobs } = require('./jobQueueService');
+const { scheduleNextReveal, pauseReveals, resumeReveals, stopReveals, revealFugitives } = require('./revealService');
+const { summarizeHintUsage } = require('./hintService');
+const { mergeCaughtFugitives } = require('./catchService');
+const { emitClock } = require('./gameClockService');
+const { notifyGame, notifyGameMasters } = require('./notificationService');
+const { assignTaskRoutes } = require('./taskRouteService');
+const { assignExtractionPoints, announceExtractionPoint } = require('./extractionService');
+
+// Jobs that follow the clock of a running game; they are dropped on pause and planned again on resume
+const EXTRACTION_POINT_JOBS = ['extraction_point_open', 'extraction_point_close'];
+const RUNNING_GAME_JOBS = ['timer_warning', 'location_reveal', 'extraction_open', ...EXTRACTION_POINT_JOBS, 'game_end'];
+
+// Plan the opening and closing of every extraction point with a window of its own, e.g.
+// again after the game master added or removed one
+async function scheduleExtractionPointJobs(game, now = new Date()) {
+  await cancelJobs(game, EXTRACTION_POINT_JOBS);
+
+  for (const point of game.extractionPoints.filter(point => !point.decoy)) {
+    const { opensAt, closesAt } = game.getExtractionWindow(point, now);
+
+    if (point.opensAfterMinutes != null && opensAt > now) {
+      await scheduleJob('extraction_point_open', game, opensAt, {
+        key: `extraction_point_open:${game._id}:${point._id}`,
+        payload: { pointId: point._id }
+      });
+    }
+    if (closesAt && closesAt > now) {
+      await scheduleJob('extraction_point_close', game, closesAt, {
+        key: `extraction_point_close:${game._id}:${point._id}`,
+        payload: { pointId: point._id }
+      });
+    }
+  }
+}
+
+// Plan the jobs of a running game from its clock
+async function scheduleGameJobs(game, now = new Date()) {
+  await cancelJobs(game, RUNNING_GAME_JOBS);
+
+  const endTime = game.getEndTime(now);
+  await scheduleJob('game_end', game, endTime);
+
+  for (const minutes of game.getTimerWarnings()) {
+    const warnAt = new Date(endTime.getTime() - minutes * 60 * 1000);
+    if (warnAt > now) {
+      await scheduleJob('timer_warning', game, warnAt, {
+        key: `timer_warning:${game._id}:${minutes}`,
+        payload: { minutes }
+      });
+    }
+  }
+
+  const opensAt = game.getExtractionOpensAt(now);
+  if (opensAt && opensAt > now) {
+    await scheduleJob('extraction_open', game, opensAt);
+  }
+  await scheduleExtractionPointJobs(game, now);
+
+  if (game.revealSchedule.nextRevealAt) {
+    await scheduleJob('location_reveal', game, game.revealSchedule.nextRevealAt);
+  }
+}
+
+// Plan the automatic start of a game that isn't running yet, or drop it when no start is set
+async function scheduleGameStart(game) {
+  if (game.scheduledStartTime && ['setup', 'waiting'].includes(game.status)) {
+    await scheduleJob('game_start', game, game.scheduledStartTime);
+  } else {
+    await cancelJobs(game, ['game_start']);
+  }
+}
+
+// Start a game now: the same checks whether a game master starts it or its start was scheduled
+async function startGame(io, game) {
+  if (game.status !== 'setup' && game.status !== 'waiting') {
+    throw new AppError('Game cannot be started', 400, 'INVALID_GAME_STATUS');
+  }
+
+  if (game.tasks.length !== game.getTaskCount()) {
+    throw new AppError(`Game must have exactly ${game.getTaskCount()} tasks`, 400, 'INCOMPLETE_TASKS');
+  }
+
+  // Check if there are players
+  const playerCount = await Player.countDocuments({ game: game._id });
+  if (playerCount === 0) {
+    throw new AppError('Game must have at least one player', 400, 'NO_PLAYERS');
+  }
+
+  game.status = 'active';
+  game.startClock();
+  scheduleNextReveal(game, game.startTime);
+
+  await game.save();
+  await cancelJobs(game, ['game_start']);
+  await scheduleGameJobs(game, game.startTime);
+
+  // Update all players to active status
+  await Player.updateMany(
+    { game: game._id, status: 'waiting' },
+    { status: 'active' }
+  );
+  await assignTaskRoutes(game);
+  await assignExtractionPoints(game);
+
+  io?.to(`game_${game._id}`).emit('game_started', {
+    gameId: game._id,
+    startTime: game.startTime,
+    endTime: game.endTime,
+    message: 'Game has started!'
+  });
+  emitClock(io, game);
+  notifyGame(game, { title: '🚦 The game has started!', body: game.name, tag: 'game_status' });
+
+  return game;
+}
+
+// Stop the clock and everything scheduled on it
+async function pauseGame(io, game) {
+  game.status = 'paused';
+  game.pauseClock();
+  pauseReveals(game, game.pausedAt);
+
+  await game.save();
+  await cancelJobs(game, RUNNING_GAME_JOBS);
+
+  // Update all players to paused status
+  await Player.updateMany(
+    { game: game._id, status: 'active' },
+    { status: 'paused' }
+  );
+
+  io?.to(`game_${game._id}`).emit('game_paused', {
+    gameId: game._id,
+    pausedAt: game.pausedAt,
+    message: 'Game has been paused'
+  });
+  emitClock(io, game);
+
+  return game;
+}
+
+// Restart the clock and plan its jobs again, pushed back by the pause
+async function resumeGame(io, game) {
+  game.status = 'active';
+  game.resumeClock();
+  resumeReveals(game, game.resumedAt);
+
+  await game.save();
+  await scheduleGameJobs(game, game.resumedAt);
+
+  // Update all players to active status
+  await Player.updateMany(
+    { game: game._id, status: 'paused' },
+    { status: 'active' }
+  );
+
+  io?.to(`game_${game._id}`).emit('game_resumed', {
+    gameId: game._id,
+    resumedAt: game.resumedAt,
+    message: 'Game has been resumed'
+  });
+  emitClock(io, game);
+
+  return game;
+}
+
+// Drop everything still scheduled for a game that ended. Unanswered catches still settle,
+// so nobody is left waiting on them.
+function stopGameJobs(game) {
+  return cancelJobs(game, ['game_start', ...RUNNING_GAME_JOBS]);
+}
+
+// What players are told when a game ends, by why it ended
+const GAME_END_ANNOUNCEMENTS = {
+  time_expired: { message: 'Time is up! The game has ended.', title: '⏰ Time is up!', body: name => `${name} has ended.` },
+  manual: { message: 'Game has been ended by game master', title: '🏁 The game has ended', body: name => `${name} was ended by the game master.` }
+};
+
+// End a game, whether a game master ends it or its time runs out: record the results,
+// drop its jobs and tell everyone. Fugitives still free when time runs out win.
+async function endGame(io, game, { reason = 'manual' } = {}) {
+  if (game.status === 'completed' || game.status === 'cancelled') {
+    throw new AppError('Game is already completed or cancelled', 400, 'INVALID_GAME_STATUS');
+  }
+
+  game.status = 'completed';
+  game.results.gameEndReason = reason;
+  stopReveals(game);
+
+  // Calculate results
+  const fugitives = await Player.find({ game: game._id, role: 'fugitive' });
+  const escapedFugitives = fugitives.filter(f => f.status === 'escaped');
+  const caughtFugitives = fugitives.filter(f => f.status === 'caught');
+
+  game.results.fugitivesEscaped = escapedFugitives.map(f => f._id);
+  game.results.fugitivesCaught = mergeCaughtFugitives(game, caughtFugitives);
+  game.results.hintUsage = summarizeHintUsage(fugitives);
+
+  // Determine winner
+  if (escapedFugitives.length > 0) {
+    game.results.winner = 'fugitives';
+  } else if (caughtFugitives.length === fugitives.length) {
+    game.results.winner = 'hunters';
+  } else {
+    game.results.winner = reason === 'time_expired' ? 'fugitives' : 'none';
+  }
+
+  await game.save();
+  await stopGameJobs(game);
+
+  // Update all players to completed status
+  await Player.updateMany(
+    { game: game._id },
+    { status: 'completed' }
+  );
+
+  const announcement = GAME_END_ANNOUNCEMENTS[reason] || GAME_END_ANNOUNCEMENTS.manual;
+  io?.to(`game_${game._id}`).emit('game_ended', {
+    gameId: game._id,
+    reason,
+    winner: game.results.winner,
+    message: announcement.message
+  });
+  notifyGame(game, { title: announcement.title, body: announcement.body(game.name), tag: 'game_status' });
+  notifyGameMasters(game, {
+    title: announcement.title,
+    body: `${game.name} has ended, winner: ${game.results.winner}.`,
+    tag: 'game_status'
+  });
+
+  return game;
+}
+
+// Job handlers. Each one checks the game is still in the state the job was planned for,
+// since jobs replayed after a restart may be long overdue.
+
+async function runScheduledStart(io, job) {
+  const game = await Game.findById(job.game);
+  if (!game || !game.isActive || !['setup', 'waiting'].includes(game.status)) return;
+
+  try {
+    await startGame(io, game);
+    console.log(`🚦 Game ${game.name} (${game.gameCode}) started on schedule`);
+  } catch (error) {
+    if (!(error instanceof AppError)) throw error;
+
+    // The game isn't ready: retrying won't help, the game master has to step in
+    console.warn(`⚠️ Scheduled start of game ${game.gameCode} failed: ${error.message}`);
+    io?.to(`game_${game._id}_masters`).emit('game_start_failed', {
+      gameId: game._id,
+      code: error.code,
+      message: `Scheduled start failed: ${error.message}`
+    });
+  }
+}
+
+async function runGameEnd(io, job) {
+  const game = await Game.findById(job.game);
+  if (!game || game.status !== 'active') return;
+
+  if (game.isExpired()) {
+    await endGame(io, game, { reason: 'time_expired' });
+    console.log(`⏰ Game ${game.name} (${game.gameCode}) ended, time is up. Winner: ${game.results.winner}`);
+  } else {
+    // The clock moved since the job was planned
+    await scheduleJob('game_end', game, game.getEndTime());
+  }
+}
+
+// What each role is told when time is running out
+function getTimerWarningMessages(game, minutes) {
+  const timeLeft = `${minutes} minute${minutes === 1 ? '' : 's'} left`;
+  // Fugitives may each have their own extraction point when there are several
+  const address = game.extractionPoints.length === 0 ? game.extractionPoint?.address : null;
+
+  return {
+    fugitive: `${timeLeft}! Get to the extraction point${address ? ` (${address})` : ''} before time runs out.`,
+    hunter: `${timeLeft}! Close in on the fugitives before they escape.`,
+    spectator: `${timeLeft} in the game.`
+  };
+}
+
+async function runTimerWarning(io, job) {
+  const game = await Game.findById(job.game);
+  if (!game || game.status !== 'active' || game.isExpired()) return;
+
+  const minutes = job.payload?.minutes;
+  const remainingSeconds = Math.ceil(game.getRemainingMs() / 1000);
+  const messages = getTimerWarningMessages(game, minutes);
+  const timestamp = new Date();
+
+  // Keep the warning in the game's message history, before players fetch their inbox
+  const recipients = await Player.countDocuments({ game: game._id });
+  await Game.updateOne(
+    { _id: game._id },
+    {
+      $push: {
+        messages: {
+          type: 'timer_warning',
+          text: messages.spectator,
+          sender: 'System',
+          timestamp,
+          recipients
+        }
+      }
+    }
+  );
+
+  for (const [role, message] of Object.entries(messages)) {
+    io?.to(`game_${game._id}_${role}s`).emit('timer_warning', {
+      gameId: game._id,
+      minutesLeft: minutes,
+      remainingSeconds,
+      role,
+      message,
+      timestamp
+    });
+    notifyGame(game, { title: `⏰ ${minutes} min left`, body: message, tag: 'timer_warning' }, [role]);
+  }
+  io?.to(`game_${game._id}_masters`).emit('timer_warning', {
+    gameId: game._id,
+    minutesLeft: minutes,
+    remainingSeconds,
+    role: 'game_master',
+    message: messages.spectator,
+    timestamp
+  });
+}
+
+async function runExtractionOpen(io, job) {
+  const game = await Game.findById(job.game);
+  if (!game || game.status !== 'active' || !game.isExtractionOpen()) return;
+
+  // With several extraction points, which one is whose is only told to each fugitive
+  io?.to(`game_${game._id}`).emit('extraction_opened', {
+    gameId: game._id,
+    ...(game.extractionPoints.length === 0 && { extractionPoint: game.extractionPoint }),
+    message: 'The extraction point is open!'
+  });
+}
+
+// Tell the fugitives heading out through an extraction point that it opened or closed
+async function runExtractionPointWindow(io, job, opened) {
+  const game = await Game.findById(job.game);
+  if (!game || game.status !== 'active') return;
+
+  // Removed since, or not open yet because the game's extraction opens later
+  const point = game.extractionPoints.id(job.payload?.pointId);
+  if (!point || point.decoy || game.isExtractionPointOpen(point) !== opened) return;
+
+  const fugitives = await Player.find({ game: game._id, role: 'fugitive', status: 'active', extractionPoint: point._id });
+  for (const fugitive of fugitives.filter(fugitive => game.hasCompletedAllTasks(fugitive))) {
+    announceExtractionPoint(
+      io,
+      game,
+      fugitive,
+      point,
+      opened ? 'extraction_opened' : 'extraction_closed',
+      opened ? 'Your extraction point is open!' : 'Your extraction point has closed!'
+    );
+  }
+}
+
+async function runLocationReveal(io, job) {
+  const game = await Game.findById(job.game);
+  if (!game || game.status !== 'active') return;
+
+  const now = new Date();
+  const { nextRevealAt } = game.revealSchedule;
+  if (nextRevealAt && nextRevealAt > now) {
+    // Moved since the job was planned
+    await scheduleJob('location_reveal', game, nextRevealAt);
+    return;
+  }
+
+  scheduleNextReveal(game, now);
+  await game.save();
+
+  const locations = await revealFugitives(io, game, 'automatic');
+  console.log(`📡 Revealed ${locations.length} fugitive(s) in game ${game.name} (${game.gameCode})`);
+
+  await scheduleJob('location_reveal', game, game.revealSchedule.nextRevealAt);
+}
+
+function registerGameJobHandlers() {
+  registerJobHandler('game_start', runScheduledStart);
+  registerJobHandler('game_end', runGameEnd);
+  registerJobHandler('timer_warning', runTimerWarning);
+  registerJobHandler('extraction_open', runExtractionOpen);
+  registerJobHandler('extraction_point_open', (io, job) => runExtractionPointWindow(io, job, true));
+  registerJobHandler('extraction_point_close', (io, job) => runExtractionPointWindow(io, job, false));
+  registerJobHandler('location_reveal', runLocationReveal);
+}
+
+// Running games without a planned end (started before the job queue, or whose jobs were lost)
+// get their jobs planned at startup
+async function ensureRunningGameJobs() {
+  const games = await Game.find({ status: 'active', isActive: true, startTime: { $exists: true } });
+
+  for (const game of games) {
+    const planned = await ScheduledJob.exists({ game: game._id, type: 'game_end', status: { $in: ['pending', 'running'] } });
+    if (planned) continue;
+
+    if (!game.revealSchedule.nextRevealAt) {
+      scheduleNextReveal(game);
+      await game.save();
+    }
+    await scheduleGameJobs(game);
+  }
+}
+
+module.exports = {
+  scheduleGameJobs,
+  scheduleExtractionPointJobs,
+  scheduleGameStart,
+  startGame,
+  pauseGame,
+  resumeGame,
+  endGame,
+  stopGameJobs,
+  registerGameJobHandlers,
+  ensureRunningGameJobs
+};
@@ -0,0 +1,130 @@
+const Player = require('../models/Player');
+const { AppError } = require('../middleware/errorHandler');
+const { revealFugitives } = require('./revealService');
+
+const HINT_COSTS = ['none', 'reveal', 'time', 'score'];
+
+// Most hints a task can carry
+const MAX_HINTS_PER_TASK = 5;
+
+// A task's hints in the order they are given; older games stored a single hint
+function getTaskHints(task) {
+  if (task.hints?.length) return [...task.hints];
+  return task.hint ? [task.hint] : [];
+}
+
+// What the game charges for a hint, as told to the player before calling
+function getHintCost(game) {
+  const { hintCost = 'reveal', hintPenaltyMinutes = 5, hintScorePenalty = 10 } = game.settings || {};
+
+  return {
+    type: hintCost,
+    ...(hintCost === 'time' && { minutes: hintPenaltyMinutes }),
+    ...(hintCost === 'score' && { points: hintScorePenalty })
+  };
+}
+
+// Hints of a task the player already called for
+function getUsedHints(player, task) {
+  const hints = getTaskHints(task);
+  return hints.slice(0, player.getHintsUsed(task.taskNumber));
+}
+
+// Give the player the next hint for a task and charge the game's hint cost.
+// The player's location must be current when the cost is a reveal.
+async function useNextHint(io, game, player, task) {
+  const hints = getTaskHints(task);
+  if (!hints.length) {
+    throw new AppError('No hint available for the current task', 400, 'NO_HINT_AVAILABLE');
+  }
+
+  const hintNumber = player.getHintsUsed(task.taskNumber) + 1;
+  if (hintNumber > hints.length) {
+    throw new AppError('All hints for this task have been used', 400, 'NO_MORE_HINTS');
+  }
+
+  const cost = getHintCost(game);
+
+  if (cost.type === 'reveal' &&
+      (player.currentLocation?.latitude == null || player.currentLocation?.longitude == null)) {
+    throw new AppError('Your location is needed to call for a hint', 400, 'LOCATION_REQUIRED');
+  }
+
+  const usedAt = new Date();
+  const hintUse = {
+    taskNumber: task.taskNumber,
+    hintNumber,
+    cost: cost.type,
+    usedAt,
+    location: player.currentLocation?.latitude != null ? {
+      latitude: player.currentLocation.latitude,
+      longitude: player.currentLocation.longitude
+    } : undefined
+  };
+
+  // Atomic update so a concurrent location save doesn't drop the hint or its penalty. Only
+  // applies while this hint is still unused, so two calls at once can't both be charged for it.
+  const { modifiedCount } = await Player.updateOne(
+    {
+      _id: player._id,
+      hintsUsed: { $not: { $elemMatch: { taskNumber: task.taskNumber, hintNumber } } }
+    },
+    {
+      $push: { hintsUsed: hintUse },
+      $inc: {
+        timePenaltyMinutes: cost.minutes || 0,
+        scorePenalty: cost.points || 0
+      }
+    }
+  );
+  if (modifiedCount === 0) {
+    throw new AppError('This hint was just given, call again for the next one', 409, 'HINT_ALREADY_USED');
+  }
+
+  player.hintsUsed.push(hintUse);
+  player.timePenaltyMinutes = (player.timePenaltyMinutes || 0) + (cost.minutes || 0);
+  player.scorePenalty = (player.scorePenalty || 0) + (cost.points || 0);
+
+  if (cost.type === 'reveal') {
+    await revealFugitives(io, game, 'phone_call', [player]);
+  }
+
+  io?.to(`game_${game._id}_masters`).emit('hint_used', {
+    gameId: game._id,
+    playerId: player._id,
+    playerName: player.name,
+    taskNumber: task.taskNumber,
+    hintNumber,
+    cost,
+    usedAt
+  });
+
+  return {
+    hint: hints[hintNumber - 1],
+    hintNumber,
+    totalHints: hints.length,
+    taskNumber: task.taskNumber,
+    cost,
+    revealed: cost.type === 'reveal'
+  };
+}
+
+// Per-fugitive hint usage for the end-of-game results
+function summarizeHintUsage(fugitives) {
+  return fugitives.map(fugitive => ({
+    player: fugitive._id,
+    hintsUsed: fugitive.hintsUsed?.length || 0,
+    timePenaltyMinutes: fugitive.timePenaltyMinutes || 0,
+    scorePenalty: fugitive.scorePenalty || 0
+  }));
+}
+
+module.exports = {
+  HINT_COSTS,
+  MAX_HINTS_PER_TASK,
+  getTaskHints,
+  getHintCost,
+  getUsedHints,
+  useNextHint,
+  summarizeHintUsage
+};
@@ -0,0 +1,152 @@
+const os = require('os');
+const crypto = require('crypto');
+const ScheduledJob = require('../models/ScheduledJob');
+
+// How often the worker looks for jobs that have come due
+const JOB_CHECK_INTERVAL = 5000;
+
+// How long a claimed job stays locked to this instance
+const JOB_LOCK_MS = 60000;
+
+// Failed jobs are retried this many times, a little later each time
+const MAX_JOB_ATTEMPTS = 3;
+const JOB_RETRY_DELAY_MS = 30000;
+
+// Identifies this server instance in job locks
+const WORKER_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+// Job handlers by job type
+const handlers = new Map();
+
+function registerJobHandler(type, handler) {
+  handlers.set(type, handler);
+}
+
+// Schedule a job, or move it if one with the same key is still pending
+async function scheduleJob(type, game, runAt, { key = `${type}:${game._id}`, payload } = {}) {
+  const update = {
+    $set: { runAt, payload },
+    $setOnInsert: { type, game: game._id, attempts: 0 }
+  };
+
+  try {
+    return await ScheduledJob.findOneAndUpdate({ key, status: 'pending' }, update, { upsert: true, new: true });
+  } catch (error) {
+    // Another instance inserted the same job at the same moment: update that one
+    if (error.code !== 11000) throw error;
+    return ScheduledJob.findOneAndUpdate({ key, status: 'pending' }, update, { new: true });
+  }
+}
+
+// Cancel a game's pending jobs, optionally only those of the given types
+async function cancelJobs(game, types = null) {
+  const result = await ScheduledJob.updateMany(
+    { game: game._id, status: 'pending', ...(types && { type: { $in: types } }) },
+    { status: 'cancelled', finishedAt: new Date() }
+  );
+  return result.modifiedCount;
+}
+
+// Claim the oldest due job atomically, so every job runs on one instance only.
+// Jobs left running by a crashed instance are claimed again once their lock expires,
+// as long as they have attempts left.
+function claimNextJob(now = new Date()) {
+  return ScheduledJob.findOneAndUpdate(
+    {
+      $or: [
+        { status: 'pending', runAt: { $lte: now } },
+        { status: 'running', lockedUntil: { $lte: now }, attempts: { $lt: MAX_JOB_ATTEMPTS } }
+      ]
+    },
+    {
+      status: 'running',
+      lockedBy: WORKER_ID,
+      lockedUntil: new Date(now.getTime() + JOB_LOCK_MS),
+      $inc: { attempts: 1 }
+    },
+    { sort: { runAt: 1 }, new: true }
+  );
+}
+
+// Give up on jobs whose every attempt crashed or hung the instance running it
+function failAbandonedJobs(now = new Date()) {
+  return ScheduledJob.updateMany(
+    { status: 'running', lockedUntil: { $lte: now }, attempts: { $gte: MAX_JOB_ATTEMPTS } },
+    {
+      status: 'failed',
+      lastError: 'Lock expired on the last attempt',
+      finishedAt: now,
+      $unset: { lockedBy: 1, lockedUntil: 1 }
+    }
+  );
+}
+
+async function runJob(io, job) {
+  const handler = handlers.get(job.type);
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler for job type ${job.type}`);
+    }
+
+    await handler(io, job);
+    await ScheduledJob.updateOne(
+      { _id: job._id, lockedBy: WORKER_ID },
+      { status: 'done', finishedAt: new Date(), $unset: { lockedBy: 1, lockedUntil: 1 } }
+    );
+  } catch (error) {
+    console.error(`❌ Job ${job.type} (${job._id}) failed, attempt ${job.attempts}:`, error);
+
+    const retry = job.attempts < MAX_JOB_ATTEMPTS;
+    await ScheduledJob.updateOne(
+      { _id: job._id, lockedBy: WORKER_ID },
+      {
+        status: retry ? 'pending' : 'failed',
+        lastError: error.message,
+        ...(retry
+          ? { runAt: new Date(Date.now() + JOB_RETRY_DELAY_MS * job.attempts) }
+          : { finishedAt: new Date() }),
+        $unset: { lockedBy: 1, lockedUntil: 1 }
+      }
+    ).catch(updateError => console.error(`❌ Could not record failure of job ${job._id}:`, updateError));
+  }
+}
+
+// Run every job that has come due, oldest first
+async function runDueJobs(io) {
+  try {
+    await failAbandonedJobs();
+
+    let job;
+    while ((job = await claimNextJob())) {
+      await runJob(io, job);
+    }
+  } catch (error) {
+    console.error('❌ Error running scheduled jobs:', error);
+  }
+}
+
+// Start the job worker. Jobs that came due while no server was running are replayed right away.
+function startJobWorker(io) {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return; // A long run of jobs must not overlap the next check
+    running = true;
+    try {
+      await runDueJobs(io);
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  return setInterval(tick, JOB_CHECK_INTERVAL);
+}
+
+module.exports = {
+  registerJobHandler,
+  scheduleJob,
+  cancelJobs,
+  startJobWorker
+};
@@ -0,0 +1,54 @@
+const { checkRevealZones } = require('./revealService');
+
+// Record a location a player sent and apply what being there means: reveal zones and
+// escaping through the extraction point. `recordedAt` is when the phone took the fix,
+// which is in the past for points queued while offline.
+async function applyLocationUpdate(io, player, { latitude, longitude, accuracy, trigger = 'manual', recordedAt = new Date() }) {
+  const game = player.game;
+  const lastUpdated = player.currentLocation?.lastUpdated;
+  const isLatest = !lastUpdated || recordedAt >= lastUpdated;
+
+  await player.updateLocation(latitude, longitude, accuracy, trigger, recordedAt);
+
+  // A point older than the current location is history: the player has moved on since
+  if (!isLatest) {
+    return { latest: false };
+  }
+
+  // Reveal fugitives walking past a surveillance camera or ATM
+  await checkRevealZones(io, player, game);
+
+  // Check if fugitive reached their own extraction point; decoys and other fugitives' points don't count
+  const extractionPoint = player.role === 'fugitive' && game.getExtractionPointForPlayer(player);
+  if (extractionPoint) {
+    const isNearExtraction = player.isNearLocation(
+      extractionPoint.latitude,
+      extractionPoint.longitude,
+      extractionPoint.radius || 50
+    );
+
+    // Time penalties for wrong answers close the extraction point early for this fugitive
+    const deadline = game.getDeadlineForPlayer(player);
+    const isOpenAt = time => (!deadline || time < deadline) && game.isExtractionPointOpen(extractionPoint, time);
+
+    // A fix recorded offline only counts if it also reaches the server while the way out is
+    // open: the phone's clock alone can't decide an escape after the extraction point closed
+    if (isNearExtraction && isOpenAt(recordedAt) && isOpenAt(new Date()) && game.hasCompletedAllTasks(player)) {
+      player.status = 'escaped';
+      await player.save();
+
+      // Emit socket event for real-time updates
+      io?.to(`game_${game._id}`).emit('player_escaped', {
+        playerId: player._id,
+        playerName: player.name,
+        location: player.currentLocation
+      });
+    }
+  }
+
+  return { latest: true };
+}
+
+module.exports = {
+  applyLocationUpdate
+};
@@ -0,0 +1,165 @@
+const Game = require('../models/Game');
+const Player = require('../models/Player');
+const { AppError } = require('../middleware/errorHandler');
+const { notifyPlayers, getGameUrl } = require('./notificationService');
+
+// Query for the players of a game a message is addressed to
+function getAudienceFilter(game, audience = {}) {
+  const filter = { game: game._id };
+
+  switch (audience.scope) {
+    case 'role':
+      filter.role = audience.role;
+      break;
+    case 'team':
+      filter.team = audience.team;
+      break;
+    case 'player':
+      filter._id = audience.player;
+      break;
+    default:
+      break;
+  }
+
+  return filter;
+}
+
+function isMessageFor(message, player) {
+  const { scope = 'all', role, team, player: target } = message.audience || {};
+
+  switch (scope) {
+    case 'role':
+      return player.role === role;
+    case 'team':
+      return Boolean(team) && player.team === team;
+    case 'player':
+      return target?.toString() === player._id.toString();
+    default:
+      return true;
+  }
+}
+
+function isReadBy(message, player) {
+  return (message.readBy || []).some(entry => entry.player?.toString() === player._id.toString());
+}
+
+// A message as a player sees it: no audience details, only whether they read it
+function toPlayerMessage(message, read) {
+  return {
+    id: message._id,
+    type: message.type || 'broadcast',
+    text: message.text,
+    sender: message.sender,
+    timestamp: message.timestamp,
+    read
+  };
+}
+
+// A message as the game master sees it, with its read receipts
+function toMasterMessage(message) {
+  return {
+    id: message._id,
+    type: message.type || 'broadcast',
+    text: message.text,
+    sender: message.sender,
+    timestamp: message.timestamp,
+    audience: message.audience || { scope: 'all' },
+    recipients: message.recipients,
+    readBy: (message.readBy || []).map(entry => ({ player: entry.player, readAt: entry.readAt }))
+  };
+}
+
+// A player's inbox, newest first
+function getPlayerMessages(game, player) {
+  const messages = (game.messages || [])
+    .filter(message => isMessageFor(message, player))
+    .map(message => toPlayerMessage(message, isReadBy(message, player)))
+    .reverse();
+
+  return {
+    messages,
+    unreadCount: messages.filter(message => !message.read).length
+  };
+}
+
+// Store a game master's message and deliver it to the players it is for who are online;
+// the others find it in their inbox when they come back
+async function sendGameMessage(io, game, { text, sender, audience = { scope: 'all' } }) {
+  const recipients = await Player.find(getAudienceFilter(game, audience)).select('role team socketId');
+  if (recipients.length === 0) {
+    throw new AppError('No players match this message', 400, 'NO_PLAYERS');
+  }
+
+  game.messages.push({
+    type: 'broadcast',
+    text,
+    sender,
+    timestamp: new Date(),
+    recipients: recipients.length,
+    audience
+  });
+  await game.save();
+
+  const message = game.messages[game.messages.length - 1];
+  const data = {
+    gameId: game._id,
+    message: toPlayerMessage(message, false)
+  };
+
+  if (audience.scope === 'role') {
+    io?.to(`game_${game._id}_${audience.role}s`).emit('game_message', data);
+  } else if (audience.scope === 'team' || audience.scope === 'player') {
+    recipients
+      .filter(player => player.socketId)
+      .forEach(player => io?.to(player.socketId).emit('game_message', data));
+  } else {
+    io?.to(`game_${game._id}`).emit('game_message', data);
+  }
+  notifyPlayers(getAudienceFilter(game, audience), {
+    gameId: game._id,
+    url: getGameUrl(game),
+    title: `📢 ${sender}`,
+    body: text,
+    tag: `message_${message._id}`
+  });
+
+  return message;
+}
+
+// Record that a player read messages, all of theirs when no ids are given.
+// Read receipts are added atomically so several devices reading at once don't clash.
+async function markMessagesRead(io, game, player, messageIds = null) {
+  const unread = (game.messages || []).filter(message =>
+    isMessageFor(message, player) &&
+    !isReadBy(message, player) &&
+    (!messageIds || messageIds.includes(message._id.toString()))
+  );
+
+  if (unread.length === 0) {
+    return [];
+  }
+
+  const ids = unread.map(message => message._id);
+  const readAt = new Date();
+  await Game.updateOne(
+    { _id: game._id },
+    { $push: { 'messages.$[message].readBy': { player: player._id, readAt } } },
+    { arrayFilters: [{ 'message._id': { $in: ids }, 'message.readBy.player': { $ne: player._id } }] }
+  );
+
+  io?.to(`game_${game._id}_masters`).emit('messages_read', {
+    gameId: game._id,
+    playerId: player._id,
+    messageIds: ids,
+    readAt
+  });
+
+  return ids;
+}
+
+module.exports = {
+  getPlayerMessages,
+  toMasterMessage,
+  sendGameMessage,
+  markMessagesRead
+};
@@ -0,0 +1,140 @@
+const webpush = require('web-push');
+const Game = require('../models/Game');
+const Player = require('../models/Player');
+const PushSubscription = require('../models/PushSubscription');
+
+// Push services drop notifications nobody could deliver within this many seconds
+const PUSH_TTL_SECONDS = 300;
+
+// Web Push needs the server's VAPID keys; generate them once with `npm run vapid-keys`
+const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT = 'mailto:admin@klopjacht.com' } = process.env;
+const pushEnabled = Boolean(VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY);
+
+if (pushEnabled) {
+  webpush.setVapidDetails(VAPID_SUBJECT, VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY);
+} else {
+  console.warn('⚠️ VAPID keys not set, push notifications are disabled');
+}
+
+function getVapidPublicKey() {
+  return pushEnabled ? VAPID_PUBLIC_KEY : null;
+}
+
+// Store a browser's subscription for a player or a user; a browser that subscribes again
+// (e.g. after joining another game) is moved to its new owner
+async function saveSubscription(subscription, { player, user, userAgent }) {
+  const saved = await PushSubscription.findOneAndUpdate(
+    { endpoint: subscription.endpoint },
+    {
+      keys: subscription.keys,
+      player: player?._id,
+      user: user?._id,
+      userAgent
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+
+  if (player && !player.permissions.notifications) {
+    player.permissions.notifications = true;
+    await player.save();
+  }
+
+  return saved;
+}
+
+function removeSubscription(endpoint) {
+  return PushSubscription.deleteOne({ endpoint });
+}
+
+async function sendToSubscriptions(subscriptions, notification) {
+  const payload = JSON.stringify(notification);
+
+  await Promise.all(subscriptions.map(async subscription => {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: subscription.keys },
+        payload,
+        { TTL: PUSH_TTL_SECONDS }
+      );
+    } catch (error) {
+      // The browser unsubscribed or the subscription expired
+      if (error.statusCode === 404 || error.statusCode === 410) {
+        await PushSubscription.deleteOne({ _id: subscription._id });
+      } else {
+        console.error(`❌ Push to ${subscription.endpoint.slice(0, 50)}... failed:`, error.message);
+      }
+    }
+  }));
+}
+
+// Push a notification to the players matching a query who allowed notifications.
+// Never throws: a failed push must not fail the game event that caused it.
+async function notifyPlayers(query, notification) {
+  if (!pushEnabled) return;
+
+  try {
+    const players = await Player.find({ ...query, 'permissions.notifications': true }).select('_id');
+    if (players.length === 0) return;
+
+    const subscriptions = await PushSubscription.find({ player: { $in: players.map(player => player._id) } });
+    await sendToSubscriptions(subscriptions, notification);
+  } catch (error) {
+    console.error('❌ Error sending push notifications:', error);
+  }
+}
+
+// The game page a notification opens; players reach it by the game code
+function getGameUrl(game) {
+  return `/game/${game.gameCode}`;
+}
+
+// Push to everyone in a game, optionally only some roles. A notification has a title,
+// a body, and a tag so a newer notification of the same kind replaces the older one.
+function notifyGame(game, notification, roles = null) {
+  return notifyPlayers(
+    { game: game._id, ...(roles && { role: { $in: roles } }) },
+    { gameId: game._id, url: getGameUrl(game), ...notification }
+  );
+}
+
+// Push to one player. Their game is looked up for its code unless it is populated.
+async function notifyPlayer(player, notification) {
+  if (!pushEnabled) return;
+
+  try {
+    const game = player.game?.gameCode
+      ? player.game
+      : await Game.findById(player.game).select('gameCode');
+    if (!game) return;
+
+    await notifyPlayers(
+      { _id: player._id },
+      { gameId: game._id, url: getGameUrl(game), ...notification }
+    );
+  } catch (error) {
+    console.error('❌ Error sending push notifications:', error);
+  }
+}
+
+// Push to the game master who runs the game
+async function notifyGameMasters(game, notification) {
+  if (!pushEnabled) return;
+
+  try {
+    const subscriptions = await PushSubscription.find({ user: game.createdBy });
+    await sendToSubscriptions(subscriptions, { gameId: game._id, url: '/admin', ...notification });
+  } catch (error) {
+    console.error('❌ Error sending push notifications:', error);
+  }
+}
+
+module.exports = {
+  getVapidPublicKey,
+  getGameUrl,
+  saveSubscription,
+  removeSubscription,
+  notifyPlayers,
+  notifyGame,
+  notifyPlayer,
+  notifyGameMasters
+};
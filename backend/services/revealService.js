@@ -0,0 +1,171 @@
+const Game = require('../models/Game');
+const Player = require('../models/Player');
+const { notifyGame, notifyPlayer } = require('./notificationService');
+
+// Keep only the last 100 snapshots per game to prevent document size issues
+const MAX_STORED_REVEALS = 100;
+
+// Interval between automatic reveals for a game, in milliseconds
+function getRevealInterval(game) {
+  return (game.settings?.locationUpdateInterval || 15) * 60 * 1000;
+}
+
+// Plan the next automatic reveal one interval after `from`
+function scheduleNextReveal(game, from = new Date()) {
+  game.revealSchedule.nextRevealAt = new Date(from.getTime() + getRevealInterval(game));
+  game.revealSchedule.pausedRemaining = undefined;
+}
+
+// Freeze the countdown to the next reveal while the game is paused
+function pauseReveals(game, pausedAt = new Date()) {
+  const { nextRevealAt } = game.revealSchedule;
+  if (!nextRevealAt) return;
+
+  game.revealSchedule.pausedRemaining = Math.max(0, nextRevealAt.getTime() - pausedAt.getTime());
+  game.revealSchedule.nextRevealAt = undefined;
+}
+
+// Continue the countdown where it was left off when the game was paused
+function resumeReveals(game, resumedAt = new Date()) {
+  const { pausedRemaining } = game.revealSchedule;
+
+  if (pausedRemaining === undefined || pausedRemaining === null) {
+    scheduleNextReveal(game, resumedAt);
+    return;
+  }
+
+  game.revealSchedule.nextRevealAt = new Date(resumedAt.getTime() + pausedRemaining);
+  game.revealSchedule.pausedRemaining = undefined;
+}
+
+// Cancel any pending reveal (game ended)
+function stopReveals(game) {
+  game.revealSchedule.nextRevealAt = undefined;
+  game.revealSchedule.pausedRemaining = undefined;
+}
+
+// Snapshot fugitive locations, store them and push them to the hunters' room.
+// When `fugitives` is omitted every active fugitive in the game is revealed.
+async function revealFugitives(io, game, trigger = 'automatic', fugitives = null, details = {}) {
+  const revealed = fugitives || await Player.find({
+    game: game._id,
+    role: 'fugitive',
+    status: 'active'
+  });
+  const revealedAt = new Date();
+
+  const locations = revealed
+    .filter(f => f.currentLocation?.latitude != null && f.currentLocation?.longitude != null)
+    .map(f => ({
+      player: f._id,
+      name: f.name,
+      latitude: f.currentLocation.latitude,
+      longitude: f.currentLocation.longitude,
+      accuracy: f.currentLocation.accuracy,
+      lastUpdated: f.currentLocation.lastUpdated
+    }));
+
+  // Atomic push: reveals are also triggered from concurrent location updates
+  await Game.updateOne(
+    { _id: game._id },
+    {
+      $push: { reveals: { $each: [{ trigger, revealedAt, locations }], $slice: -MAX_STORED_REVEALS } },
+      $set: { 'revealSchedule.lastRevealAt': revealedAt }
+    }
+  );
+  game.revealSchedule.lastRevealAt = revealedAt;
+
+  // Use targeted updates so concurrent location saves on the player don't conflict
+  await Promise.all(locations.map(location => Player.updateOne(
+    { _id: location.player },
+    {
+      revealedLocation: {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        accuracy: location.accuracy,
+        revealedAt,
+        trigger
+      }
+    }
+  )));
+
+  io?.to(`game_${game._id}_hunters`).emit('fugitives_revealed', {
+    gameId: game._id,
+    trigger,
+    revealedAt,
+    nextRevealAt: game.revealSchedule.nextRevealAt || null,
+    locations: locations.map(location => ({
+      playerId: location.player,
+      playerName: location.name,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      accuracy: location.accuracy,
+      lastUpdated: location.lastUpdated
+    })),
+    ...details
+  });
+  if (locations.length > 0) {
+    notifyGame(game, {
+      title: '📡 Fugitives revealed',
+      body: `${locations.length} fugitive location${locations.length === 1 ? '' : 's'} on the map.`,
+      tag: 'reveal'
+    }, ['hunter']);
+  }
+
+  return locations;
+}
+
+// Reveal a fugitive who walked into a surveillance camera or ATM zone.
+// Only entering a zone triggers a reveal; staying inside it does not.
+async function checkRevealZones(io, player, game) {
+  if (player.role !== 'fugitive' || !game.revealZones?.length) return [];
+
+  const insideZones = game.revealZones.filter(zone =>
+    zone.isActive && player.isNearLocation(zone.latitude, zone.longitude, zone.radius)
+  );
+  const previousZoneIds = (player.activeZones || []).map(id => id.toString());
+  const enteredZones = insideZones.filter(zone => !previousZoneIds.includes(zone._id.toString()));
+
+  player.activeZones = insideZones.map(zone => zone._id);
+
+  for (const zone of enteredZones) {
+    player.locationHistory.push({
+      latitude: player.currentLocation.latitude,
+      longitude: player.currentLocation.longitude,
+      accuracy: player.currentLocation.accuracy,
+      trigger: zone.type
+    });
+  }
+
+  await player.save();
+
+  for (const zone of enteredZones) {
+    await revealFugitives(io, game, zone.type, [player], {
+      zone: { id: zone._id, name: zone.name, type: zone.type }
+    });
+
+    // Let the fugitive know they have been spotted
+    if (player.socketId) {
+      io?.to(player.socketId).emit('fugitive_spotted', {
+        zone: { id: zone._id, name: zone.name, type: zone.type },
+        timestamp: new Date()
+      });
+    }
+    notifyPlayer(player, {
+      title: zone.type === 'atm' ? '🏧 You were seen at an ATM' : '📷 A camera spotted you',
+      body: 'The hunters now know where you are.',
+      tag: 'spotted'
+    });
+  }
+
+  return enteredZones;
+}
+
+module.exports = {
+  scheduleNextReveal,
+  pauseReveals,
+  resumeReveals,
+  stopReveals,
+  revealFugitives,
+  checkRevealZones
+};
@@ -0,0 +1,151 @@
+const Player = require('../models/Player');
+const SyncReceipt = require('../models/SyncReceipt');
+const { AppError } = require('../middleware/errorHandler');
+const { applyLocationUpdate } = require('./locationService');
+const { completeTask } = require('./taskProgressService');
+
+const MAX_SYNC_BATCH = 50;
+
+// How long a phone may keep what it recorded offline before the server refuses it
+const MAX_OFFLINE_AGE_MS = 60 * 60 * 1000;
+
+// When an item really happened: as the phone recorded it, but never in the future, never
+// before the game started or before what the phone already sent (`syncedUntil`), and
+// never longer ago than a phone may stay offline
+function getRecordedAt(item, game, syncedUntil) {
+  const now = Date.now();
+  const recordedAt = new Date(Math.min(new Date(item.recordedAt).getTime(), now));
+
+  if (!game.startTime || recordedAt < game.startTime) {
+    throw new AppError('Recorded before the game started', 400, 'RECORDED_BEFORE_START');
+  }
+  if (syncedUntil && recordedAt < syncedUntil) {
+    throw new AppError('Recorded before updates the server already has', 400, 'RECORDED_BEFORE_LAST_SYNC');
+  }
+  if (now - recordedAt.getTime() > MAX_OFFLINE_AGE_MS) {
+    throw new AppError('Recorded too long ago to be accepted', 400, 'RECORDED_TOO_LONG_AGO');
+  }
+  return recordedAt;
+}
+
+async function applyItem(io, player, item, syncedUntil) {
+  const recordedAt = getRecordedAt(item, player.game, syncedUntil);
+  const data = item.data || {};
+
+  if (item.type === 'location') {
+    if (player.game.status !== 'active' || player.status !== 'active') {
+      throw new AppError('Cannot update location for inactive player or game', 400, 'INACTIVE_PLAYER_OR_GAME');
+    }
+
+    // Only the player's own phone queues locations; server-side triggers can't be claimed
+    const trigger = data.trigger === 'automatic' ? 'automatic' : 'manual';
+    const { latest } = await applyLocationUpdate(io, player, {
+      latitude: data.latitude,
+      longitude: data.longitude,
+      accuracy: data.accuracy,
+      trigger,
+      recordedAt
+    });
+
+    const { latitude, longitude, lastUpdated } = player.currentLocation;
+    return { latest, location: { latitude, longitude, lastUpdated }, status: player.status };
+  }
+
+  return completeTask(io, player, {
+    taskNumber: data.taskNumber,
+    answer: data.answer,
+    location: data.location,
+    signature: data.signature,
+    manualCode: data.manualCode,
+    completedAt: recordedAt
+  });
+}
+
+function toItemResult(receipt, duplicate) {
+  return {
+    id: receipt.clientId,
+    type: receipt.type,
+    status: receipt.status,
+    duplicate,
+    ...(receipt.status === 'applied' && { result: receipt.result }),
+    ...(receipt.status === 'rejected' && { error: receipt.error.message, code: receipt.error.code })
+  };
+}
+
+// Apply a batch of location updates and answers a player's phone queued while offline, in
+// the order they were recorded. Each item is applied at most once: sending the same item
+// again returns what it got the first time. Rejected items are final, only items that
+// failed on the server's side come back as `retry`. Once an item is settled, the phone can't
+// send anything dated earlier, up to the first item that has to be sent again.
+async function processSyncBatch(io, playerId, items) {
+  const loadPlayer = () => Player.findById(playerId).populate({ path: 'game', select: '+taskSecret' });
+
+  let player = await loadPlayer();
+  if (!player) {
+    throw new AppError('Player not found', 404, 'PLAYER_NOT_FOUND');
+  }
+
+  const ordered = [...items].sort((a, b) => new Date(a.recordedAt) - new Date(b.recordedAt));
+  const results = [];
+  const { syncedUntil } = player;
+  let settledUntil = null;
+  let retrying = false;
+
+  for (const item of ordered) {
+    let receipt;
+    try {
+      receipt = await SyncReceipt.create({
+        game: player.game._id,
+        player: player._id,
+        clientId: item.id,
+        type: item.type,
+        recordedAt: item.recordedAt
+      });
+    } catch (error) {
+      if (error.code !== 11000) throw error;
+
+      // Sent before: answer as the first time, unless that is still being applied
+      const existing = await SyncReceipt.findOne({ player: player._id, clientId: item.id });
+      results.push(existing.status === 'processing'
+        ? { id: item.id, type: item.type, status: 'retry', duplicate: true }
+        : toItemResult(existing, true));
+      continue;
+    }
+
+    try {
+      receipt.result = await applyItem(io, player, item, syncedUntil);
+      receipt.status = 'applied';
+    } catch (error) {
+      if (!error.isOperational) {
+        // Not the item's fault: forget it so the phone can send it again
+        console.error('❌ Error applying synced item:', error);
+        await SyncReceipt.deleteOne({ _id: receipt._id });
+        player = await loadPlayer();
+        results.push({ id: item.id, type: item.type, status: 'retry', duplicate: false });
+        retrying = true;
+        continue;
+      }
+
+      receipt.status = 'rejected';
+      receipt.error = { message: error.message, code: error.code, statusCode: error.statusCode };
+    }
+
+    await receipt.save();
+    results.push(toItemResult(receipt, false));
+
+    if (!retrying) {
+      settledUntil = new Date(Math.min(new Date(item.recordedAt).getTime(), Date.now()));
+    }
+  }
+
+  if (settledUntil) {
+    await Player.updateOne({ _id: player._id }, { $max: { syncedUntil: settledUntil } });
+  }
+
+  return results;
+}
+
+module.exports = {
+  MAX_SYNC_BATCH,
+  processSyncBatch
+};
@@ -0,0 +1,333 @@
+const { AppError } = require('../middleware/errorHandler');
+
+const TASK_TYPES = ['text', 'multiple_choice', 'numeric', 'gps_checkin', 'photo'];
+
+// Task types answered by typing or picking an answer
+const ANSWERED_TASK_TYPES = ['text', 'multiple_choice', 'numeric'];
+
+// Media a question can come with
+const MEDIA_KINDS = ['image', 'audio', 'video'];
+
+// Used when a GPS check-in task doesn't set its own radius
+const DEFAULT_CHECKIN_RADIUS = 25; // meters
+
+// Typos allowed at most, however lenient a game master wants to be
+const MAX_ANSWER_DISTANCE = 5;
+
+// Words dropped from free text answers when articles are ignored
+const ARTICLES = ['de', 'het', 'een', "'t", 'the', 'a', 'an'];
+
+// Matching for free text tasks that don't set their own policy
+const DEFAULT_MATCHING = {
+  foldAccents: true,
+  ignorePunctuation: true,
+  ignoreWhitespace: true,
+  ignoreArticles: true,
+  maxDistance: 0
+};
+
+function normalizeText(value) {
+  return String(value ?? '').toLowerCase().trim();
+}
+
+// Accepts both "3.5" and "3,5"; returns null for anything that isn't a number
+function parseNumber(value) {
+  const text = String(value ?? '').trim().replace(',', '.');
+  if (!text) return null;
+
+  const number = Number(text);
+  return Number.isFinite(number) ? number : null;
+}
+
+function getMatchingPolicy(task) {
+  const matching = task.matching?.toObject ? task.matching.toObject() : task.matching;
+  return { ...DEFAULT_MATCHING, ...matching };
+}
+
+// Bring a free text answer into the form answers are compared in
+function normalizeAnswer(value, policy = DEFAULT_MATCHING) {
+  let text = normalizeText(value);
+
+  if (policy.foldAccents) {
+    text = text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  }
+
+  if (policy.ignoreArticles) {
+    text = text.split(/\s+/).filter(word => !ARTICLES.includes(word)).join(' ');
+  }
+
+  if (policy.ignorePunctuation) {
+    text = text.replace(/[^\p{L}\p{N}\s]/gu, ' ');
+  }
+
+  return policy.ignoreWhitespace
+    ? text.replace(/\s+/g, '')
+    : text.replace(/\s+/g, ' ').trim();
+}
+
+// Edit distance between two strings, keeping only two rows in memory
+function levenshtein(a, b) {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// Compile a game master's answer pattern; always case-insensitive
+function compilePattern(pattern) {
+  return new RegExp(pattern, 'iu');
+}
+
+// Find which accepted answer (or the pattern) a free text answer matches.
+// Returns the matched variant, or null when the answer is wrong.
+function matchTextAnswer(task, answer) {
+  const policy = getMatchingPolicy(task);
+  const variants = [task.answer, ...(task.acceptedAnswers || [])].filter(Boolean);
+  const given = normalizeAnswer(answer, policy);
+
+  if (given) {
+    const exact = variants.find(variant => normalizeAnswer(variant, policy) === given);
+    if (exact) return exact;
+
+    if (policy.maxDistance > 0) {
+      let best = null;
+      let bestDistance = Infinity;
+
+      for (const variant of variants) {
+        const distance = levenshtein(given, normalizeAnswer(variant, policy));
+        if (distance <= policy.maxDistance && distance < bestDistance) {
+          best = variant;
+          bestDistance = distance;
+        }
+      }
+
+      if (best) return best;
+    }
+  }
+
+  if (policy.pattern && compilePattern(policy.pattern).test(String(answer).trim())) {
+    return `/${policy.pattern}/`;
+  }
+
+  return null;
+}
+
+// express-validator check for a task definition sent by a game master
+function validateTaskDefinition(task) {
+  const type = task.type || 'text';
+
+  if (!TASK_TYPES.includes(type)) {
+    throw new Error(`Task type must be one of: ${TASK_TYPES.join(', ')}`);
+  }
+
+  if (ANSWERED_TASK_TYPES.includes(type) && !String(task.answer ?? '').trim()) {
+    throw new Error('An answer is required for this task type');
+  }
+
+  if (type === 'multiple_choice') {
+    const options = Array.isArray(task.options) ? task.options.map(normalizeText).filter(Boolean) : [];
+
+    if (options.length < 2 || options.length > 8) {
+      throw new Error('Multiple choice tasks need between 2 and 8 options');
+    }
+
+    if (!options.includes(normalizeText(task.answer))) {
+      throw new Error('The answer must be one of the options');
+    }
+  }
+
+  if (type === 'numeric') {
+    if (parseNumber(task.answer) === null) {
+      throw new Error('The answer of a numeric task must be a number');
+    }
+
+    if (task.tolerance !== undefined && !(parseNumber(task.tolerance) >= 0)) {
+      throw new Error('Tolerance must be zero or a positive number');
+    }
+  }
+
+  if (task.acceptedAnswers !== undefined && !Array.isArray(task.acceptedAnswers)) {
+    throw new Error('Accepted answers must be a list');
+  }
+
+  if (task.matching?.maxDistance !== undefined) {
+    const distance = parseNumber(task.matching.maxDistance);
+    if (distance === null || !Number.isInteger(distance) || distance < 0 || distance > MAX_ANSWER_DISTANCE) {
+      throw new Error(`Typo tolerance must be a whole number between 0 and ${MAX_ANSWER_DISTANCE}`);
+    }
+  }
+
+  if (task.matching?.pattern) {
+    if (String(task.matching.pattern).length > 200) {
+      throw new Error('Answer pattern must be less than 200 characters');
+    }
+
+    try {
+      compilePattern(task.matching.pattern);
+    } catch (error) {
+      throw new Error(`Answer pattern is not a valid regular expression: ${error.message}`);
+    }
+  }
+
+  if (task.media?.url) {
+    if (!/^https?:\/\/\S+$/i.test(task.media.url) || task.media.url.length > 500) {
+      throw new Error('Media must be a web address (http or https) of less than 500 characters');
+    }
+
+    if (task.media.kind !== undefined && !MEDIA_KINDS.includes(task.media.kind)) {
+      throw new Error(`Media kind must be one of: ${MEDIA_KINDS.join(', ')}`);
+    }
+
+    if (String(task.media.caption ?? '').length > 200) {
+      throw new Error('Media caption must be less than 200 characters');
+    }
+  }
+
+  if (type === 'gps_checkin' && task.checkInRadius !== undefined) {
+    const radius = parseNumber(task.checkInRadius);
+    if (radius === null || radius < 5 || radius > 500) {
+      throw new Error('Check-in radius must be between 5 and 500 meters');
+    }
+  }
+
+  if (String(task.stage ?? '').trim()) {
+    const stage = parseNumber(task.stage);
+    if (!Number.isInteger(stage) || stage < 1 || stage > 20) {
+      throw new Error('Stage must be a whole number between 1 and 20');
+    }
+  }
+
+  return true;
+}
+
+function buildMatchingPolicy(matching = {}) {
+  const policy = { ...DEFAULT_MATCHING };
+
+  for (const flag of ['foldAccents', 'ignorePunctuation', 'ignoreWhitespace', 'ignoreArticles']) {
+    if (matching[flag] !== undefined) {
+      policy[flag] = matching[flag] === true || matching[flag] === 'true';
+    }
+  }
+
+  if (matching.maxDistance !== undefined) {
+    policy.maxDistance = parseNumber(matching.maxDistance);
+  }
+
+  if (matching.pattern) {
+    policy.pattern = String(matching.pattern);
+  }
+
+  return policy;
+}
+
+// Turn a validated task definition into the fields stored on the game
+function buildTaskFields(task) {
+  const type = task.type || 'text';
+
+  return {
+    type,
+    question: task.question,
+    answer: ANSWERED_TASK_TYPES.includes(type) ? normalizeText(task.answer) : undefined, // Normalize answer
+    acceptedAnswers: type === 'text' ? (task.acceptedAnswers || []).map(normalizeText).filter(Boolean) : undefined,
+    matching: type === 'text' ? buildMatchingPolicy(task.matching || {}) : undefined,
+    options: type === 'multiple_choice' ? task.options.map(option => String(option).trim()).filter(Boolean) : undefined,
+    tolerance: type === 'numeric' ? parseNumber(task.tolerance) || 0 : undefined,
+    checkInRadius: type === 'gps_checkin' ? parseNumber(task.checkInRadius) || DEFAULT_CHECKIN_RADIUS : undefined,
+    hints: (task.hints?.length ? task.hints : [task.hint]).map(hint => String(hint ?? '').trim()).filter(Boolean),
+    media: task.media?.url
+      ? { url: task.media.url.trim(), kind: task.media.kind || 'image', caption: task.media.caption?.trim() || undefined }
+      : undefined,
+    stage: parseNumber(task.stage) || undefined,
+    location: task.location
+  };
+}
+
+// What a player needs to know to answer a task they scanned; never the answer itself
+function getPlayerTaskDetails(task) {
+  const type = task.type || 'text';
+
+  return {
+    type,
+    ...(type === 'multiple_choice' && { options: task.options }),
+    ...(type === 'gps_checkin' && { checkInRadius: task.checkInRadius || DEFAULT_CHECKIN_RADIUS }),
+    ...(task.media?.url && { media: { url: task.media.url, kind: task.media.kind, caption: task.media.caption } })
+  };
+}
+
+// Check a player's submission against a task.
+// `matchedAnswer` tells which accepted answer (or pattern) a correct answer matched.
+// Photo tasks can't be answered here: a game master reviews the uploaded photo.
+function checkTaskAnswer(task, player, { answer, location } = {}) {
+  const type = task.type || 'text';
+
+  if (type === 'photo') {
+    throw new AppError('This task needs a photo, upload one for the game master to review', 400, 'PHOTO_REQUIRED');
+  }
+
+  if (type === 'gps_checkin') {
+    if (location?.latitude == null || location?.longitude == null) {
+      throw new AppError('Your location is required to check in', 400, 'LOCATION_REQUIRED');
+    }
+
+    const distance = player.calculateDistance(
+      location.latitude,
+      location.longitude,
+      task.location.latitude,
+      task.location.longitude
+    );
+
+    return {
+      correct: distance <= (task.checkInRadius || DEFAULT_CHECKIN_RADIUS),
+      distance: Math.round(distance)
+    };
+  }
+
+  if (!normalizeText(answer)) {
+    throw new AppError('An answer is required', 400, 'ANSWER_REQUIRED');
+  }
+
+  if (type === 'numeric') {
+    const value = parseNumber(answer);
+    const expected = parseNumber(task.answer);
+    const correct = value !== null && expected !== null && Math.abs(value - expected) <= (task.tolerance || 0);
+
+    return { correct, matchedAnswer: correct ? task.answer : undefined };
+  }
+
+  // Multiple choice options are picked, not typed, so they match exactly (case-insensitive)
+  if (type === 'multiple_choice') {
+    const correct = normalizeText(answer) === normalizeText(task.answer);
+    return { correct, matchedAnswer: correct ? task.answer : undefined };
+  }
+
+  const matchedAnswer = matchTextAnswer(task, answer);
+  return { correct: matchedAnswer !== null, matchedAnswer: matchedAnswer ?? undefined };
+}
+
+module.exports = {
+  TASK_TYPES,
+  MEDIA_KINDS,
+  DEFAULT_CHECKIN_RADIUS,
+  DEFAULT_MATCHING,
+  normalizeAnswer,
+  levenshtein,
+  validateTaskDefinition,
+  buildTaskFields,
+  getPlayerTaskDetails,
+  checkTaskAnswer
+};
@@ -0,0 +1,134 @@
+const TaskAttempt = require('../models/TaskAttempt');
+const Player = require('../models/Player');
+const { AppError } = require('../middleware/errorHandler');
+const { revealFugitives } = require('./revealService');
+
+// Only typed or picked answers can be guessed; check-ins and photos are never locked or penalized
+const LIMITED_TASK_TYPES = ['text', 'multiple_choice', 'numeric'];
+
+function isLimited(task) {
+  return LIMITED_TASK_TYPES.includes(task.type || 'text');
+}
+
+// Refuse answers for a task while the player is locked out of it
+async function assertNotLockedOut(player, taskNumber) {
+  const lockout = await TaskAttempt.findOne({
+    player: player._id,
+    taskNumber,
+    lockedUntil: { $gt: new Date() }
+  }).sort({ createdAt: -1 });
+
+  if (lockout) {
+    const seconds = Math.ceil((lockout.lockedUntil.getTime() - Date.now()) / 1000);
+    throw new AppError(
+      `Too many wrong answers, try task ${taskNumber} again in ${Math.ceil(seconds / 60)} minute(s)`,
+      429,
+      'TASK_LOCKED'
+    );
+  }
+}
+
+// Wrong answers for a task since its last lockout ended
+async function countWrongAttempts(player, taskNumber) {
+  const lastLockout = await TaskAttempt.findOne({
+    player: player._id,
+    taskNumber,
+    lockedUntil: { $exists: true }
+  }).sort({ createdAt: -1 });
+
+  return TaskAttempt.countDocuments({
+    player: player._id,
+    taskNumber,
+    correct: false,
+    ...(lastLockout && { createdAt: { $gt: lastLockout.createdAt } })
+  });
+}
+
+// Store an answer attempt and apply the game's limits and penalties when it was wrong.
+// Returns what the player should be told: attempts left, lockout end and penalty applied.
+async function recordAttempt(io, game, player, task, { answer, result }) {
+  const attempt = new TaskAttempt({
+    game: game._id,
+    player: player._id,
+    taskNumber: task.taskNumber,
+    answer: answer !== undefined ? String(answer) : undefined,
+    correct: result.correct,
+    matchedAnswer: result.matchedAnswer,
+    distance: result.distance
+  });
+
+  if (result.correct || !isLimited(task)) {
+    await attempt.save();
+    return { attemptsLeft: null, lockedUntil: null, penalty: 'none' };
+  }
+
+  const { maxAttempts = 0, lockoutMinutes = 5, wrongAnswerPenalty = 'none', penaltyMinutes = 5 } = game.settings || {};
+
+  let attemptsLeft = null;
+  if (maxAttempts > 0) {
+    const wrongAttempts = await countWrongAttempts(player, task.taskNumber) + 1;
+    attemptsLeft = Math.max(0, maxAttempts - wrongAttempts);
+
+    if (attemptsLeft === 0) {
+      attempt.lockedUntil = new Date(Date.now() + lockoutMinutes * 60 * 1000);
+    }
+  }
+
+  attempt.penalty = wrongAnswerPenalty;
+  await attempt.save();
+
+  if (wrongAnswerPenalty === 'reveal') {
+    await revealFugitives(io, game, 'penalty', [player], { taskNumber: task.taskNumber });
+  } else if (wrongAnswerPenalty === 'time') {
+    // Atomic increment: the player document may be saved concurrently by location updates
+    await Player.updateOne({ _id: player._id }, { $inc: { timePenaltyMinutes: penaltyMinutes } });
+    player.timePenaltyMinutes = (player.timePenaltyMinutes || 0) + penaltyMinutes;
+  }
+
+  if (wrongAnswerPenalty !== 'none' || attempt.lockedUntil) {
+    io?.to(`game_${game._id}_masters`).emit('task_attempt_penalized', {
+      gameId: game._id,
+      playerId: player._id,
+      playerName: player.name,
+      taskNumber: task.taskNumber,
+      penalty: wrongAnswerPenalty,
+      penaltyMinutes: wrongAnswerPenalty === 'time' ? penaltyMinutes : undefined,
+      lockedUntil: attempt.lockedUntil || null
+    });
+  }
+
+  return {
+    attemptsLeft,
+    lockedUntil: attempt.lockedUntil || null,
+    penalty: wrongAnswerPenalty,
+    ...(wrongAnswerPenalty === 'time' && { penaltyMinutes })
+  };
+}
+
+// Attempt counts per player for the game master's progress view
+async function getAttemptStats(game) {
+  const now = new Date();
+  const stats = await TaskAttempt.aggregate([
+    { $match: { game: game._id } },
+    {
+      $group: {
+        _id: '$player',
+        attempts: { $sum: 1 },
+        wrongAttempts: { $sum: { $cond: ['$correct', 0, 1] } },
+        lockouts: {
+          $push: {
+            $cond: [{ $gt: ['$lockedUntil', now] }, { taskNumber: '$taskNumber', lockedUntil: '$lockedUntil' }, '$$REMOVE']
+          }
+        }
+      }
+    }
+  ]);
+
+  return new Map(stats.map(stat => [stat._id.toString(), stat]));
+}
+
+module.exports = {
+  assertNotLockedOut,
+  recordAttempt,
+  getAttemptStats
+};
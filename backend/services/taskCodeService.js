@@ -0,0 +1,146 @@
+const crypto = require('crypto');
+const QRCode = require('qrcode');
+
+// Identifies our QR codes among anything else a player might scan
+const QR_PAYLOAD_TYPE = 'klopjacht_task';
+
+// Fugitive badges, scanned by hunters to register a catch
+const BADGE_PAYLOAD_TYPE = 'klopjacht_badge';
+
+// Truncated HMAC length in bytes; 128 bits is plenty for a code printed on paper
+const SIGNATURE_BYTES = 16;
+
+function generateTaskSecret() {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+// Give games created before signed codes existed a secret of their own.
+// Returns true when the caller has to save the game.
+function ensureTaskSecret(game) {
+  if (game.taskSecret) return false;
+
+  game.taskSecret = generateTaskSecret();
+  game.taskSecretRotatedAt = new Date();
+  return true;
+}
+
+function hmac(game, data) {
+  if (!game.taskSecret) {
+    throw new Error(`Game ${game._id} has no task secret loaded`);
+  }
+
+  return crypto.createHmac('sha256', game.taskSecret).update(data).digest();
+}
+
+function safeEqual(a, b) {
+  const bufA = Buffer.from(String(a));
+  const bufB = Buffer.from(String(b));
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+// Signature carried by a task's QR code
+function signTask(game, taskNumber) {
+  return hmac(game, `${game._id}:task:${taskNumber}`)
+    .subarray(0, SIGNATURE_BYTES)
+    .toString('base64url');
+}
+
+// 6-digit fallback code players can type when a QR code won't scan
+function getManualCode(game, taskNumber) {
+  const value = hmac(game, `${game._id}:manual:${taskNumber}`).readUInt32BE(0);
+  return ((value % 900000) + 100000).toString();
+}
+
+function buildTaskQRPayload(game, taskNumber) {
+  const sig = signTask(game, taskNumber);
+
+  return {
+    type: QR_PAYLOAD_TYPE,
+    gameId: game._id.toString(),
+    taskNumber,
+    sig,
+    url: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/task/${game._id}/${taskNumber}?sig=${sig}`
+  };
+}
+
+function renderQRCode(content) {
+  return QRCode.toDataURL(content, {
+    errorCorrectionLevel: 'M',
+    type: 'image/png',
+    quality: 0.92,
+    margin: 1,
+    color: {
+      dark: '#000000',
+      light: '#FFFFFF'
+    }
+  });
+}
+
+async function generateTaskQRCode(game, taskNumber) {
+  // The task page link, so a phone's own camera opens it too; the in-app scanner reads links as well
+  return renderQRCode(buildTaskQRPayload(game, taskNumber).url);
+}
+
+// Signature on a fugitive's badge; badges are invalidated with the task codes when the secret rotates
+function signBadge(game, playerId) {
+  return hmac(game, `${game._id}:badge:${playerId}`)
+    .subarray(0, SIGNATURE_BYTES)
+    .toString('base64url');
+}
+
+function buildBadgeQRPayload(game, player) {
+  return {
+    type: BADGE_PAYLOAD_TYPE,
+    gameId: game._id.toString(),
+    playerId: player._id.toString(),
+    sig: signBadge(game, player._id)
+  };
+}
+
+async function generateBadgeQRCode(game, player) {
+  return renderQRCode(JSON.stringify(buildBadgeQRPayload(game, player)));
+}
+
+// Check that a scanned badge was issued for this fugitive in this game
+function verifyBadge(game, playerId, signature) {
+  if (!game.taskSecret || !signature) return false;
+  return safeEqual(signature, signBadge(game, playerId));
+}
+
+// Check that a player actually scanned (or typed the code of) this task.
+// `proof` holds either the QR `signature` or the `manualCode`.
+function verifyTaskProof(game, taskNumber, proof = {}) {
+  if (!game.taskSecret) return false;
+
+  if (proof.signature) {
+    return safeEqual(proof.signature, signTask(game, taskNumber));
+  }
+
+  if (proof.manualCode) {
+    return safeEqual(String(proof.manualCode).trim(), getManualCode(game, taskNumber));
+  }
+
+  return false;
+}
+
+// Work out which task a manual code belongs to, or null when it matches none
+function findTaskNumberByManualCode(game, manualCode) {
+  const task = game.tasks.find(t => verifyTaskProof(game, t.taskNumber, { manualCode }));
+  return task ? task.taskNumber : null;
+}
+
+module.exports = {
+  QR_PAYLOAD_TYPE,
+  BADGE_PAYLOAD_TYPE,
+  generateTaskSecret,
+  ensureTaskSecret,
+  signTask,
+  getManualCode,
+  buildTaskQRPayload,
+  generateTaskQRCode,
+  verifyTaskProof,
+  findTaskNumberByManualCode,
+  buildBadgeQRPayload,
+  generateBadgeQRCode,
+  verifyBadge
+};
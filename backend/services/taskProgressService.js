@@ -0,0 +1,220 @@
+const { AppError } = require('../middleware/errorHandler');
+const { verifyTaskProof } = require('./taskCodeService');
+const { checkTaskAnswer } = require('./taskAnswerService');
+const { assertNotLockedOut, recordAttempt } = require('./taskAttemptService');
+
+// "task 3", or "one of tasks 2, 4 or 5"
+function describeTaskChoice(taskNumbers) {
+  if (taskNumbers.length === 1) return `task ${taskNumbers[0]}`;
+  return `one of tasks ${taskNumbers.slice(0, -1).join(', ')} or ${taskNumbers[taskNumbers.length - 1]}`;
+}
+
+// Everything that must hold before a player's answer to a task is looked at, the same for
+// every way of answering. `game` must include its task secret. Returns the task.
+function assertCanAnswer(game, player, taskNumber, { signature, manualCode, answeredAt = new Date() }) {
+  if (game.status !== 'active') {
+    throw new AppError('Game is not active', 400, 'GAME_NOT_ACTIVE');
+  }
+
+  if (game.isExpired(answeredAt)) {
+    throw new AppError('Game has expired', 400, 'GAME_EXPIRED');
+  }
+
+  if (player.role !== 'fugitive') {
+    throw new AppError('Only fugitives can complete tasks', 403, 'INVALID_PLAYER_ROLE');
+  }
+
+  // 'waiting' players become active with their first answer if the game just started
+  if (player.status !== 'active' && player.status !== 'waiting') {
+    throw new AppError('Player is not active', 400, 'PLAYER_NOT_ACTIVE');
+  }
+
+  if (!Number.isInteger(taskNumber) || taskNumber < 1 || taskNumber > game.getTaskCount()) {
+    throw new AppError('Invalid task number', 400, 'INVALID_TASK_NUMBER');
+  }
+
+  const task = game.tasks.find(t => t.taskNumber === taskNumber);
+  if (!task) {
+    throw new AppError('Task not found', 404, 'TASK_NOT_FOUND');
+  }
+
+  // The player must have scanned this task's QR code or typed its manual code
+  if (!verifyTaskProof(game, taskNumber, { signature, manualCode })) {
+    throw new AppError('Invalid or expired task code', 403, 'INVALID_TASK_CODE');
+  }
+
+  // Tasks are completed in the order of the player's route
+  if (player.completedTasks.some(ct => ct.taskNumber === taskNumber)) {
+    throw new AppError('Task already completed', 400, 'TASK_ALREADY_COMPLETED');
+  }
+
+  const available = game.getAvailableTasksForPlayer(player).map(t => t.taskNumber);
+  if (!available.includes(taskNumber)) {
+    const laterSteps = game.getPlayerRoute(player).slice(player.completedTasks.length + 1);
+
+    if (!laterSteps.some(step => step.includes(taskNumber))) {
+      throw new AppError('This task is not on your route', 400, 'TASK_NOT_ON_ROUTE');
+    }
+    throw new AppError(`You must complete ${describeTaskChoice(available)} first`, 400, 'SEQUENTIAL_COMPLETION_REQUIRED');
+  }
+
+  return task;
+}
+
+// Record a task as completed by a player, on both the player and the game, and tell the game.
+// `location` is where a GPS check-in was made, which also becomes the player's location.
+async function recordCompletion(io, game, player, task, { answer, matchedAnswer, location, completedAt = new Date() } = {}) {
+  const hasLocation = location?.latitude !== undefined && location?.longitude !== undefined;
+
+  player.completedTasks.push({
+    taskId: task._id,
+    taskNumber: task.taskNumber,
+    completedAt,
+    location: hasLocation
+      ? { latitude: location.latitude, longitude: location.longitude }
+      : player.currentLocation,
+    answer,
+    matchedAnswer,
+    hintsUsed: player.getHintsUsed(task.taskNumber)
+  });
+  player.gameStats.tasksCompleted = player.completedTasks.length;
+
+  if (hasLocation) {
+    // Saves the player as well
+    await player.updateLocation(location.latitude, location.longitude, location.accuracy, 'task_completion', completedAt);
+  } else {
+    await player.save();
+  }
+
+  task.completedBy.push({
+    player: player._id,
+    completedAt,
+    answer,
+    matchedAnswer
+  });
+  game.results.completedTasks = Math.max(game.results.completedTasks || 0, player.completedTasks.length);
+  await game.save();
+
+  io?.to(`game_${game._id}`).emit('task_completed', {
+    playerId: player._id,
+    playerName: player.name,
+    taskNumber: task.taskNumber,
+    completedTasks: player.completedTasks.length,
+    location: player.currentLocation,
+    completedAt
+  });
+}
+
+// Check a player's answer to a task and record the task as completed when it is right.
+// Every answer route comes through here. The player's game must be populated with its task
+// secret. `completedAt` is when the player answered, which is in the past for answers queued
+// while offline. Returns what the player should be told about the answer.
+async function completeTask(io, player, { taskNumber, answer, location, signature, manualCode, completedAt = new Date() }) {
+  const game = player.game;
+  const task = assertCanAnswer(game, player, taskNumber, { signature, manualCode, answeredAt: completedAt });
+
+  await assertNotLockedOut(player, taskNumber);
+
+  if (player.status === 'waiting') {
+    player.status = 'active';
+    await player.save();
+  }
+
+  // Check the answer the way this task type is verified
+  const result = checkTaskAnswer(task, player, { answer, location });
+  const attempt = await recordAttempt(io, game, player, task, { answer, result });
+
+  if (!result.correct) {
+    const tooFar = task.type === 'gps_checkin';
+
+    return {
+      correct: false,
+      code: tooFar ? 'TOO_FAR_FROM_TASK' : 'INCORRECT_ANSWER',
+      message: tooFar
+        ? `You are ${result.distance}m from the task location, get closer to check in`
+        : 'Incorrect answer',
+      taskNumber,
+      ...(result.distance !== undefined && { distance: result.distance }),
+      ...attempt
+    };
+  }
+
+  await recordCompletion(io, game, player, task, {
+    answer,
+    matchedAnswer: result.matchedAnswer,
+    location,
+    completedAt
+  });
+
+  return {
+    correct: true,
+    message: `Task ${taskNumber} completed successfully!`,
+    tasksCompleted: player.completedTasks.length,
+    totalTasks: game.getPlayerRoute(player).length,
+    taskNumber,
+    nextStep: getNextStep(game, player, taskNumber)
+  };
+}
+
+// The extraction point a fugitive who completed every task heads to, and when it is open
+function getExtractionStep(game, player) {
+  const extractionPoint = game.getExtractionPointForPlayer(player);
+
+  return {
+    type: 'extraction',
+    message: 'All tasks completed! Head to the extraction point.',
+    extractionPoint,
+    ...game.getExtractionWindow(extractionPoint),
+    isOpen: game.isExtractionPointOpen(extractionPoint),
+    remainingTime: game.remainingTime
+  };
+}
+
+// Where a player heads after completing `taskNumber`: the next task's location (or, when the
+// route offers a choice, every task they may pick), or the extraction point once every task is done
+function getNextStep(game, player, taskNumber) {
+  if (game.hasCompletedAllTasks(player)) {
+    return getExtractionStep(game, player);
+  }
+
+  const available = game.getAvailableTasksForPlayer(player);
+  if (available.length === 0) return null;
+
+  return {
+    type: 'next_task',
+    message: available.length > 1
+      ? `Task ${taskNumber} completed! Choose where to go next.`
+      : `Task ${taskNumber} completed! Head to the next location.`,
+    nextTaskNumber: available[0].taskNumber,
+    nextLocation: available[0].location,
+    ...(available.length > 1 && {
+      choices: available.map(task => ({ taskNumber: task.taskNumber, location: task.location }))
+    }),
+    remainingTasks: game.getPlayerRoute(player).length - player.completedTasks.length
+  };
+}
+
+// Where a player stands on their task route, and whether `taskNumber` is one to answer now
+function getTaskProgress(game, player, taskNumber) {
+  const availableTasks = game.getAvailableTasksForPlayer(player).map(task => task.taskNumber);
+
+  return {
+    playerId: player._id,
+    role: player.role,
+    status: player.status,
+    completedTasks: player.completedTasks.length,
+    totalTasks: game.getPlayerRoute(player).length,
+    availableTasks,
+    isCurrentTask: availableTasks.includes(taskNumber),
+    isCompleted: player.completedTasks.some(ct => ct.taskNumber === taskNumber)
+  };
+}
+
+module.exports = {
+  assertCanAnswer,
+  recordCompletion,
+  completeTask,
+  getExtractionStep,
+  getNextStep,
+  getTaskProgress
+};
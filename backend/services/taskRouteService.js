@@ -0,0 +1,54 @@
+const Player = require('../models/Player');
+
+const TASK_ORDERS = ['sequential', 'free', 'branching', 'shuffled'];
+
+// Fugitives who follow the same route: a team when the game shares routes by team
+function getRouteKey(game, player) {
+  return game.settings?.shareRoutesByTeam && player.team
+    ? `team:${player.team}`
+    : `player:${player._id}`;
+}
+
+// Give every fugitive their task route when the game starts
+async function assignTaskRoutes(game) {
+  const fugitives = await Player.find({ game: game._id, role: 'fugitive' });
+  const routes = new Map();
+
+  for (const fugitive of fugitives) {
+    const key = getRouteKey(game, fugitive);
+    if (!routes.has(key)) {
+      routes.set(key, game.buildTaskRoute(Math.random));
+    }
+
+    fugitive.route = routes.get(key);
+    await fugitive.save();
+  }
+}
+
+// A fugitive joining a game that already started gets a route too, their team's if it has one.
+// The caller saves the player.
+async function assignTaskRoute(game, player) {
+  if (!game.startTime || player.role !== 'fugitive') return;
+
+  if (game.settings?.shareRoutesByTeam && player.team) {
+    const teammate = await Player.findOne({
+      game: game._id,
+      role: 'fugitive',
+      team: player.team,
+      'route.0': { $exists: true }
+    });
+
+    if (teammate) {
+      player.route = teammate.route;
+      return;
+    }
+  }
+
+  player.route = game.buildTaskRoute(Math.random);
+}
+
+module.exports = {
+  TASK_ORDERS,
+  assignTaskRoutes,
+  assignTaskRoute
+};
@@ -1,26 +1,30 @@
-const { verifyToken } = require('../middleware/auth');
+const { verifyToken, verifyPlayerToken } = require('../middleware/auth');
 const Player = require('../models/Player');
 const Game = require('../models/Game');
+const { AppError } = require('../middleware/errorHandler');
+const { applyLocationUpdate } = require('../services/locationService');
+const { recordCatch } = require('../services/catchService');
+const { startGame, pauseGame, resumeGame, endGame } = require('../services/gameLifecycleService');
+const { joinChatRooms, leaveChatRooms, sendChatMessage } = require('../services/chatService');
 
 function socketHandler(io) {
-  // Middleware for socket authentication
+  // Middleware for socket authentication: game masters send a user token,
+  // players the game-scoped token they got from /api/players/join
   io.use(async (socket, next) => {
     try {
-      const token = socket.handshake.auth.token;
-      
-      if (!token) {
-        // Allow anonymous connections for players
-        socket.user = null;
-        return next();
+      const { token, playerToken } = socket.handshake.auth;
+
+      socket.user = token ? await verifyToken(token) : null;
+      socket.player = playerToken ? await verifyPlayerToken(playerToken) : null;
+
+      if (!socket.user && !socket.player) {
+        return next(new Error('Authentication required'));
       }
 
-      const user = await verifyToken(token);
-      socket.user = user;
       next();
     } catch (error) {
       console.error('Socket authentication error:', error);
-      socket.user = null;
-      next();
+      next(new Error('Authentication failed'));
     }
   });
 
@@ -30,7 +34,11 @@ function socketHandler(io) {
     // Join game room
     socket.on('join_game', async (data) => {
       try {
-        const { gameId, playerId } = data;
+        const { gameId } = data;
+        // Player identity comes from the handshake token, never from the payload
+        const playerId = socket.player && socket.player.game.toString() === gameId
+          ? socket.player._id.toString()
+          : null;
         
         if (!gameId) {
           socket.emit('error', { message: 'Game ID is required' });
@@ -44,11 +52,19 @@ function socketHandler(io) {
           return;
         }
 
+        const isGameMaster = socket.user &&
+          ['super_admin', 'admin', 'game_lead', 'game_master'].includes(socket.user.role) &&
+          (['super_admin', 'admin'].includes(socket.user.role) || game.createdBy.toString() === socket.user._id.toString());
+        if (!playerId && !isGameMaster) {
+          socket.emit('error', { message: 'Not allowed to join this game' });
+          return;
+        }
+
         // Join game room
         socket.join(`game_${gameId}`);
         socket.gameId = gameId;
 
-        // If player ID provided, update player's socket info
+        // If a player joined, update player's socket info
         if (playerId) {
           const player = await Player.findById(playerId);
           if (player && player.game.toString() === gameId) {
@@ -56,7 +72,15 @@ function socketHandler(io) {
             player.isOnline = true;
             await player.save();
             socket.playerId = playerId;
+
+            // Role room, e.g. game_<id>_hunters for location reveals
+            socket.join(`game_${gameId}_${player.role}s`);
+            joinChatRooms(socket, gameId, player);
           }
+        } else if (isGameMaster) {
+          // Game masters receive live locations
+          socket.join(`game_${gameId}_masters`);
+          socket.isGameMaster = true;
         }
 
         socket.emit('joined_game', { 
@@ -85,6 +109,9 @@ function socketHandler(io) {
         
         if (gameId) {
           socket.leave(`game_${gameId}`);
+          socket.leave(`game_${gameId}_masters`);
+          ['fugitive', 'hunter', 'spectator'].forEach(role => socket.leave(`game_${gameId}_${role}s`));
+          leaveChatRooms(socket, gameId);
           
           // Update player offline status
           if (socket.playerId) {
@@ -105,6 +132,7 @@ function socketHandler(io) {
 
         socket.gameId = null;
         socket.playerId = null;
+        socket.isGameMaster = false;
         
         socket.emit('left_game', { message: 'Left game room' });
       } catch (error) {
@@ -116,10 +144,13 @@ function socketHandler(io) {
     // Update player location
     socket.on('update_location', async (data) => {
       try {
-        const { playerId, latitude, longitude, accuracy, trigger = 'manual' } = data;
+        const { latitude, longitude, accuracy } = data;
+        const playerId = socket.player?._id;
+        // Surveillance, ATM and phone-call triggers are only ever set by the server
+        const trigger = data.trigger === 'automatic' ? 'automatic' : 'manual';
         
         if (!playerId || !latitude || !longitude) {
-          socket.emit('error', { message: 'Player ID and coordinates are required' });
+          socket.emit('error', { message: 'Player session and coordinates are required' });
           return;
         }
 
@@ -135,11 +166,11 @@ function socketHandler(io) {
           return;
         }
 
-        // Update location
-        await player.updateLocation(latitude, longitude, accuracy, trigger);
+        // Same as the REST route: reveal zones and escaping through the extraction point
+        await applyLocationUpdate(io, player, { latitude, longitude, accuracy, trigger });
 
-        // Emit location update to game room (for game masters and hunters)
-        socket.to(`game_${player.game._id}`).emit('location_updated', {
+        // Live locations go to game masters only; hunters get periodic reveals
+        socket.to(`game_${player.game._id}_masters`).emit('location_updated', {
           playerId: player._id,
           playerName: player.name,
           role: player.role,
@@ -150,7 +181,8 @@ function socketHandler(io) {
 
         socket.emit('location_update_success', {
           message: 'Location updated successfully',
-          location: player.currentLocation
+          location: player.currentLocation,
+          status: player.status
         });
 
       } catch (error) {
@@ -186,79 +218,37 @@ function socketHandler(io) {
         switch (action) {
           case 'start_game':
             if (game.status === 'setup' || game.status === 'waiting') {
-              game.status = 'active';
-              game.startTime = new Date();
-              game.endTime = new Date(Date.now() + (game.duration * 60 * 1000));
-              await game.save();
-
-              // Update all players to active
-              await Player.updateMany(
-                { game: gameId, status: 'waiting' },
-                { status: 'active' }
-              );
-
-              io.to(`game_${gameId}`).emit('game_started', {
-                gameId,
-                startTime: game.startTime,
-                endTime: game.endTime,
-                message: 'Game has started!'
-              });
+              try {
+                await startGame(io, game);
+              } catch (error) {
+                if (!(error instanceof AppError)) throw error;
+                socket.emit('error', { message: error.message });
+              }
             }
             break;
 
           case 'end_game':
             if (game.status === 'active') {
-              game.status = 'completed';
-              game.results.gameEndReason = 'manual';
-              await game.save();
-
-              io.to(`game_${gameId}`).emit('game_ended', {
-                gameId,
-                reason: 'manual',
-                message: 'Game has been ended by game master'
-              });
+              await endGame(io, game);
             }
             break;
 
           case 'pause_game':
             if (game.status === 'active') {
-              game.status = 'paused';
-              await game.save();
-
-              io.to(`game_${gameId}`).emit('game_paused', {
-                gameId,
-                message: 'Game has been paused'
-              });
+              await pauseGame(io, game);
             }
             break;
 
           case 'resume_game':
             if (game.status === 'paused') {
-              game.status = 'active';
-              await game.save();
-
-              io.to(`game_${gameId}`).emit('game_resumed', {
-                gameId,
-                message: 'Game has been resumed'
-              });
+              await resumeGame(io, game);
             }
             break;
 
           case 'catch_player':
             if (targetPlayerId) {
-              const player = await Player.findById(targetPlayerId);
-              if (player && player.role === 'fugitive' && player.status === 'active') {
-                player.status = 'caught';
-                await player.save();
-
-                io.to(`game_${gameId}`).emit('player_caught', {
-                  playerId: targetPlayerId,
-                  playerName: player.name,
-                  location: player.currentLocation,
-                  caughtBy: socket.user.name,
-                  timestamp: new Date()
-                });
-              }
+              // Records the catch in the game results and emits player_caught
+              await recordCatch(io, game, targetPlayerId, { reportedBy: socket.user.name });
             }
             break;
 
@@ -272,50 +262,49 @@ function socketHandler(io) {
       }
     });
 
-    // Chat message
-    socket.on('chat_message', async (data) => {
+    // Chat message in one of the channels the sender may use. The sender is the player or
+    // game master the socket authenticated as, never anything in the payload.
+    socket.on('chat_message', async (data, callback) => {
+      const reply = typeof callback === 'function' ? callback : () => {};
+
       try {
-        const { gameId, message, playerId } = data;
-        
-        if (!gameId || !message) {
-          socket.emit('error', { message: 'Game ID and message are required' });
+        const { gameId, channel } = data || {};
+        const message = typeof data?.message === 'string' ? data.message.trim() : '';
+
+        if (!gameId || !channel || !message) {
+          reply({ ok: false, error: 'Game ID, channel and message are required' });
           return;
         }
 
-        let senderName = 'Anonymous';
-        let senderRole = 'spectator';
+        if (message.length > 500) {
+          reply({ ok: false, error: 'Message must be at most 500 characters' });
+          return;
+        }
 
-        // Get sender info
-        if (playerId) {
-          const player = await Player.findById(playerId);
-          if (player) {
-            senderName = player.name;
-            senderRole = player.role;
-          }
-        } else if (socket.user) {
-          senderName = socket.user.name;
-          senderRole = socket.user.role;
+        // Only in the game this socket joined
+        if (socket.gameId !== gameId || (!socket.playerId && !socket.isGameMaster)) {
+          reply({ ok: false, error: 'Join the game before chatting' });
+          return;
         }
 
-        const chatMessage = {
-          id: socket.id + '_' + Date.now(),
-          gameId,
-          message: message.trim(),
-          sender: {
-            name: senderName,
-            role: senderRole,
-            playerId: playerId || null,
-            userId: socket.user?._id || null
-          },
-          timestamp: new Date()
-        };
+        const game = await Game.findById(gameId);
+        if (!game) {
+          reply({ ok: false, error: 'Game not found' });
+          return;
+        }
 
-        // Broadcast to game room
-        io.to(`game_${gameId}`).emit('chat_message', chatMessage);
+        const player = socket.playerId ? await Player.findById(socket.playerId) : null;
+        const chatMessage = await sendChatMessage(io, game, { player, user: socket.user }, channel, message);
 
+        reply({ ok: true, message: chatMessage });
       } catch (error) {
+        if (error instanceof AppError) {
+          reply({ ok: false, error: error.message, code: error.code });
+          return;
+        }
+
         console.error('Chat message error:', error);
-        socket.emit('error', { message: 'Failed to send message' });
+        reply({ ok: false, error: 'Failed to send message' });
       }
     });
 
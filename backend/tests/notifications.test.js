@@ -0,0 +1,71 @@
+const webpush = require('web-push');
+
+// Push is only on with VAPID keys, which the service reads when it loads
+const vapidKeys = webpush.generateVAPIDKeys();
+process.env.VAPID_PUBLIC_KEY = vapidKeys.publicKey;
+process.env.VAPID_PRIVATE_KEY = vapidKeys.privateKey;
+
+const Game = require('../models/Game');
+const Player = require('../models/Player');
+const PushSubscription = require('../models/PushSubscription');
+const { notifyGame, notifyPlayer } = require('../services/notificationService');
+const { sendGameMessage } = require('../services/messageService');
+
+// Tapping a notification opens its url; the game page is reached by the game code, as
+// JoinGamePage links to it. The database and push service are replaced by mocks.
+
+let game;
+let player;
+let sent;
+
+beforeEach(() => {
+  game = new Game({ name: 'Test game', gameCode: 'ABC123', status: 'active', duration: 120 });
+  player = new Player({ name: 'Fugitive', game: game._id, role: 'fugitive', status: 'active' });
+
+  jest.spyOn(Player, 'find').mockReturnValue({ select: () => Promise.resolve([player]) });
+  jest.spyOn(PushSubscription, 'find').mockResolvedValue([{ endpoint: 'https://push.example/1', keys: {} }]);
+  jest.spyOn(Game, 'findById').mockReturnValue({ select: () => Promise.resolve(game) });
+  jest.spyOn(Game.prototype, 'save').mockResolvedValue();
+
+  sent = [];
+  jest.spyOn(webpush, 'sendNotification').mockImplementation((subscription, payload) => {
+    sent.push(JSON.parse(payload));
+    return Promise.resolve();
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('notification links', () => {
+  test('a game notification opens the game by its code', async () => {
+    await notifyGame(game, { title: 'Game started', body: 'Run!', tag: 'game' });
+
+    expect(sent).toEqual([expect.objectContaining({ url: '/game/ABC123' })]);
+  });
+
+  test('a player notification looks up the code of their game', async () => {
+    await notifyPlayer(player, { title: 'Extraction', body: 'Head out', tag: 'extraction' });
+
+    expect(Game.findById).toHaveBeenCalledWith(game._id);
+    expect(sent).toEqual([expect.objectContaining({ url: '/game/ABC123' })]);
+  });
+
+  test('a player notification uses the code of their populated game', async () => {
+    player.game = game;
+
+    await notifyPlayer(player, { title: 'Extraction', body: 'Head out', tag: 'extraction' });
+
+    expect(Game.findById).not.toHaveBeenCalled();
+    expect(sent).toEqual([expect.objectContaining({ url: '/game/ABC123' })]);
+  });
+
+  test('a game master message opens the game by its code', async () => {
+    await sendGameMessage(null, game, { text: 'Stay inside the zone', sender: 'Game master' });
+    // The push is sent without waiting for it
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(sent).toEqual([expect.objectContaining({ url: '/game/ABC123' })]);
+  });
+});
@@ -6,6 +6,7 @@ import LoginPage from './pages/LoginPage';
 import AdminDashboard from './pages/AdminDashboard';
 import UserManagement from './pages/UserManagement';
 import GamePage from './pages/GamePage';
+import TaskPage from './pages/TaskPage';
 import ManagePlayersPage from './pages/ManagePlayersPage';
 import './App.css';
 
@@ -20,6 +21,7 @@ function App() {
           <Route path="/admin" element={<AdminDashboard />} />
           <Route path="/user-management" element={<UserManagement />} />
           <Route path="/game/:gameId" element={<GamePage />} />
+          <Route path="/task/:gameId/:taskNumber" element={<TaskPage />} />
           <Route path="/manage-players/:gameId" element={<ManagePlayersPage />} />
           <Route path="*" element={<Navigate to="/" />} />
         </Routes>
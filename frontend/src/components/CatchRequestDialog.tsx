@@ -0,0 +1,74 @@
+import React, { useId, useState } from 'react';
+import Dialog from './Dialog';
+import { CatchRequestInfo } from '../services/realtime';
+
+interface CatchRequestDialogProps {
+  request: CatchRequestInfo;
+  // Send the fugitive's answer; the dialog stays open when it throws
+  onAnswer: (confirmed: boolean, reason?: string) => Promise<void>;
+}
+
+// A hunter says they caught this fugitive: confirm, or dispute for the game master to decide.
+// There is no closing it without an answer; unanswered catches are confirmed when they expire.
+const CatchRequestDialog: React.FC<CatchRequestDialogProps> = ({ request, onAnswer }) => {
+  const reasonId = useId();
+  const [disputing, setDisputing] = useState(false);
+  const [reason, setReason] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState('');
+
+  const answer = async (confirmed: boolean) => {
+    setSending(true);
+    setError('');
+    try {
+      await onAnswer(confirmed, confirmed ? undefined : reason.trim() || undefined);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to answer the catch');
+      setSending(false);
+    }
+  };
+
+  const handleDispute = (e: React.FormEvent) => {
+    e.preventDefault();
+    answer(false);
+  };
+
+  return (
+    <Dialog title="🚨 WERE YOU CAUGHT?" busy={sending}>
+      <p>{request.hunterName} says they caught you.</p>
+
+      {disputing ? (
+        <form className="task-answer-form" onSubmit={handleDispute}>
+          <label htmlFor={reasonId}>Why do you dispute this catch? (shown to the game master, optional)</label>
+          <textarea
+            id={reasonId}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={200}
+            rows={3}
+            className="form-control"
+          />
+          <button type="submit" className="action-btn danger" disabled={sending}>
+            {sending ? '⏳ SENDING...' : '⚖️ SEND DISPUTE'}
+          </button>
+          <button type="button" className="action-btn secondary" onClick={() => setDisputing(false)} disabled={sending}>
+            BACK
+          </button>
+        </form>
+      ) : (
+        <>
+          <button className="action-btn primary" onClick={() => answer(true)} disabled={sending}>
+            {sending ? '⏳ SENDING...' : '✅ YES, I WAS CAUGHT'}
+          </button>
+          <button className="action-btn secondary" onClick={() => setDisputing(true)} disabled={sending}>
+            ⚖️ NO, DISPUTE IT
+          </button>
+        </>
+      )}
+
+      {error && <div className="task-feedback error" role="alert">{error}</div>}
+    </Dialog>
+  );
+};
+
+export default CatchRequestDialog;
@@ -0,0 +1,68 @@
+import React, { useEffect, useId, useRef } from 'react';
+
+interface DialogProps {
+  title: React.ReactNode;
+  // Escape closes the dialog when set; without it the player must pick one of its actions
+  onClose?: () => void;
+  // Escape is ignored while something is being sent
+  busy?: boolean;
+  children: React.ReactNode;
+}
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), textarea:not([disabled]), select:not([disabled]), audio[controls], video[controls], [tabindex]:not([tabindex="-1"])';
+
+// A modal dialog over the game page: focus moves to its title when it opens and back to
+// whatever opened it when it closes, and Tab stays inside it
+const Dialog: React.FC<DialogProps> = ({ title, onClose, busy = false, children }) => {
+  const titleId = useId();
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const titleRef = useRef<HTMLHeadingElement>(null);
+
+  useEffect(() => {
+    const opener = document.activeElement as HTMLElement | null;
+    titleRef.current?.focus();
+    return () => opener?.focus();
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' && onClose && !busy) {
+      e.stopPropagation();
+      onClose();
+      return;
+    }
+
+    // Keep Tab inside the dialog
+    if (e.key === 'Tab' && dialogRef.current) {
+      const focusable = Array.from(dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE));
+      if (focusable.length === 0) return;
+
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      if (e.shiftKey && (document.activeElement === first || document.activeElement === titleRef.current)) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    }
+  };
+
+  return (
+    <div className="task-sheet-overlay">
+      <div
+        ref={dialogRef}
+        className="task-sheet dialog"
+        role="dialog"
+        aria-modal={true}
+        aria-labelledby={titleId}
+        onKeyDown={handleKeyDown}
+      >
+        <h2 id={titleId} ref={titleRef} tabIndex={-1}>{title}</h2>
+        {children}
+      </div>
+    </div>
+  );
+};
+
+export default Dialog;
@@ -0,0 +1,298 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import MapSelector from './MapSelector';
+import { API_ENDPOINTS } from '../config/api';
+
+interface ExtractionPoint {
+  _id: string;
+  latitude: number;
+  longitude: number;
+  address?: string;
+  radius: number;
+  decoy: boolean;
+  opensAfterMinutes?: number;
+  closesAfterMinutes?: number;
+}
+
+interface ExtractionFugitive {
+  id: string;
+  name: string;
+  team?: string;
+  status: string;
+  extractionPointId: string | null;
+}
+
+const describePlayingWindow = (point: ExtractionPoint) =>
+  point.opensAfterMinutes !== undefined || point.closesAfterMinutes !== undefined
+    ? `open ${point.opensAfterMinutes !== undefined ? `from minute ${point.opensAfterMinutes}` : 'from the start'}` +
+      `${point.closesAfterMinutes !== undefined ? ` until minute ${point.closesAfterMinutes}` : ''}`
+    : 'open all game';
+
+// Other Extraction Points, Decoys & Assignments Component
+const ExtractionPointsManager: React.FC<{ gameId: string; editable: boolean }> = ({ gameId, editable }) => {
+  const [mainPoint, setMainPoint] = useState<{ address?: string } | null>(null);
+  const [points, setPoints] = useState<ExtractionPoint[]>([]);
+  const [fugitives, setFugitives] = useState<ExtractionFugitive[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showMap, setShowMap] = useState(false);
+  const [newPoint, setNewPoint] = useState({
+    address: '',
+    radius: 50,
+    decoy: false,
+    opensAfterMinutes: '',
+    closesAfterMinutes: ''
+  });
+
+  const fetchPoints = useCallback(async () => {
+    try {
+      const response = await fetch(API_ENDPOINTS.GAME_EXTRACTION_POINTS(gameId), {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        }
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setMainPoint(data.extractionPoint);
+        setPoints(data.extractionPoints || []);
+        setFugitives(data.fugitives || []);
+      } else {
+        setError('Failed to load extraction points');
+      }
+    } catch (err) {
+      setError('Error loading extraction points');
+    } finally {
+      setLoading(false);
+    }
+  }, [gameId]);
+
+  useEffect(() => {
+    if (gameId) {
+      fetchPoints();
+    }
+  }, [gameId, fetchPoints]);
+
+  const addPoint = async (location: { lat: number; lng: number; address: string }) => {
+    setShowMap(false);
+    try {
+      const response = await fetch(API_ENDPOINTS.GAME_EXTRACTION_POINTS(gameId), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        },
+        body: JSON.stringify({
+          points: [{
+            latitude: location.lat,
+            longitude: location.lng,
+            address: newPoint.address || location.address,
+            radius: newPoint.radius,
+            decoy: newPoint.decoy,
+            opensAfterMinutes: newPoint.opensAfterMinutes === '' ? undefined : parseInt(newPoint.opensAfterMinutes),
+            closesAfterMinutes: newPoint.closesAfterMinutes === '' ? undefined : parseInt(newPoint.closesAfterMinutes)
+          }]
+        }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setPoints(data.extractionPoints || []);
+        setNewPoint(prev => ({ ...prev, address: '' }));
+      } else {
+        alert(`Failed to add extraction point: ${data.details?.[0]?.msg || data.error || 'Unknown error'}`);
+      }
+    } catch (err) {
+      console.error('Error adding extraction point:', err);
+      alert('Network error. Please try again.');
+    }
+  };
+
+  const deletePoint = async (pointId: string) => {
+    if (!window.confirm('Remove this extraction point? Fugitives sent there go back to the main extraction point.')) return;
+
+    try {
+      const response = await fetch(API_ENDPOINTS.GAME_DELETE_EXTRACTION_POINT(gameId, pointId), {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        },
+      });
+
+      if (response.ok) {
+        fetchPoints();
+      } else {
+        const data = await response.json();
+        alert(`Failed to remove extraction point: ${data.error || 'Unknown error'}`);
+      }
+    } catch (err) {
+      console.error('Error removing extraction point:', err);
+      alert('Network error. Please try again.');
+    }
+  };
+
+  const assignPoint = async (playerId: string, extractionPointId: string) => {
+    try {
+      const response = await fetch(API_ENDPOINTS.GAME_ASSIGN_EXTRACTION_POINT(gameId, playerId), {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        },
+        body: JSON.stringify({ extractionPointId: extractionPointId || null }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        // Teammates may have moved along
+        const moved = new Map<string, string | null>(
+          data.fugitives.map((fugitive: ExtractionFugitive) => [fugitive.id, fugitive.extractionPointId])
+        );
+        setFugitives(prev => prev.map(fugitive => moved.has(fugitive.id)
+          ? { ...fugitive, extractionPointId: moved.get(fugitive.id) ?? null }
+          : fugitive));
+      } else {
+        alert(`Failed to assign extraction point: ${data.error || 'Unknown error'}`);
+      }
+    } catch (err) {
+      console.error('Error assigning extraction point:', err);
+      alert('Network error. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div style={{ textAlign: 'center', padding: '2rem' }}>
+        <div>Loading extraction points...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div style={{ textAlign: 'center', padding: '2rem', color: '#ff6b6b' }}>
+        <div>{error}</div>
+      </div>
+    );
+  }
+
+  const realPoints = points.filter(point => !point.decoy);
+
+  return (
+    <div className="reveal-zones">
+      <div className="reveal-zones-list">
+        <div className="reveal-zone-item">
+          <div className="reveal-zone-info">
+            <strong>🚁 MAIN EXTRACTION POINT</strong>
+            <span>{mainPoint?.address || 'Set when the game was created'}</span>
+          </div>
+        </div>
+        {points.map((point) => (
+          <div key={point._id} className="reveal-zone-item">
+            <div className="reveal-zone-info">
+              <strong>{point.decoy ? '🎭 DECOY' : '🚁 EXTRACTION POINT'}</strong>
+              <span>{point.address || `${point.latitude.toFixed(5)}, ${point.longitude.toFixed(5)}`}</span>
+              <small>{point.radius}m radius · {describePlayingWindow(point)}</small>
+            </div>
+            {editable && (
+              <button
+                className="btn-enhanced btn-danger-enhanced"
+                onClick={() => deletePoint(point._id)}
+                style={{ fontSize: '0.8rem', padding: '0.3rem 0.6rem' }}
+              >
+                🗑️ REMOVE
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {editable && (
+        <div className="extraction-point-form">
+          <input
+            type="text"
+            value={newPoint.address}
+            onChange={(e) => setNewPoint(prev => ({ ...prev, address: e.target.value }))}
+            placeholder="Name or address (optional)"
+            className="form-control"
+          />
+          <input
+            type="number"
+            min="5"
+            max="500"
+            value={newPoint.radius}
+            onChange={(e) => setNewPoint(prev => ({ ...prev, radius: parseInt(e.target.value) || 50 }))}
+            className="form-control"
+            title="Radius in meters"
+          />
+          <input
+            type="number"
+            min="0"
+            max="480"
+            value={newPoint.opensAfterMinutes}
+            onChange={(e) => setNewPoint(prev => ({ ...prev, opensAfterMinutes: e.target.value }))}
+            placeholder="Opens at minute"
+            className="form-control"
+            title="Minutes of play before it opens (empty: from the start)"
+          />
+          <input
+            type="number"
+            min="1"
+            max="480"
+            value={newPoint.closesAfterMinutes}
+            onChange={(e) => setNewPoint(prev => ({ ...prev, closesAfterMinutes: e.target.value }))}
+            placeholder="Closes at minute"
+            className="form-control"
+            title="Minutes of play before it closes (empty: until the end)"
+          />
+          <label>
+            <input
+              type="checkbox"
+              checked={newPoint.decoy}
+              onChange={(e) => setNewPoint(prev => ({ ...prev, decoy: e.target.checked }))}
+            />
+            {' '}Decoy
+          </label>
+          <button
+            className="btn-enhanced btn-primary-enhanced"
+            onClick={() => setShowMap(true)}
+          >
+            📍 PLACE ON MAP
+          </button>
+        </div>
+      )}
+
+      {fugitives.length > 0 && realPoints.length > 0 && (
+        <div className="extraction-assignments">
+          <h5>WHO ESCAPES WHERE</h5>
+          {fugitives.map(fugitive => (
+            <label key={fugitive.id} className="extraction-assignment">
+              <span>🏃 {fugitive.name}{fugitive.team ? ` (${fugitive.team})` : ''}</span>
+              <select
+                value={fugitive.extractionPointId || ''}
+                onChange={(e) => assignPoint(fugitive.id, e.target.value)}
+                disabled={!editable}
+                className="form-control"
+              >
+                <option value="">{mainPoint?.address || 'Main extraction point'}</option>
+                {realPoints.map(point => (
+                  <option key={point._id} value={point._id}>
+                    {point.address || `${point.latitude.toFixed(5)}, ${point.longitude.toFixed(5)}`}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {showMap && (
+        <MapSelector
+          onLocationSelect={addPoint}
+          onClose={() => setShowMap(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ExtractionPointsManager;
@@ -0,0 +1,196 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { API_ENDPOINTS, playerHeaders } from '../config/api';
+import { ChatChannel, ChatMessage, useGameEvents, sendChatMessage } from '../services/realtime';
+
+interface GameChatProps {
+  gameId: string;
+  // The player chatting; game masters leave it out and see every channel
+  playerId?: string;
+  onMutePlayer?: (playerId: string, name: string) => void;
+}
+
+// Chat in the channels the viewer may use: their role, their team and their thread with the game masters.
+// Keep it mounted for as long as the page is, it shares the page's game room.
+const GameChat: React.FC<GameChatProps> = ({ gameId, playerId, onMutePlayer }) => {
+  const [channels, setChannels] = useState<ChatChannel[]>([]);
+  const [channel, setChannel] = useState('');
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [muted, setMuted] = useState(false);
+  const [text, setText] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState('');
+
+  const isGameMaster = !playerId;
+
+  // A page of history, newest first from the server; shown oldest first
+  const fetchPage = useCallback(async (selected: string, before?: string) => {
+    const params = new URLSearchParams();
+    if (selected) params.set('channel', selected);
+    if (before) params.set('before', before);
+
+    const url = isGameMaster ? API_ENDPOINTS.GAME_CHAT(gameId) : API_ENDPOINTS.PLAYER_CHAT(playerId!);
+    const response = await fetch(`${url}?${params}`, {
+      headers: isGameMaster
+        ? { 'Authorization': `Bearer ${localStorage.getItem('token')}` }
+        : playerHeaders(false)
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load the chat');
+    }
+    return data;
+  }, [gameId, playerId, isGameMaster]);
+
+  const loadChannel = useCallback(async (selected: string) => {
+    try {
+      const data = await fetchPage(selected);
+      setChannels(data.channels);
+      setChannel(data.channel);
+      setMessages([...data.messages].reverse());
+      setHasMore(data.hasMore);
+      setMuted(Boolean(data.muted));
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error loading the chat');
+    }
+  }, [fetchPage]);
+
+  useEffect(() => {
+    loadChannel('');
+  }, [loadChannel]);
+
+  const loadOlder = async () => {
+    if (messages.length === 0) return;
+
+    try {
+      const data = await fetchPage(channel, messages[0].id);
+      setMessages(prev => [...[...data.messages].reverse(), ...prev]);
+      setHasMore(data.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error loading older messages');
+    }
+  };
+
+  useGameEvents([gameId], {
+    chat_message: (data) => {
+      if (data.channel !== channel) return;
+      setMessages(prev => prev.some(message => message.id === data.id) ? prev : [...prev, data]);
+    },
+    chat_message_deleted: (data) => {
+      setMessages(prev => prev.filter(message => message.id !== data.messageId));
+    },
+    chat_muted: (data) => setMuted(data.muted)
+  }, { playerId: playerId ?? null, onResync: () => loadChannel(channel) });
+
+  const handleSend = async () => {
+    const message = text.trim();
+    if (!message || !channel) return;
+
+    setSending(true);
+    const result = await sendChatMessage(gameId, channel, message);
+    setSending(false);
+
+    if (result.ok) {
+      setText('');
+      setMessages(prev => prev.some(m => m.id === result.message.id) ? prev : [...prev, result.message]);
+    } else {
+      if (result.code === 'CHAT_MUTED') setMuted(true);
+      alert(result.error);
+    }
+  };
+
+  const handleDelete = async (message: ChatMessage) => {
+    if (!window.confirm(`Delete this message from ${message.sender.name}?`)) return;
+
+    try {
+      const response = await fetch(API_ENDPOINTS.GAME_DELETE_CHAT_MESSAGE(gameId, message.id), {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        }
+      });
+
+      if (response.ok) {
+        setMessages(prev => prev.filter(m => m.id !== message.id));
+      } else {
+        const data = await response.json();
+        alert(`Failed to delete: ${data.error || 'Unknown error'}`);
+      }
+    } catch (err) {
+      console.error('Error deleting chat message:', err);
+      alert('Network error. Please try again.');
+    }
+  };
+
+  return (
+    <div className="game-chat">
+      <div className="chat-channels">
+        {isGameMaster ? (
+          <select value={channel} onChange={(e) => loadChannel(e.target.value)} className="form-control">
+            {channels.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+          </select>
+        ) : (
+          channels.map(option => (
+            <button
+              key={option.id}
+              className={`chat-channel ${option.id === channel ? 'active' : ''}`}
+              onClick={() => loadChannel(option.id)}
+            >
+              {option.name}
+            </button>
+          ))
+        )}
+      </div>
+
+      {error && <div className="lobby-check-error">{error}</div>}
+
+      <div className="chat-messages">
+        {hasMore && (
+          <button className="chat-load-older" onClick={loadOlder}>
+            LOAD OLDER MESSAGES
+          </button>
+        )}
+        {messages.length === 0 && <div className="chat-empty">No messages yet</div>}
+        {messages.map(message => (
+          <div key={message.id} className={`chat-message ${message.sender.playerId === playerId ? 'own' : ''}`}>
+            <div className="chat-message-meta">
+              {message.sender.role === 'game_master' ? '🎩' : ''} {message.sender.name} · {new Date(message.timestamp).toLocaleTimeString()}
+              {isGameMaster && (
+                <span className="chat-message-actions">
+                  {message.sender.playerId && onMutePlayer && (
+                    <button onClick={() => onMutePlayer(message.sender.playerId!, message.sender.name)} title="Mute this player">🔇</button>
+                  )}
+                  <button onClick={() => handleDelete(message)} title="Delete this message">🗑️</button>
+                </span>
+              )}
+            </div>
+            <div>{message.message}</div>
+          </div>
+        ))}
+      </div>
+
+      {muted ? (
+        <div className="chat-muted">🔇 A game master muted you. You can still read the chat.</div>
+      ) : (
+        <div className="chat-input">
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+            placeholder="Message"
+            maxLength={500}
+            className="form-control"
+          />
+          <button className="action-btn primary" onClick={handleSend} disabled={sending || !text.trim()}>
+            {sending ? '⏳' : 'SEND'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GameChat;
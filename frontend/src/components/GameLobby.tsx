@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { ReceivedClock, getClockStartsInMs, formatClockTime } from '../services/realtime';
+
+export interface LobbyPlayer {
+  id: string;
+  name: string;
+  role: string;
+  team?: string;
+  isOnline: boolean;
+}
+
+interface GameLobbyProps {
+  players: LobbyPlayer[];
+  clock: ReceivedClock | null;
+  currentPlayerId?: string;
+  currentPlayerRole?: string;
+}
+
+type CheckState = 'unchecked' | 'checking' | 'ok' | 'failed';
+
+const CHECK_LABELS: Record<CheckState, string> = {
+  unchecked: '⬜ NOT CHECKED',
+  checking: '⏳ CHECKING...',
+  ok: '✅ READY',
+  failed: '❌ BLOCKED'
+};
+
+const ROLE_ICONS: Record<string, string> = {
+  fugitive: '🏃',
+  hunter: '🕵️',
+  spectator: '👀'
+};
+
+// Waiting room before the game starts: countdown to the scheduled start, who has joined,
+// and a check that the phone lets the game use its location and camera
+const GameLobby: React.FC<GameLobbyProps> = ({ players, clock, currentPlayerId, currentPlayerRole }) => {
+  const [locationCheck, setLocationCheck] = useState<CheckState>('unchecked');
+  const [cameraCheck, setCameraCheck] = useState<CheckState>('unchecked');
+  const [checkError, setCheckError] = useState('');
+
+  // Fugitives scan task codes and hunters scan badges; spectators only watch
+  const needsCamera = currentPlayerRole === 'fugitive' || currentPlayerRole === 'hunter';
+
+  const checkLocation = () => {
+    if (!navigator.geolocation) {
+      setLocationCheck('failed');
+      setCheckError('This browser cannot share its location.');
+      return;
+    }
+
+    setLocationCheck('checking');
+    navigator.geolocation.getCurrentPosition(
+      () => setLocationCheck('ok'),
+      () => {
+        setLocationCheck('failed');
+        setCheckError('Location access was denied. Allow it in your browser settings, the game needs it.');
+      },
+      { enableHighAccuracy: true, timeout: 15000 }
+    );
+  };
+
+  const checkCamera = async () => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setCameraCheck('failed');
+      setCheckError('Camera access requires HTTPS and a browser that supports it.');
+      return;
+    }
+
+    setCameraCheck('checking');
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      stream.getTracks().forEach(track => track.stop());
+      setCameraCheck('ok');
+    } catch (err) {
+      setCameraCheck('failed');
+      setCheckError('Camera access was denied. Allow it in your browser settings to scan QR codes.');
+    }
+  };
+
+  const startsIn = getClockStartsInMs(clock);
+  const ready = locationCheck === 'ok' && (!needsCamera || cameraCheck === 'ok');
+
+  return (
+    <div className="game-lobby">
+      <div className="lobby-countdown">
+        {startsIn === null ? (
+          <>
+            <div className="lobby-countdown-label">WAITING FOR THE GAME MASTER</div>
+            <div className="lobby-countdown-note">The game starts when the game master is ready.</div>
+          </>
+        ) : startsIn > 0 ? (
+          <>
+            <div className="lobby-countdown-label">GAME STARTS IN</div>
+            <div className="lobby-countdown-time">{formatClockTime(startsIn)}</div>
+            <div className="lobby-countdown-note">
+              at {new Date(clock!.scheduledStartTime!).toLocaleTimeString()}
+            </div>
+          </>
+        ) : (
+          <div className="lobby-countdown-label">🚦 STARTING...</div>
+        )}
+      </div>
+
+      <div className="lobby-section">
+        <h4>READY CHECK {ready && '✅'}</h4>
+        <div className="lobby-check">
+          <span>📍 Location</span>
+          <button className="action-btn secondary" onClick={checkLocation} disabled={locationCheck === 'checking'}>
+            {CHECK_LABELS[locationCheck]}
+          </button>
+        </div>
+        {needsCamera && (
+          <div className="lobby-check">
+            <span>📷 Camera</span>
+            <button className="action-btn secondary" onClick={checkCamera} disabled={cameraCheck === 'checking'}>
+              {CHECK_LABELS[cameraCheck]}
+            </button>
+          </div>
+        )}
+        {checkError && !ready && <div className="lobby-check-error">{checkError}</div>}
+      </div>
+
+      <div className="lobby-section">
+        <h4>PLAYERS ({players.length})</h4>
+        <div className="lobby-players">
+          {players.map(player => (
+            <div key={player.id} className={`lobby-player ${player.isOnline ? 'online' : ''}`}>
+              <span>{ROLE_ICONS[player.role] || '👤'} {player.name}{player.id === currentPlayerId && ' (you)'}</span>
+              <span className="lobby-player-role">
+                {player.team ? `${player.team} · ` : ''}{player.role.toUpperCase()}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GameLobby;
@@ -70,6 +70,9 @@ const GameMap: React.FC<GameMapProps> = ({ game }) => {
     details: string;
   }> = [];
 
+  // The last task is the extraction point
+  const taskCount: number = game.settings?.taskCount || 6;
+
   // Add mission locations
   if (game.tasks) {
     game.tasks.forEach((task: any) => {
@@ -77,8 +80,8 @@ const GameMap: React.FC<GameMapProps> = ({ game }) => {
         allLocations.push({
           lat: task.location.latitude,
           lng: task.location.longitude,
-          title: task.taskNumber === 6 ? 'Extraction Point' : `Mission ${task.taskNumber}`,
-          type: task.taskNumber === 6 ? 'extraction' : 'mission',
+          title: task.taskNumber === taskCount ? 'Extraction Point' : `Mission ${task.taskNumber}`,
+          type: task.taskNumber === taskCount ? 'extraction' : 'mission',
           details: task.location.address || 'No address available'
         });
       }
@@ -89,7 +92,7 @@ const GameMap: React.FC<GameMapProps> = ({ game }) => {
   if (game.extractionPoint && 
       game.extractionPoint.latitude && 
       game.extractionPoint.longitude &&
-      !game.tasks?.find((t: any) => t.taskNumber === 6)) {
+      !game.tasks?.find((t: any) => t.taskNumber === taskCount)) {
     allLocations.push({
       lat: game.extractionPoint.latitude,
       lng: game.extractionPoint.longitude,
@@ -110,7 +113,7 @@ const GameMap: React.FC<GameMapProps> = ({ game }) => {
           type: player.role === 'fugitive' ? 'fugitive' : 
                 player.role === 'hunter' ? 'hunter' : 'spectator',
           details: player.currentLocation.address || 
-                  `Tasks: ${player.completedTasks?.length || player.gameStats?.tasksCompleted || player.tasksCompleted || 0}/6`
+                  `Tasks: ${player.completedTasks?.length || player.gameStats?.tasksCompleted || player.tasksCompleted || 0}/${taskCount}`
         });
       }
     });
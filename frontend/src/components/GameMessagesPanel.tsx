@@ -0,0 +1,220 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { API_ENDPOINTS } from '../config/api';
+import { useGameEvents } from '../services/realtime';
+
+type MessageScope = 'all' | 'role' | 'team' | 'player';
+
+interface GameMessageEntry {
+  id: string;
+  type: 'broadcast' | 'timer_warning';
+  text: string;
+  sender: string;
+  timestamp: string;
+  audience: { scope: MessageScope; role?: string; team?: string; player?: string };
+  recipients: number;
+  readBy: { player: string; readAt: string }[];
+}
+
+interface MessagePlayer {
+  _id: string;
+  name: string;
+  role: string;
+  team?: string;
+}
+
+// Messages from the game masters to everyone, a role, a team or one player, and who has read them
+const GameMessagesPanel: React.FC<{ gameId: string }> = ({ gameId }) => {
+  const [messages, setMessages] = useState<GameMessageEntry[]>([]);
+  const [players, setPlayers] = useState<MessagePlayer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [text, setText] = useState('');
+  const [scope, setScope] = useState<MessageScope>('all');
+  const [target, setTarget] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const fetchMessages = useCallback(async () => {
+    try {
+      const response = await fetch(API_ENDPOINTS.GAME_MESSAGES(gameId), {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        }
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setMessages(data.messages || []);
+        setError('');
+      } else {
+        setError('Failed to load messages');
+      }
+    } catch (err) {
+      setError('Error loading messages');
+    } finally {
+      setLoading(false);
+    }
+  }, [gameId]);
+
+  // Players to pick a team or a single player from
+  const fetchPlayers = useCallback(async () => {
+    try {
+      const response = await fetch(API_ENDPOINTS.PLAYER_BY_GAME(gameId), {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        }
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setPlayers(data.players || []);
+      }
+    } catch (err) {
+      console.warn('Could not load players for messages');
+    }
+  }, [gameId]);
+
+  useEffect(() => {
+    fetchMessages();
+    fetchPlayers();
+  }, [fetchMessages, fetchPlayers]);
+
+  useGameEvents([gameId], {
+    messages_read: () => fetchMessages(),
+    timer_warning: () => fetchMessages(),
+    player_joined: () => fetchPlayers()
+  }, { playerId: null, onResync: fetchMessages });
+
+  const teams = Array.from(new Set(players.map(player => player.team).filter(Boolean))) as string[];
+  const playerNames = new Map(players.map(player => [player._id, player.name]));
+
+  const describeAudience = (audience: GameMessageEntry['audience']) => {
+    switch (audience.scope) {
+      case 'role':
+        return `${audience.role}s`;
+      case 'team':
+        return `team ${audience.team}`;
+      case 'player':
+        return playerNames.get(audience.player || '') || 'one player';
+      default:
+        return 'everyone';
+    }
+  };
+
+  const sendMessage = async () => {
+    if (!text.trim()) return;
+    if (scope !== 'all' && !target) {
+      alert('Choose who the message is for');
+      return;
+    }
+
+    setSending(true);
+    try {
+      const response = await fetch(API_ENDPOINTS.GAME_MESSAGE(gameId), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        },
+        body: JSON.stringify({
+          message: text.trim(),
+          audience: { scope, ...(scope !== 'all' && { [scope]: target }) }
+        }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setText('');
+        fetchMessages();
+      } else {
+        alert(`Failed to send: ${data.error || 'Unknown error'}`);
+      }
+    } catch (err) {
+      console.error('Error sending message:', err);
+      alert('Network error. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="reveal-zone-form">
+        <select
+          value={scope}
+          onChange={(e) => {
+            setScope(e.target.value as MessageScope);
+            setTarget('');
+          }}
+          className="form-control"
+        >
+          <option value="all">📢 Everyone</option>
+          <option value="role">🎭 One role</option>
+          {teams.length > 0 && <option value="team">👥 One team</option>}
+          <option value="player">👤 One player</option>
+        </select>
+        {scope === 'role' && (
+          <select value={target} onChange={(e) => setTarget(e.target.value)} className="form-control">
+            <option value="">Choose a role</option>
+            <option value="fugitive">🏃 Fugitives</option>
+            <option value="hunter">🕵️ Hunters</option>
+            <option value="spectator">👀 Spectators</option>
+          </select>
+        )}
+        {scope === 'team' && (
+          <select value={target} onChange={(e) => setTarget(e.target.value)} className="form-control">
+            <option value="">Choose a team</option>
+            {teams.map(team => <option key={team} value={team}>{team}</option>)}
+          </select>
+        )}
+        {scope === 'player' && (
+          <select value={target} onChange={(e) => setTarget(e.target.value)} className="form-control">
+            <option value="">Choose a player</option>
+            {players.map(player => (
+              <option key={player._id} value={player._id}>{player.name} ({player.role})</option>
+            ))}
+          </select>
+        )}
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Message to the players"
+        maxLength={500}
+        rows={2}
+        className="form-control"
+      />
+      <button
+        className="btn-enhanced btn-primary-enhanced"
+        onClick={sendMessage}
+        disabled={sending || !text.trim()}
+        style={{ marginTop: '0.5rem' }}
+      >
+        {sending ? '⏳ SENDING...' : '📨 SEND MESSAGE'}
+      </button>
+
+      {loading ? (
+        <div style={{ textAlign: 'center', padding: '2rem' }}>
+          <div>Loading messages...</div>
+        </div>
+      ) : error ? (
+        <div style={{ textAlign: 'center', padding: '2rem', color: '#ff6b6b' }}>
+          <div>{error}</div>
+        </div>
+      ) : (
+        <div className="task-progress-list">
+          {messages.map(message => (
+            <div key={message.id} className="catch-request-item">
+              <strong>{message.type === 'timer_warning' ? '⏰' : '📢'} {message.text}</strong>
+              <span>
+                {new Date(message.timestamp).toLocaleTimeString()} · {message.sender} → {describeAudience(message.audience)}
+              </span>
+              <small>Read by {message.readBy.length}/{message.recipients}</small>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GameMessagesPanel;
@@ -0,0 +1,25 @@
+import React from 'react';
+import Dialog from './Dialog';
+
+interface HintTaskPickerProps {
+  taskNumbers: number[];
+  onPick: (taskNumber: number) => void;
+  onClose: () => void;
+}
+
+// When a fugitive's route offers a choice, the hint is for the task they are heading to
+const HintTaskPicker: React.FC<HintTaskPickerProps> = ({ taskNumbers, onPick, onClose }) => (
+  <Dialog title="📞 WHICH MISSION?" onClose={onClose}>
+    <p>Pick the mission you want a hint for.</p>
+    {taskNumbers.map(taskNumber => (
+      <button key={taskNumber} className="action-btn primary" onClick={() => onPick(taskNumber)}>
+        MISSION {taskNumber}
+      </button>
+    ))}
+    <button className="action-btn secondary" onClick={onClose}>
+      CANCEL
+    </button>
+  </Dialog>
+);
+
+export default HintTaskPicker;
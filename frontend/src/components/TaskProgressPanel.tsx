@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { API_ENDPOINTS } from '../config/api';
+import { useGameEvents } from '../services/realtime';
+
+interface TaskProgressEntry {
+  playerId: string;
+  playerName: string;
+  completedTasks: number;
+  totalTasks?: number;
+  status: string;
+  team?: string;
+  route?: number[][]; // per step, the tasks the fugitive may complete one of
+  completedRoute?: number[]; // tasks completed, in order
+  attempts: number;
+  wrongAttempts: number;
+  lockedTasks: { taskNumber: number; lockedUntil: string }[];
+  hintsUsed: number;
+  timePenaltyMinutes: number;
+  scorePenalty: number;
+}
+
+interface TaskAttemptEntry {
+  id: string;
+  playerName?: string;
+  taskNumber: number;
+  answer?: string;
+  correct: boolean;
+  matchedAnswer?: string;
+  distance?: number;
+  lockedUntil?: string;
+  penalty: 'none' | 'reveal' | 'time';
+  createdAt: string;
+}
+
+const PENALTY_LABELS: Record<TaskAttemptEntry['penalty'], string> = {
+  none: '',
+  reveal: '📡 location revealed',
+  time: '⏱️ time deducted'
+};
+
+// A fugitive's route as "✅ 3 → 1 → (2 | 4) → 6", completed steps first
+const describeRoute = (entry: TaskProgressEntry) =>
+  (entry.route || []).map((step, index) => {
+    const completed = entry.completedRoute?.[index];
+    if (completed !== undefined) return `✅ ${completed}`;
+
+    const open = step.filter(taskNumber => !entry.completedRoute?.includes(taskNumber));
+    return open.length > 1 ? `(${open.join(' | ')})` : String(open[0]);
+  }).join(' → ');
+
+// Each fugitive's route and progress through it, with their latest answers; updates as they play
+const TaskProgressPanel: React.FC<{ gameId: string }> = ({ gameId }) => {
+  const [progress, setProgress] = useState<TaskProgressEntry[]>([]);
+  const [attempts, setAttempts] = useState<TaskAttemptEntry[]>([]);
+  const [tasksPerPlayer, setTasksPerPlayer] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchProgress = useCallback(async () => {
+    try {
+      const response = await fetch(API_ENDPOINTS.TASK_GAME_PROGRESS(gameId), {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        }
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setProgress(data.progress || []);
+        setAttempts(data.recentAttempts || []);
+        setTasksPerPlayer(data.tasksPerPlayer);
+        setError('');
+      } else {
+        setError('Failed to load task progress');
+      }
+    } catch (err) {
+      setError('Error loading task progress');
+    } finally {
+      setLoading(false);
+    }
+  }, [gameId]);
+
+  useEffect(() => {
+    fetchProgress();
+  }, [fetchProgress]);
+
+  useGameEvents([gameId], {
+    task_completed: () => fetchProgress(),
+    task_attempt_penalized: () => fetchProgress(),
+    hint_used: () => fetchProgress()
+  }, { playerId: null, onResync: fetchProgress });
+
+  if (loading) {
+    return (
+      <div style={{ textAlign: 'center', padding: '2rem' }}>
+        <div>Loading task progress...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div style={{ textAlign: 'center', padding: '2rem', color: '#ff6b6b' }}>
+        <div>{error}</div>
+      </div>
+    );
+  }
+
+  if (progress.length === 0) {
+    return (
+      <div className="no-games-enhanced" style={{ padding: '2rem 1rem' }}>
+        <div className="no-games-icon">🎯</div>
+        <div className="no-games-title">NO FUGITIVES YET</div>
+        <div className="no-games-subtitle">Task progress and answer attempts show up here once fugitives join</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="task-progress">
+      <div className="task-progress-list">
+        {progress.map(entry => (
+          <div key={entry.playerId} className="task-progress-item">
+            <strong>{entry.playerName}{entry.team && ` (${entry.team})`}</strong>
+            <span>{entry.completedTasks}/{entry.totalTasks || tasksPerPlayer} tasks · {entry.status.toUpperCase()}</span>
+            {entry.route && entry.route.length > 0 && (
+              <small className="task-progress-route">🧭 {describeRoute(entry)}</small>
+            )}
+            <small>
+              {entry.attempts} answers, {entry.wrongAttempts} wrong, {entry.hintsUsed} hints
+              {entry.timePenaltyMinutes > 0 && ` · ⏱️ -${entry.timePenaltyMinutes} min`}
+              {entry.scorePenalty > 0 && ` · ➖ ${entry.scorePenalty} pts`}
+            </small>
+            {entry.lockedTasks.map(lock => (
+              <small key={lock.taskNumber} className="task-progress-locked">
+                🔒 Task {lock.taskNumber} locked until {new Date(lock.lockedUntil).toLocaleTimeString()}
+              </small>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {attempts.length > 0 && (
+        <div className="task-attempts-list">
+          <h5>LATEST ANSWERS</h5>
+          {attempts.map(attempt => (
+            <div key={attempt.id} className={`task-attempt-item ${attempt.correct ? 'correct' : 'wrong'}`}>
+              <span>
+                {new Date(attempt.createdAt).toLocaleTimeString()} · {attempt.playerName || 'Unknown player'} · Task {attempt.taskNumber}
+              </span>
+              <span>
+                {attempt.correct ? '✅' : '❌'}{' '}
+                {attempt.answer !== undefined ? `"${attempt.answer}"` : attempt.distance !== undefined ? `${attempt.distance}m away` : ''}
+                {attempt.matchedAnswer && attempt.matchedAnswer !== attempt.answer ? ` ≈ ${attempt.matchedAnswer}` : ''}
+              </span>
+              {(attempt.penalty !== 'none' || attempt.lockedUntil) && (
+                <small>
+                  {PENALTY_LABELS[attempt.penalty]}
+                  {attempt.lockedUntil ? `${attempt.penalty !== 'none' ? ' · ' : ''}🔒 locked until ${new Date(attempt.lockedUntil).toLocaleTimeString()}` : ''}
+                </small>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskProgressPanel;
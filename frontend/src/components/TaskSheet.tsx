@@ -0,0 +1,340 @@
+import React, { useId, useState } from 'react';
+import { MapContainer, TileLayer, CircleMarker } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { API_ENDPOINTS, playerHeaders } from '../config/api';
+import { OutboxResult, getAnswerResult } from '../services/offlineOutbox';
+import { TaskType, TaskMedia, TaskProof, TaskLocation, NextStep, describeWrongAnswer, describeExtractionWindow } from '../services/taskAnswers';
+import { getCurrentPosition } from '../services/geolocation';
+import Dialog from './Dialog';
+
+export interface SheetTask {
+  taskNumber: number;
+  question: string;
+  type?: TaskType;
+  options?: string[];
+  checkInRadius?: number;
+  media?: TaskMedia;
+}
+
+interface TaskSheetProps {
+  task: SheetTask;
+  gameId: string;
+  proof: TaskProof;
+  // Queue the answer and try to send it; undefined when it stays queued
+  onSubmit: (data: Record<string, unknown>) => Promise<OutboxResult | undefined>;
+  // Shown as a dialog with a close button when set, as part of the page otherwise
+  onClose?: () => void;
+}
+
+interface Feedback {
+  kind: 'correct' | 'wrong' | 'queued' | 'error';
+  lines: string[];
+  nextStep?: NextStep | null;
+}
+
+const TaskMediaView: React.FC<{ media: TaskMedia; taskNumber: number }> = ({ media, taskNumber }) => {
+  const description = media.caption || `Media for task ${taskNumber}`;
+
+  return (
+    <figure className="task-media">
+      {media.kind === 'audio' ? (
+        <audio controls src={media.url} aria-label={description} />
+      ) : media.kind === 'video' ? (
+        <video controls playsInline src={media.url} aria-label={description} />
+      ) : (
+        <img src={media.url} alt={description} />
+      )}
+      {media.caption && <figcaption>{media.caption}</figcaption>}
+    </figure>
+  );
+};
+
+// Small map of where to go next, with a link that opens the phone's navigation app
+const navigationUrl = ({ latitude, longitude }: TaskLocation) =>
+  `https://www.google.com/maps/dir/?api=1&destination=${latitude},${longitude}`;
+
+const NextLocation: React.FC<{ label: string; location: TaskLocation }> = ({ label, location }) => {
+  const { latitude, longitude, address } = location;
+
+  return (
+    <div className="task-next-location">
+      <div className="task-next-map" role="img" aria-label={`Map of ${label.toLowerCase()}${address ? `: ${address}` : ''}`}>
+        <MapContainer
+          center={[latitude, longitude]}
+          zoom={16}
+          style={{ height: '100%', width: '100%' }}
+          zoomControl={false}
+          dragging={false}
+          scrollWheelZoom={false}
+          doubleClickZoom={false}
+          keyboard={false}
+          attributionControl={false}
+        >
+          <TileLayer url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png" />
+          <CircleMarker center={[latitude, longitude]} radius={10} pathOptions={{ color: '#0066CC', fillOpacity: 0.6 }} />
+        </MapContainer>
+      </div>
+      {address && <p className="task-next-address">📍 {address}</p>}
+      <a
+        className="action-btn primary"
+        href={navigationUrl(location)}
+        target="_blank"
+        rel="noopener noreferrer"
+      >
+        🧭 NAVIGATE TO {label.toUpperCase()}
+      </a>
+    </div>
+  );
+};
+
+// Everything about answering one task: the question and its media, the input its type needs,
+// what the answer got and, once it is right, where to go next. Used by the game page after a
+// scan or typed code, and by the task page a QR code opens in the phone's browser.
+const TaskSheet: React.FC<TaskSheetProps> = ({ task, gameId, proof, onSubmit, onClose }) => {
+  const fieldId = useId();
+  const [answer, setAnswer] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+
+  const submitAnswer = async (submission: { answer?: string; location?: { latitude: number; longitude: number } }) => {
+    setSubmitting(true);
+    try {
+      const outcome = await onSubmit({
+        taskNumber: task.taskNumber,
+        ...submission,
+        signature: proof.signature,
+        manualCode: proof.manualCode
+      });
+
+      const result = outcome && getAnswerResult(outcome);
+
+      if (!outcome || outcome.status === 'retry') {
+        setFeedback({
+          kind: 'queued',
+          lines: [`📡 No connection. Your answer to Task ${task.taskNumber} is saved with the time you gave it and will be sent as soon as you are back online.`]
+        });
+      } else if (outcome.status === 'rejected') {
+        setFeedback({
+          kind: 'error',
+          lines: [outcome.code === 'TASK_LOCKED' ? `🔒 ${outcome.error}` : outcome.error || 'Failed to submit your answer']
+        });
+      } else if (result?.correct) {
+        setFeedback({
+          kind: 'correct',
+          lines: [
+            `🎉 Correct! Task ${task.taskNumber} completed.`,
+            `Tasks completed: ${result.tasksCompleted}/${result.totalTasks}`
+          ],
+          nextStep: result.nextStep
+        });
+      } else if (result) {
+        setAnswer('');
+        setFeedback({
+          kind: 'wrong',
+          lines: task.type === 'gps_checkin'
+            ? [`❌ ${result.message}`, ...describeWrongAnswer(result)]
+            : [
+              `❌ Incorrect answer.${result.lockedUntil ? '' : ' Try again!'}`,
+              ...describeWrongAnswer(result),
+              'Hint: Make sure you\'re at the correct location and read the question carefully.'
+            ]
+        });
+      }
+    } catch (err) {
+      console.error('Error submitting answer:', err);
+      setFeedback({ kind: 'error', lines: ['Failed to submit your answer. Please try again.'] });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!answer.trim()) return;
+    submitAnswer({ answer: answer.trim() });
+  };
+
+  const handleCheckIn = async () => {
+    try {
+      const position = await getCurrentPosition();
+      await submitAnswer({
+        location: { latitude: position.coords.latitude, longitude: position.coords.longitude }
+      });
+    } catch (err) {
+      setFeedback({ kind: 'error', lines: ['Location access denied. Please enable location permissions to check in.'] });
+    }
+  };
+
+  // Photos are reviewed by the game master, so they go straight to the server
+  const handlePhotoSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const formData = new FormData();
+    formData.append('photo', file);
+    if (proof.signature) formData.append('signature', proof.signature);
+    if (proof.manualCode) formData.append('manualCode', proof.manualCode);
+
+    try {
+      const position = await getCurrentPosition();
+      formData.append('latitude', String(position.coords.latitude));
+      formData.append('longitude', String(position.coords.longitude));
+    } catch (err) {
+      // The photo is the proof, the location is only a bonus for the game master
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(API_ENDPOINTS.TASK_UPLOAD_PHOTO(gameId, task.taskNumber), {
+        method: 'POST',
+        headers: playerHeaders(false),
+        body: formData
+      });
+      const result = await response.json();
+
+      setFeedback(response.ok
+        ? { kind: 'correct', lines: [`📷 ${result.message}`] }
+        : { kind: 'error', lines: [result.error || 'Failed to upload photo'] });
+    } catch (err) {
+      console.error('Error uploading photo:', err);
+      setFeedback({ kind: 'error', lines: ['Failed to upload photo. Please try again.'] });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const answered = feedback?.kind === 'correct' || feedback?.kind === 'queued';
+  const nextStep = feedback?.nextStep;
+  const nextLocation = nextStep?.type === 'extraction' ? nextStep.extractionPoint : nextStep?.nextLocation;
+
+  const sheet = (
+    <>
+      <p className="task-question">{task.question}</p>
+
+      {task.media && <TaskMediaView media={task.media} taskNumber={task.taskNumber} />}
+
+      {!answered && (task.type === 'text' || task.type === 'numeric' || !task.type) && (
+        <form className="task-answer-form" onSubmit={handleSubmit}>
+          <label htmlFor={`${fieldId}-answer`}>{task.type === 'numeric' ? 'Your answer (a number)' : 'Your answer'}</label>
+          <input
+            id={`${fieldId}-answer`}
+            type="text"
+            inputMode={task.type === 'numeric' ? 'decimal' : 'text'}
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            maxLength={100}
+            autoComplete="off"
+            className="form-control"
+          />
+          <button type="submit" className="action-btn primary" disabled={submitting || !answer.trim()}>
+            {submitting ? '⏳ SENDING...' : 'SUBMIT ANSWER'}
+          </button>
+        </form>
+      )}
+
+      {!answered && task.type === 'multiple_choice' && (
+        <form className="task-answer-form" onSubmit={handleSubmit}>
+          <fieldset className="task-options">
+            <legend>Pick one answer</legend>
+            {(task.options || []).map(option => (
+              <label key={option} className="task-option">
+                <input
+                  type="radio"
+                  name={`${fieldId}-option`}
+                  value={option}
+                  checked={answer === option}
+                  onChange={() => setAnswer(option)}
+                />
+                {option}
+              </label>
+            ))}
+          </fieldset>
+          <button type="submit" className="action-btn primary" disabled={submitting || !answer}>
+            {submitting ? '⏳ SENDING...' : 'SUBMIT ANSWER'}
+          </button>
+        </form>
+      )}
+
+      {!answered && task.type === 'gps_checkin' && (
+        <div className="task-answer-form">
+          <p>Check in within {task.checkInRadius}m of the task location.</p>
+          <button className="action-btn primary" onClick={handleCheckIn} disabled={submitting}>
+            {submitting ? '⏳ CHECKING IN...' : '📍 CHECK IN HERE'}
+          </button>
+        </div>
+      )}
+
+      {!answered && task.type === 'photo' && (
+        <div className="task-answer-form">
+          <label className="action-btn primary">
+            {submitting ? '⏳ UPLOADING...' : '📷 TAKE PHOTO'}
+            <input
+              type="file"
+              accept="image/*"
+              capture="environment"
+              onChange={handlePhotoSelected}
+              disabled={submitting}
+              className="task-photo-input"
+            />
+          </label>
+        </div>
+      )}
+
+      {feedback && (
+        <div
+          className={`task-feedback ${feedback.kind}`}
+          role={feedback.kind === 'wrong' || feedback.kind === 'error' ? 'alert' : 'status'}
+        >
+          {feedback.lines.map(line => <p key={line}>{line}</p>)}
+        </div>
+      )}
+
+      {nextStep && (
+        <section className="task-next-step" aria-label="Next step">
+          <h3>
+            {nextStep.type === 'extraction'
+              ? '🚁 EXTRACTION'
+              : nextStep.choices ? '➡️ CHOOSE YOUR NEXT TASK' : `➡️ TASK ${nextStep.nextTaskNumber}`}
+          </h3>
+          <p>{nextStep.message}</p>
+          {nextStep.type === 'extraction' && describeExtractionWindow(nextStep) && (
+            <p className="task-next-window">⏰ {describeExtractionWindow(nextStep)}</p>
+          )}
+          {nextStep.choices ? (
+            <ul className="task-next-choices">
+              {nextStep.choices.map(choice => (
+                <li key={choice.taskNumber}>
+                  <a href={navigationUrl(choice.location)} target="_blank" rel="noopener noreferrer">
+                    🧭 Task {choice.taskNumber}{choice.location.address ? `: ${choice.location.address}` : ''}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          ) : nextLocation && (
+            <NextLocation
+              label={nextStep.type === 'extraction' ? 'the extraction point' : `task ${nextStep.nextTaskNumber}`}
+              location={nextLocation}
+            />
+          )}
+        </section>
+      )}
+
+      {onClose && (
+        <button className="action-btn secondary" onClick={onClose} disabled={submitting}>
+          {answered ? 'DONE' : 'CLOSE'}
+        </button>
+      )}
+    </>
+  );
+
+  return onClose ? (
+    <Dialog title={<>📍 Task {task.taskNumber}</>} onClose={onClose} busy={submitting}>
+      {sheet}
+    </Dialog>
+  ) : (
+    <div className="task-sheet">{sheet}</div>
+  );
+};
+
+export default TaskSheet;
@@ -16,10 +16,34 @@ export const API_ENDPOINTS = {
   GAME_RESUME: (id: string) => `${API_BASE_URL}/api/games/${id}/resume`,
   GAME_END: (id: string) => `${API_BASE_URL}/api/games/${id}/end`,
   GAME_MESSAGE: (id: string) => `${API_BASE_URL}/api/games/${id}/message`,
+  GAME_MESSAGES: (id: string) => `${API_BASE_URL}/api/games/${id}/messages`,
+  GAME_CHAT: (id: string) => `${API_BASE_URL}/api/games/${id}/chat`,
+  GAME_DELETE_CHAT_MESSAGE: (gameId: string, messageId: string) =>
+    `${API_BASE_URL}/api/games/${gameId}/chat/${messageId}`,
+  GAME_CHAT_MUTE: (gameId: string, playerId: string) =>
+    `${API_BASE_URL}/api/games/${gameId}/chat/mute/${playerId}`,
   GAME_TASKS: (id: string) => `${API_BASE_URL}/api/games/${id}/tasks`,
   GAME_PREDEFINED_PLAYERS: (id: string) => `${API_BASE_URL}/api/games/${id}/predefined-players`,
   GAME_DELETE_PREDEFINED_PLAYER: (gameId: string, playerId: string) => 
     `${API_BASE_URL}/api/games/${gameId}/predefined-players/${playerId}`,
+  GAME_REVEAL_ZONES: (id: string) => `${API_BASE_URL}/api/games/${id}/reveal-zones`,
+  GAME_DELETE_REVEAL_ZONE: (gameId: string, zoneId: string) =>
+    `${API_BASE_URL}/api/games/${gameId}/reveal-zones/${zoneId}`,
+  GAME_EXTRACTION_POINTS: (id: string) => `${API_BASE_URL}/api/games/${id}/extraction-points`,
+  GAME_DELETE_EXTRACTION_POINT: (gameId: string, pointId: string) =>
+    `${API_BASE_URL}/api/games/${gameId}/extraction-points/${pointId}`,
+  GAME_ASSIGN_EXTRACTION_POINT: (gameId: string, playerId: string) =>
+    `${API_BASE_URL}/api/games/${gameId}/extraction-points/assignments/${playerId}`,
+  GAME_ROTATE_TASK_SECRET: (id: string) => `${API_BASE_URL}/api/games/${id}/rotate-task-secret`,
+  GAME_PHOTO_SUBMISSIONS: (id: string) => `${API_BASE_URL}/api/games/${id}/photo-submissions`,
+  GAME_PHOTO_SUBMISSION_PHOTO: (gameId: string, submissionId: string) =>
+    `${API_BASE_URL}/api/games/${gameId}/photo-submissions/${submissionId}/photo`,
+  GAME_REVIEW_PHOTO: (gameId: string, submissionId: string) =>
+    `${API_BASE_URL}/api/games/${gameId}/photo-submissions/${submissionId}/review`,
+  GAME_CATCH_REQUESTS: (id: string) => `${API_BASE_URL}/api/games/${id}/catch-requests`,
+  GAME_DECIDE_CATCH: (gameId: string, requestId: string) =>
+    `${API_BASE_URL}/api/games/${gameId}/catch-requests/${requestId}/decide`,
+  GAME_BADGES: (id: string) => `${API_BASE_URL}/api/games/${id}/badges`,
   
   // Player endpoints
   PLAYERS: `${API_BASE_URL}/api/players`,
@@ -28,7 +52,34 @@ export const API_ENDPOINTS = {
   PLAYER_BY_GAME: (gameId: string) => `${API_BASE_URL}/api/players/game/${gameId}`,
   PLAYER_COMPLETE_TASK: (playerId: string) => `${API_BASE_URL}/api/players/${playerId}/complete-task`,
   PLAYER_UPDATE_LOCATION: (playerId: string) => `${API_BASE_URL}/api/players/${playerId}/location`,
+  PLAYER_SYNC: (playerId: string) => `${API_BASE_URL}/api/players/${playerId}/sync`,
+  PLAYER_LOBBY: (playerId: string) => `${API_BASE_URL}/api/players/${playerId}/lobby`,
+  PLAYER_MESSAGES: (playerId: string) => `${API_BASE_URL}/api/players/${playerId}/messages`,
+  PLAYER_MESSAGES_READ: (playerId: string) => `${API_BASE_URL}/api/players/${playerId}/messages/read`,
+  PLAYER_CHAT: (playerId: string) => `${API_BASE_URL}/api/players/${playerId}/chat`,
+  PLAYER_REVEALS: (playerId: string) => `${API_BASE_URL}/api/players/${playerId}/reveals`,
+  PLAYER_HINTS: (playerId: string) => `${API_BASE_URL}/api/players/${playerId}/hints`,
+  PLAYER_BADGE: (playerId: string) => `${API_BASE_URL}/api/players/${playerId}/badge`,
+  PLAYER_CATCH_BADGE: (playerId: string) => `${API_BASE_URL}/api/players/${playerId}/catch-badge`,
+  PLAYER_CATCH: (playerId: string) => `${API_BASE_URL}/api/players/${playerId}/catch`,
+  PLAYER_CATCH_REQUESTS: (playerId: string) => `${API_BASE_URL}/api/players/${playerId}/catch-requests`,
+  PLAYER_RESPOND_CATCH: (playerId: string, requestId: string) =>
+    `${API_BASE_URL}/api/players/${playerId}/catch-requests/${requestId}/respond`,
+  PLAYER_REVOKE_SESSION: (playerId: string) => `${API_BASE_URL}/api/players/${playerId}/revoke-session`,
+
+  // Task endpoints
+  TASK_DETAILS: (gameId: string, taskNumber: number | string) => `${API_BASE_URL}/api/tasks/${gameId}/${taskNumber}`,
+  TASK_VERIFY_CODE: (gameId: string) => `${API_BASE_URL}/api/tasks/${gameId}/verify`,
+  TASK_UPLOAD_PHOTO: (gameId: string, taskNumber: number) => `${API_BASE_URL}/api/tasks/${gameId}/${taskNumber}/photo`,
+  TASK_PLAYER_COMPLETED: (playerId: string) => `${API_BASE_URL}/api/tasks/player/${playerId}/completed`,
+  TASK_GAME_PROGRESS: (gameId: string) => `${API_BASE_URL}/api/tasks/game/${gameId}/progress`,
   
+  // Notification endpoints
+  NOTIFICATIONS_VAPID_KEY: `${API_BASE_URL}/api/notifications/vapid-public-key`,
+  NOTIFICATIONS_SUBSCRIBE_PLAYER: `${API_BASE_URL}/api/notifications/subscriptions/player`,
+  NOTIFICATIONS_SUBSCRIBE_USER: `${API_BASE_URL}/api/notifications/subscriptions/user`,
+  NOTIFICATIONS_UNSUBSCRIBE: `${API_BASE_URL}/api/notifications/subscriptions`,
+
   // Admin endpoints
   ADMIN_USERS: `${API_BASE_URL}/api/admin/users`,
   ADMIN_STATS: `${API_BASE_URL}/api/admin/stats`,
@@ -37,4 +88,11 @@ export const API_ENDPOINTS = {
   HEALTH: `${API_BASE_URL}/health`
 };
 
+// Headers for player requests; the token is issued by PLAYER_JOIN.
+// Leave out the JSON content type for multipart uploads.
+export const playerHeaders = (json = true): Record<string, string> => ({
+  ...(json && { 'Content-Type': 'application/json' }),
+  'X-Player-Token': localStorage.getItem('playerToken') || '',
+});
+
 export default API_ENDPOINTS;
@@ -1,8 +1,14 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import MapSelector from '../components/MapSelector';
 import GameMap from '../components/GameMap';
+import GameChat from '../components/GameChat';
+import ExtractionPointsManager from '../components/ExtractionPointsManager';
+import TaskProgressPanel from '../components/TaskProgressPanel';
+import GameMessagesPanel from '../components/GameMessagesPanel';
 import { API_ENDPOINTS } from '../config/api';
+import { PushState, getPushState, enablePushNotifications } from '../services/pushNotifications';
+import { useGameEvents, receiveClock, getClockRemainingMs, formatClockTime, GameClock, ReceivedClock, RealtimeLocation } from '../services/realtime';
 
 interface PredefinedPlayer {
   _id: string;
@@ -15,9 +21,76 @@ interface PredefinedPlayer {
   createdAt: string;
 }
 
+interface AdminTask {
+  _id?: string;
+  taskNumber: number;
+  type: string;
+  question: string;
+  qrCode: string;
+  manualCode?: string;
+  location?: { address?: string; latitude?: number; longitude?: number };
+}
+
+interface TaskCompletion {
+  taskNumber: number;
+  answer: string;
+  matchedAnswer?: string;
+}
+
+// Older player records keep their location under other names
+interface PlayerLocation extends RealtimeLocation {
+  address?: string;
+  lat?: number;
+  lng?: number;
+}
+
+interface AdminPlayer {
+  _id: string;
+  name: string;
+  role: string;
+  status: string;
+  team?: string;
+  gameCode?: string;
+  chatMuted?: boolean;
+  currentLocation?: PlayerLocation;
+  location?: PlayerLocation;
+  lastSeen?: string;
+  lastUpdate?: string;
+  updatedAt?: string;
+  tasksCompleted?: number;
+  gameStats?: { tasksCompleted?: number };
+  completedTasks?: TaskCompletion[];
+}
+
+interface AdminGame {
+  _id: string;
+  name: string;
+  gameCode: string;
+  status: string;
+  duration: number;
+  maxPlayers?: number;
+  players?: number;
+  startTime?: string;
+  scheduledStartTime?: string;
+  createdAt: string;
+  createdBy?: { name?: string };
+  clock?: ReceivedClock;
+  settings?: { taskCount?: number; maxPlayers?: number; extractionAssignment?: string };
+  tasks?: AdminTask[];
+  joinedPlayers?: AdminPlayer[];
+  predefinedPlayers?: PredefinedPlayer[];
+  extractionPoints?: unknown[];
+  revealZones?: unknown[];
+}
+
+// express-validator errors as the API returns them
+interface ValidationDetail {
+  msg: string;
+}
+
 // QR Codes Display Component
 const QRCodesDisplay: React.FC<{ gameId: string }> = ({ gameId }) => {
-  const [tasks, setTasks] = useState<any[]>([]);
+  const [tasks, setTasks] = useState<AdminTask[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
@@ -48,6 +121,32 @@ const QRCodesDisplay: React.FC<{ gameId: string }> = ({ gameId }) => {
     }
   }, [gameId]);
 
+  const rotateCodes = async () => {
+    if (!window.confirm('Generate new QR codes and manual codes for every mission?\n\nAll printed codes stop working immediately. You will have to print and place the new ones.')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(API_ENDPOINTS.GAME_ROTATE_TASK_SECRET(gameId), {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        }
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setTasks(data.tasks || []);
+        alert('✅ New codes generated. Download and print the new QR codes.');
+      } else {
+        alert(`Failed to rotate codes: ${data.error || 'Unknown error'}`);
+      }
+    } catch (err) {
+      console.error('Error rotating task codes:', err);
+      alert('Network error. Please try again.');
+    }
+  };
+
   const downloadQRCode = (qrCode: string, taskNumber: number) => {
     const link = document.createElement('a');
     link.href = qrCode;
@@ -141,37 +240,7 @@ const QRCodesDisplay: React.FC<{ gameId: string }> = ({ gameId }) => {
                   const originalText = button.innerHTML;
                   const originalBgColor = button.style.backgroundColor;
                   
-                  // Generate secure 6-digit code based on gameId and task number
-                  const secureCode = (() => {
-                    // Create a more complex hash with multiple rounds and salt
-                    const salt = 'KLOPJACHT_SECURE_2024';
-                    const hashInput = `${salt}-${gameId}-TASK-${task.taskNumber}-${salt}`;
-                    
-                    // Multiple hash rounds for better randomization
-                    let hash1 = 0;
-                    let hash2 = 0;
-                    
-                    // First hash round
-                    for (let i = 0; i < hashInput.length; i++) {
-                      const char = hashInput.charCodeAt(i);
-                      hash1 = ((hash1 << 7) - hash1) + char;
-                      hash1 = hash1 & hash1; // Convert to 32-bit integer
-                    }
-                    
-                    // Second hash round with different algorithm
-                    const reversedInput = hashInput.split('').reverse().join('');
-                    for (let i = 0; i < reversedInput.length; i++) {
-                      const char = reversedInput.charCodeAt(i);
-                      hash2 = ((hash2 << 3) + hash2) ^ char;
-                      hash2 = hash2 & hash2; // Convert to 32-bit integer
-                    }
-                    
-                    // Combine hashes and add task-specific multiplier
-                    const combined = Math.abs(hash1 ^ hash2) * (task.taskNumber * 7919); // 7919 is a prime
-                    const sixDigitCode = (combined % 900000) + 100000;
-                    
-                    return sixDigitCode.toString();
-                  })();
+                  const secureCode = task.manualCode || '';
                   
                   try {
                     // Try modern clipboard API first
@@ -238,36 +307,7 @@ const QRCodesDisplay: React.FC<{ gameId: string }> = ({ gameId }) => {
               fontWeight: 'bold',
               letterSpacing: '0.2em'
             }}>
-              {(() => {
-                // Generate the same secure 6-digit code for display
-                const salt = 'KLOPJACHT_SECURE_2024';
-                const hashInput = `${salt}-${gameId}-TASK-${task.taskNumber}-${salt}`;
-                
-                // Multiple hash rounds for better randomization
-                let hash1 = 0;
-                let hash2 = 0;
-                
-                // First hash round
-                for (let i = 0; i < hashInput.length; i++) {
-                  const char = hashInput.charCodeAt(i);
-                  hash1 = ((hash1 << 7) - hash1) + char;
-                  hash1 = hash1 & hash1; // Convert to 32-bit integer
-                }
-                
-                // Second hash round with different algorithm
-                const reversedInput = hashInput.split('').reverse().join('');
-                for (let i = 0; i < reversedInput.length; i++) {
-                  const char = reversedInput.charCodeAt(i);
-                  hash2 = ((hash2 << 3) + hash2) ^ char;
-                  hash2 = hash2 & hash2; // Convert to 32-bit integer
-                }
-                
-                // Combine hashes and add task-specific multiplier
-                const combined = Math.abs(hash1 ^ hash2) * (task.taskNumber * 7919); // 7919 is a prime
-                const sixDigitCode = (combined % 900000) + 100000;
-                
-                return sixDigitCode.toString();
-              })()}
+              {task.manualCode || '------'}
             </div>
             
             <small style={{ 
@@ -309,11 +349,816 @@ const QRCodesDisplay: React.FC<{ gameId: string }> = ({ gameId }) => {
         >
           📥 DOWNLOAD ALL QR CODES
         </button>
+        <button 
+          className="btn-enhanced btn-danger-enhanced"
+          onClick={rotateCodes}
+          style={{ marginLeft: '0.5rem' }}
+        >
+          🔄 ROTATE ALL CODES
+        </button>
       </div>
     </div>
   );
 };
 
+interface FugitiveBadge {
+  playerId: string;
+  name: string;
+  team?: string;
+  status: string;
+  qrCode: string;
+}
+
+// Fugitive badges, scanned by hunters to catch them
+const FugitiveBadgesPanel: React.FC<{ gameId: string }> = ({ gameId }) => {
+  const [badges, setBadges] = useState<FugitiveBadge[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchBadges = useCallback(async () => {
+    try {
+      const response = await fetch(API_ENDPOINTS.GAME_BADGES(gameId), {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        }
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setBadges(data.badges || []);
+        setError('');
+      } else {
+        setError('Failed to load badges');
+      }
+    } catch (err) {
+      setError('Error loading badges');
+    } finally {
+      setLoading(false);
+    }
+  }, [gameId]);
+
+  useEffect(() => {
+    fetchBadges();
+  }, [fetchBadges]);
+
+  useGameEvents([gameId], {
+    player_joined: () => fetchBadges(),
+    player_caught: () => fetchBadges()
+  }, { playerId: null, onResync: fetchBadges });
+
+  const downloadBadge = (badge: FugitiveBadge) => {
+    const link = document.createElement('a');
+    link.href = badge.qrCode;
+    link.download = `Badge_${badge.name.replace(/\s+/g, '_')}.png`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  if (loading) {
+    return (
+      <div style={{ textAlign: 'center', padding: '2rem' }}>
+        <div>Loading badges...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div style={{ textAlign: 'center', padding: '2rem', color: '#ff6b6b' }}>
+        <div>{error}</div>
+      </div>
+    );
+  }
+
+  if (badges.length === 0) {
+    return (
+      <div className="no-games-enhanced" style={{ padding: '2rem 1rem' }}>
+        <div className="no-games-icon">🪪</div>
+        <div className="no-games-title">NO BADGES YET</div>
+        <div className="no-games-subtitle">Badges appear when fugitives join the game</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="qr-codes-grid">
+      {badges.map((badge) => (
+        <div key={badge.playerId} className="qr-code-item">
+          <div className="qr-code-header">
+            <h5>{badge.name}</h5>
+            <div className="qr-code-location">
+              {badge.team ? `${badge.team} · ` : ''}{badge.status.toUpperCase()}
+            </div>
+          </div>
+
+          <div className="qr-code-display">
+            <img
+              src={badge.qrCode}
+              alt={`Badge of ${badge.name}`}
+              style={{ width: '150px', height: '150px', border: '2px solid #ddd' }}
+            />
+          </div>
+
+          <div className="qr-code-actions">
+            <button
+              className="btn-enhanced btn-primary-enhanced"
+              onClick={() => downloadBadge(badge)}
+              style={{ fontSize: '0.8rem', padding: '0.3rem 0.6rem' }}
+            >
+              📥 DOWNLOAD
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface RevealZone {
+  _id: string;
+  type: 'surveillance' | 'atm';
+  name?: string;
+  latitude: number;
+  longitude: number;
+  radius: number;
+  isActive: boolean;
+}
+
+// Surveillance Camera & ATM Zones Component
+const RevealZonesManager: React.FC<{ gameId: string; editable: boolean }> = ({ gameId, editable }) => {
+  const [zones, setZones] = useState<RevealZone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showMap, setShowMap] = useState(false);
+  const [newZone, setNewZone] = useState({
+    type: 'surveillance' as 'surveillance' | 'atm',
+    name: '',
+    radius: 30
+  });
+
+  useEffect(() => {
+    const fetchZones = async () => {
+      try {
+        const response = await fetch(API_ENDPOINTS.GAME_REVEAL_ZONES(gameId), {
+          headers: {
+            'Authorization': `Bearer ${localStorage.getItem('token')}`,
+          }
+        });
+
+        if (response.ok) {
+          const data = await response.json();
+          setZones(data.revealZones || []);
+        } else {
+          setError('Failed to load reveal zones');
+        }
+      } catch (err) {
+        setError('Error loading reveal zones');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (gameId) {
+      fetchZones();
+    }
+  }, [gameId]);
+
+  const addZone = async (location: { lat: number; lng: number; address: string }) => {
+    setShowMap(false);
+    try {
+      const response = await fetch(API_ENDPOINTS.GAME_REVEAL_ZONES(gameId), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        },
+        body: JSON.stringify({
+          zones: [{
+            type: newZone.type,
+            name: newZone.name || location.address,
+            latitude: location.lat,
+            longitude: location.lng,
+            radius: newZone.radius
+          }]
+        }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setZones(data.revealZones || []);
+        setNewZone(prev => ({ ...prev, name: '' }));
+      } else {
+        alert(`Failed to add zone: ${data.error || 'Unknown error'}`);
+      }
+    } catch (err) {
+      console.error('Error adding reveal zone:', err);
+      alert('Network error. Please try again.');
+    }
+  };
+
+  const deleteZone = async (zoneId: string) => {
+    if (!window.confirm('Remove this zone?')) return;
+
+    try {
+      const response = await fetch(API_ENDPOINTS.GAME_DELETE_REVEAL_ZONE(gameId, zoneId), {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        },
+      });
+
+      if (response.ok) {
+        setZones(prev => prev.filter(zone => zone._id !== zoneId));
+      } else {
+        const data = await response.json();
+        alert(`Failed to remove zone: ${data.error || 'Unknown error'}`);
+      }
+    } catch (err) {
+      console.error('Error removing reveal zone:', err);
+      alert('Network error. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div style={{ textAlign: 'center', padding: '2rem' }}>
+        <div>Loading zones...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div style={{ textAlign: 'center', padding: '2rem', color: '#ff6b6b' }}>
+        <div>{error}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="reveal-zones">
+      {zones.length === 0 ? (
+        <div className="no-games-enhanced" style={{ padding: '2rem 1rem' }}>
+          <div className="no-games-icon">📷</div>
+          <div className="no-games-title">NO ZONES PLACED</div>
+          <div className="no-games-subtitle">Fugitives entering a zone are revealed to the hunters</div>
+        </div>
+      ) : (
+        <div className="reveal-zones-list">
+          {zones.map((zone) => (
+            <div key={zone._id} className="reveal-zone-item">
+              <div className="reveal-zone-info">
+                <strong>{zone.type === 'atm' ? '🏧 ATM' : '📷 CAMERA'}</strong>
+                <span>{zone.name || `${zone.latitude.toFixed(5)}, ${zone.longitude.toFixed(5)}`}</span>
+                <small>{zone.radius}m radius</small>
+              </div>
+              {editable && (
+                <button
+                  className="btn-enhanced btn-danger-enhanced"
+                  onClick={() => deleteZone(zone._id)}
+                  style={{ fontSize: '0.8rem', padding: '0.3rem 0.6rem' }}
+                >
+                  🗑️ REMOVE
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editable && (
+        <div className="reveal-zone-form">
+          <select
+            value={newZone.type}
+            onChange={(e) => setNewZone(prev => ({ ...prev, type: e.target.value as 'surveillance' | 'atm' }))}
+            className="form-control"
+          >
+            <option value="surveillance">📷 Surveillance camera</option>
+            <option value="atm">🏧 ATM</option>
+          </select>
+          <input
+            type="text"
+            value={newZone.name}
+            onChange={(e) => setNewZone(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="Name (optional)"
+            className="form-control"
+          />
+          <input
+            type="number"
+            min="5"
+            max="500"
+            value={newZone.radius}
+            onChange={(e) => setNewZone(prev => ({ ...prev, radius: parseInt(e.target.value) || 30 }))}
+            className="form-control"
+            title="Radius in meters"
+          />
+          <button
+            className="btn-enhanced btn-primary-enhanced"
+            onClick={() => setShowMap(true)}
+          >
+            📍 PLACE ON MAP
+          </button>
+        </div>
+      )}
+
+      {showMap && (
+        <MapSelector
+          onLocationSelect={addZone}
+          onClose={() => setShowMap(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+interface PhotoSubmission {
+  id: string;
+  taskNumber: number;
+  question?: string;
+  player?: { id: string; name: string; team?: string };
+  status: 'pending' | 'approved' | 'rejected';
+  submittedAt: string;
+  reviewedBy?: string;
+  reviewNote?: string;
+}
+
+// Photos need the game master's token, so they can't be loaded with a plain <img src>
+const SubmissionPhoto: React.FC<{ gameId: string; submissionId: string }> = ({ gameId, submissionId }) => {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+
+    fetch(API_ENDPOINTS.GAME_PHOTO_SUBMISSION_PHOTO(gameId, submissionId), {
+      headers: {
+        'Authorization': `Bearer ${localStorage.getItem('token')}`,
+      }
+    })
+      .then(response => response.ok ? response.blob() : null)
+      .then(blob => {
+        if (blob) {
+          objectUrl = URL.createObjectURL(blob);
+          setSrc(objectUrl);
+        }
+      })
+      .catch(err => console.error('Error loading photo:', err));
+
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [gameId, submissionId]);
+
+  if (!src) {
+    return <div className="photo-submission-image">Loading photo...</div>;
+  }
+
+  return (
+    <a href={src} target="_blank" rel="noopener noreferrer">
+      <img src={src} alt="Submitted proof" className="photo-submission-image" />
+    </a>
+  );
+};
+
+const PhotoReviewPanel: React.FC<{ gameId: string }> = ({ gameId }) => {
+  const [submissions, setSubmissions] = useState<PhotoSubmission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchSubmissions = useCallback(async () => {
+    try {
+      const response = await fetch(API_ENDPOINTS.GAME_PHOTO_SUBMISSIONS(gameId), {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        }
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setSubmissions(data.submissions || []);
+        setError('');
+      } else {
+        setError('Failed to load photos');
+      }
+    } catch (err) {
+      setError('Error loading photos');
+    } finally {
+      setLoading(false);
+    }
+  }, [gameId]);
+
+  useEffect(() => {
+    fetchSubmissions();
+  }, [fetchSubmissions]);
+
+  useGameEvents([gameId], {
+    photo_submitted: () => fetchSubmissions()
+  }, { playerId: null, onResync: fetchSubmissions });
+
+  const reviewSubmission = async (submission: PhotoSubmission, approved: boolean) => {
+    const note = approved ? '' : prompt('Why is this photo rejected? (shown to the fugitive, optional)');
+    if (note === null) return;
+
+    try {
+      const response = await fetch(API_ENDPOINTS.GAME_REVIEW_PHOTO(gameId, submission.id), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        },
+        body: JSON.stringify({ approved, note: note || undefined }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        fetchSubmissions();
+      } else {
+        alert(`Failed to review photo: ${data.error || 'Unknown error'}`);
+      }
+    } catch (err) {
+      console.error('Error reviewing photo:', err);
+      alert('Network error. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div style={{ textAlign: 'center', padding: '2rem' }}>
+        <div>Loading photos...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div style={{ textAlign: 'center', padding: '2rem', color: '#ff6b6b' }}>
+        <div>{error}</div>
+      </div>
+    );
+  }
+
+  if (submissions.length === 0) {
+    return (
+      <div className="no-games-enhanced" style={{ padding: '2rem 1rem' }}>
+        <div className="no-games-icon">📷</div>
+        <div className="no-games-title">NO PHOTOS YET</div>
+        <div className="no-games-subtitle">Photos uploaded for photo tasks show up here for review</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="photo-submissions-list">
+      {submissions.map(submission => (
+        <div key={submission.id} className={`photo-submission-item ${submission.status}`}>
+          <SubmissionPhoto gameId={gameId} submissionId={submission.id} />
+          <div className="photo-submission-info">
+            <strong>{submission.player?.name || 'Unknown player'} - TASK {submission.taskNumber}</strong>
+            {submission.question && <span>{submission.question}</span>}
+            <small>{new Date(submission.submittedAt).toLocaleTimeString()}</small>
+            {submission.status === 'pending' ? (
+              <div className="photo-submission-actions">
+                <button
+                  className="btn-enhanced btn-success-enhanced"
+                  onClick={() => reviewSubmission(submission, true)}
+                >
+                  ✅ APPROVE
+                </button>
+                <button
+                  className="btn-enhanced btn-danger-enhanced"
+                  onClick={() => reviewSubmission(submission, false)}
+                >
+                  ❌ REJECT
+                </button>
+              </div>
+            ) : (
+              <small>
+                {submission.status === 'approved' ? '✅ APPROVED' : '❌ REJECTED'}
+                {submission.reviewedBy ? ` by ${submission.reviewedBy}` : ''}
+                {submission.reviewNote ? `: ${submission.reviewNote}` : ''}
+              </small>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface CatchRequestEntry {
+  id: string;
+  hunter: { id: string; name: string } | null;
+  fugitive: { id: string; name: string } | null;
+  status: 'pending' | 'confirmed' | 'disputed' | 'upheld' | 'dismissed';
+  distance: number;
+  disputeReason?: string;
+  autoConfirmed: boolean;
+  requestedAt: string;
+}
+
+const CATCH_STATUS_LABELS: Record<CatchRequestEntry['status'], string> = {
+  pending: '⏳ WAITING FOR FUGITIVE',
+  confirmed: '✅ CONFIRMED',
+  disputed: '⚖️ DISPUTED',
+  upheld: '✅ UPHELD BY YOU',
+  dismissed: '❌ DISMISSED BY YOU'
+};
+
+const CatchRequestsPanel: React.FC<{ gameId: string }> = ({ gameId }) => {
+  const [requests, setRequests] = useState<CatchRequestEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      const response = await fetch(API_ENDPOINTS.GAME_CATCH_REQUESTS(gameId), {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        }
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setRequests(data.requests || []);
+        setError('');
+      } else {
+        setError('Failed to load catches');
+      }
+    } catch (err) {
+      setError('Error loading catches');
+    } finally {
+      setLoading(false);
+    }
+  }, [gameId]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  useGameEvents([gameId], {
+    catch_requested: () => fetchRequests(),
+    catch_resolved: () => fetchRequests()
+  }, { playerId: null, onResync: fetchRequests });
+
+  const decide = async (request: CatchRequestEntry, upheld: boolean) => {
+    try {
+      const response = await fetch(API_ENDPOINTS.GAME_DECIDE_CATCH(gameId, request.id), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        },
+        body: JSON.stringify({ upheld }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        fetchRequests();
+      } else {
+        alert(`Failed to decide: ${data.error || 'Unknown error'}`);
+      }
+    } catch (err) {
+      console.error('Error deciding catch:', err);
+      alert('Network error. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div style={{ textAlign: 'center', padding: '2rem' }}>
+        <div>Loading catches...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div style={{ textAlign: 'center', padding: '2rem', color: '#ff6b6b' }}>
+        <div>{error}</div>
+      </div>
+    );
+  }
+
+  if (requests.length === 0) {
+    return (
+      <div className="no-games-enhanced" style={{ padding: '2rem 1rem' }}>
+        <div className="no-games-icon">🚨</div>
+        <div className="no-games-title">NO CATCHES YET</div>
+        <div className="no-games-subtitle">Catches claimed by hunters show up here; you decide the disputed ones</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="task-progress-list">
+      {requests.map(request => (
+        <div key={request.id} className={`catch-request-item ${request.status}`}>
+          <strong>
+            {request.hunter?.name || 'Unknown hunter'} → {request.fugitive?.name || 'Unknown fugitive'}
+          </strong>
+          <span>
+            {new Date(request.requestedAt).toLocaleTimeString()} · {request.distance}m apart · {CATCH_STATUS_LABELS[request.status]}
+            {request.autoConfirmed ? ' (no answer)' : ''}
+          </span>
+          {request.disputeReason && <small>"{request.disputeReason}"</small>}
+          {request.status === 'disputed' && (
+            <div className="photo-submission-actions">
+              <button
+                className="btn-enhanced btn-success-enhanced"
+                onClick={() => decide(request, true)}
+              >
+                ✅ UPHOLD CATCH
+              </button>
+              <button
+                className="btn-enhanced btn-danger-enhanced"
+                onClick={() => decide(request, false)}
+              >
+                ❌ DISMISS
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Game master view of every chat channel, with muting and deleting
+const ChatModerationPanel: React.FC<{ gameId: string }> = ({ gameId }) => {
+  const [mutedPlayers, setMutedPlayers] = useState<{ _id: string; name: string }[]>([]);
+
+  const fetchMutedPlayers = useCallback(async () => {
+    try {
+      const response = await fetch(API_ENDPOINTS.PLAYER_BY_GAME(gameId), {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        }
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setMutedPlayers((data.players || []).filter((player: AdminPlayer) => player.chatMuted));
+      }
+    } catch (err) {
+      console.warn('Could not load muted players');
+    }
+  }, [gameId]);
+
+  useEffect(() => {
+    fetchMutedPlayers();
+  }, [fetchMutedPlayers]);
+
+  const setMuted = async (playerId: string, name: string, muted: boolean) => {
+    if (muted && !window.confirm(`Mute ${name} in the chat?`)) return;
+
+    try {
+      const response = await fetch(API_ENDPOINTS.GAME_CHAT_MUTE(gameId, playerId), {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        },
+        body: JSON.stringify({ muted }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        fetchMutedPlayers();
+      } else {
+        alert(`Failed to ${muted ? 'mute' : 'unmute'}: ${data.error || 'Unknown error'}`);
+      }
+    } catch (err) {
+      console.error('Error muting player:', err);
+      alert('Network error. Please try again.');
+    }
+  };
+
+  return (
+    <div>
+      <GameChat gameId={gameId} onMutePlayer={(playerId, name) => setMuted(playerId, name, true)} />
+
+      {mutedPlayers.length > 0 && (
+        <div className="task-progress-list">
+          {mutedPlayers.map(player => (
+            <div key={player._id} className="catch-request-item">
+              <strong>🔇 {player.name}</strong>
+              <button
+                className="btn-enhanced btn-success-enhanced"
+                onClick={() => setMuted(player._id, player.name, false)}
+              >
+                🔊 UNMUTE
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DEFAULT_TASK_COUNT = 6;
+
+type WrongAnswerPenalty = 'none' | 'reveal' | 'time';
+
+// Brute-force protection for answered tasks; 0 max attempts means unlimited
+const DEFAULT_ANSWER_RULES = {
+  maxAttempts: 0,
+  lockoutMinutes: 5,
+  wrongAnswerPenalty: 'none' as WrongAnswerPenalty,
+  penaltyMinutes: 5
+};
+
+type HintCost = 'none' | 'reveal' | 'time' | 'score';
+
+// Calling for a hint reveals the fugitive unless the game master picks another cost
+const DEFAULT_HINT_RULES = {
+  hintCost: 'reveal' as HintCost,
+  hintPenaltyMinutes: 5,
+  hintScorePenalty: 10
+};
+
+// Hunters catch fugitives by standing this close (meters) on recent positions (seconds)
+const DEFAULT_CATCH_RULES = {
+  catchRadius: 15,
+  catchLocationMaxAge: 60,
+  catchConfirmSeconds: 60
+};
+
+// How each fugitive's route through the tasks is laid out, see Game.buildTaskRoute
+const TASK_ORDER_LABELS = {
+  sequential: 'Sequential (everyone does the tasks in order)',
+  free: 'Free (any order, extraction task last)',
+  branching: 'Branching (one task per stage)',
+  shuffled: 'Shuffled (random order per fugitive)'
+};
+
+type TaskOrder = keyof typeof TASK_ORDER_LABELS;
+
+const DEFAULT_ROUTE_RULES = {
+  taskOrder: 'sequential' as TaskOrder,
+  shareRoutesByTeam: false // teammates get the same shuffled route
+};
+
+// Which of the game's extraction points each fugitive escapes through, see ExtractionPointsManager
+const DEFAULT_EXTRACTION_RULES = {
+  extractionAssignment: 'random' as 'random' | 'game_master',
+  shareExtractionByTeam: false
+};
+
+// Players are warned when this many minutes are left
+const DEFAULT_TIMER_WARNINGS = '30, 10, 5, 1';
+
+const parseTimerWarnings = (value: string) =>
+  value.split(',').map(part => parseInt(part.trim())).filter(minutes => minutes > 0);
+
+type TaskType = 'text' | 'multiple_choice' | 'numeric' | 'gps_checkin' | 'photo';
+
+const TASK_TYPE_LABELS: Record<TaskType, string> = {
+  text: 'Question & answer',
+  multiple_choice: 'Multiple choice',
+  numeric: 'Number (with tolerance)',
+  gps_checkin: 'GPS check-in',
+  photo: 'Photo proof (reviewed by you)'
+};
+
+const createEmptyTask = (id: number) => ({
+  id,
+  type: 'text' as TaskType,
+  question: '',
+  answer: '',
+  options: '', // multiple choice options, one per line
+  acceptedAnswers: '', // other correct answers, one per line
+  lenientMatching: true, // ignore accents, punctuation, spaces and articles
+  maxDistance: 0, // typos allowed
+  pattern: '',
+  tolerance: 0,
+  checkInRadius: 25,
+  hints: '', // given in order to fugitives who call for help, one per line
+  mediaUrl: '', // picture, sound or video shown with the question
+  mediaKind: 'image' as 'image' | 'audio' | 'video',
+  mediaCaption: '',
+  stage: '', // tasks sharing a stage are alternatives on a branching route
+  location: { lat: 0, lng: 0, address: '' }
+});
+
+type TaskFormData = ReturnType<typeof createEmptyTask>;
+
+// GPS check-ins and photos don't need an answer
+const isTaskComplete = (task: TaskFormData) =>
+  Boolean(task.question && task.location.address &&
+    (task.type === 'gps_checkin' || task.type === 'photo' || task.answer));
+
+const splitLines = (value: string) =>
+  value.split('\n').map(line => line.trim()).filter(Boolean);
+
+const getTaskOptions = (task: TaskFormData) => splitLines(task.options);
+
+const createEmptyTasks = (count: number) =>
+  Array(count).fill(null).map((_, i) => createEmptyTask(i + 1));
+
+// Games created before the task count setting existed have 6 tasks
+const getTaskCount = (game?: AdminGame): number => game?.settings?.taskCount || DEFAULT_TASK_COUNT;
+
 const AdminDashboard = () => {
   const navigate = useNavigate();
   const [selectedView, setSelectedView] = useState(() => {
@@ -340,23 +1185,27 @@ const AdminDashboard = () => {
     duration: 30, // Changed from 120 to 30 (minimum required by backend)
     maxPlayers: 20,
     extractionPoint: { lat: 0, lng: 0, address: '' },
-    tasks: Array(6).fill(null).map((_, i) => ({
-      id: i + 1,
-      question: '',
-      answer: '',
-      location: { lat: 0, lng: 0, address: '' }
-    }))
+    extractionOpenMinutes: 0,
+    timerWarningMinutes: DEFAULT_TIMER_WARNINGS,
+    scheduledStartTime: '',
+    taskCount: DEFAULT_TASK_COUNT,
+    ...DEFAULT_ROUTE_RULES,
+    ...DEFAULT_EXTRACTION_RULES,
+    ...DEFAULT_ANSWER_RULES,
+    ...DEFAULT_HINT_RULES,
+    ...DEFAULT_CATCH_RULES,
+    tasks: createEmptyTasks(DEFAULT_TASK_COUNT)
   });
   const [currentStep, setCurrentStep] = useState(1); // 1: Basic Info, 2: Extraction Point, 3: Tasks
   const [showMapSelector, setShowMapSelector] = useState(false);
   const [mapSelectorType, setMapSelectorType] = useState<'extraction' | 'task'>('extraction');
   const [mapSelectorTaskIndex, setMapSelectorTaskIndex] = useState<number>(0);
   const [showPlayersMap, setShowPlayersMap] = useState(false);
-  const [selectedGameForMap, setSelectedGameForMap] = useState<any>(null);
+  const [selectedGameForMap, setSelectedGameForMap] = useState<AdminGame | null>(null);
 
   // Real data state
-  const [games, setGames] = useState<any[]>([]);
-  const [players, setPlayers] = useState<any[]>([]);
+  const [games, setGames] = useState<AdminGame[]>([]);
+  const [players, setPlayers] = useState<AdminPlayer[]>([]);
   const [loading, setLoading] = useState(false);
   const [gameTimeRemaining, setGameTimeRemaining] = useState<{[key: string]: string}>({});
 
@@ -379,7 +1228,10 @@ const AdminDashboard = () => {
       
       if (gamesResponse.ok) {
         const gamesData = await gamesResponse.json();
-        const gamesList = gamesData.games || gamesData || [];
+        const gamesList = (gamesData.games || gamesData || []).map((game: AdminGame & { clock?: GameClock }) => ({
+          ...game,
+          clock: game.clock && receiveClock(game.clock)
+        }));
         setGames(gamesList);
         console.log('Games loaded:', gamesList.length);
       } else if (gamesResponse.status === 401) {
@@ -425,16 +1277,45 @@ const AdminDashboard = () => {
     }
   };
 
-  // Fetch data on component mount and set up refresh interval
+  // Fetch data on component mount
   useEffect(() => {
     fetchData();
-    
-    // Set up auto-refresh every 60 seconds to show real-time updates
-    const interval = setInterval(fetchData, 60000);
-    
-    return () => clearInterval(interval);
   }, [navigate]);
 
+  // Live updates for every game that is still running, pushed by the server
+  const liveGameIds = games
+    .filter(game => game.status !== 'completed' && game.status !== 'cancelled')
+    .map(game => game._id);
+
+  useGameEvents(liveGameIds, {
+    game_started: () => fetchData(),
+    game_paused: () => fetchData(),
+    game_resumed: () => fetchData(),
+    game_ended: () => fetchData(),
+    game_start_failed: (data) => alert(`⚠️ ${data.message}`),
+    clock: (data) => {
+      setGames(prev => prev.map(game =>
+        game._id === data.gameId ? { ...game, clock: receiveClock(data) } : game
+      ));
+    },
+    player_joined: () => fetchData(),
+    player_status_changed: () => fetchData(),
+    player_caught: () => fetchData(),
+    player_escaped: () => fetchData(),
+    task_completed: () => fetchData(),
+    location_updated: (data) => {
+      setPlayers(prev => prev.map(player =>
+        player._id === data.playerId
+          ? { ...player, currentLocation: data.location, lastSeen: data.timestamp }
+          : player
+      ));
+    }
+  }, {
+    // Game masters join without a player ID to get the masters room
+    playerId: null,
+    onResync: () => fetchData()
+  });
+
   // Update game timers every second
   useEffect(() => {
     const updateTimers = () => {
@@ -457,6 +1338,22 @@ const AdminDashboard = () => {
     navigate('/');
   };
 
+  const [pushState, setPushState] = useState<PushState>('unsupported');
+
+  useEffect(() => {
+    getPushState().then(setPushState).catch(() => setPushState('unsupported'));
+  }, []);
+
+  const handleEnableNotifications = async () => {
+    try {
+      await enablePushNotifications('user');
+      setPushState('enabled');
+      alert('🔔 Notifications enabled for your games.');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to enable notifications');
+    }
+  };
+
   const handleCreateGame = () => {
     setSelectedView('create-game');
   };
@@ -465,8 +1362,8 @@ const AdminDashboard = () => {
     setSelectedView(`game-${gameCode}`);
   };
 
-  const handleViewLocation = (player: any) => {
-    const location = player.currentLocation || player.location || {};
+  const handleViewLocation = (player: AdminPlayer) => {
+    const location: PlayerLocation = player.currentLocation || player.location || {};
     const address = location.address || 'No address available';
     const lat = location.latitude || location.lat || 'N/A';
     const lng = location.longitude || location.lng || 'N/A';
@@ -475,8 +1372,34 @@ const AdminDashboard = () => {
     alert(`Player Location:\n\nName: ${player.name}\nRole: ${player.role}\nStatus: ${player.status}\nLocation: ${address}\nCoordinates: ${lat}, ${lng}\nLast Update: ${lastUpdate}`);
   };
 
+  const handleRevokeSession = async (player: AdminPlayer) => {
+    if (!window.confirm(`Sign ${player.name} out on all devices?\n\nThey can join again with their player password.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(API_ENDPOINTS.PLAYER_REVOKE_SESSION(player._id), {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        }
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        alert(`✅ ${player.name} has been signed out.`);
+        fetchData();
+      } else {
+        alert(`Failed to revoke session: ${data.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Error revoking player session:', error);
+      alert('Network error. Please try again.');
+    }
+  };
+
   // Calculate time remaining for a specific game
-  const calculateGameTimeRemaining = (game: any) => {
+  const calculateGameTimeRemaining = (game: AdminGame) => {
     if (!game) return 'No game';
     
     if (game.status === 'waiting' || game.status === 'setup') {
@@ -491,57 +1414,22 @@ const AdminDashboard = () => {
       return '❌ Game cancelled';
     }
     
-    if (game.status === 'paused') {
-      // When paused, show the time remaining at the moment of pause
-      if (!game.startTime) {
-        return '⏸️ Paused - Not started';
-      }
-      
-      const startTime = new Date(game.startTime);
-      const pausedAt = game.pausedAt ? new Date(game.pausedAt) : new Date();
-      const gameDuration = (game.duration || 120) * 60 * 1000; // Convert to milliseconds
-      const timeElapsedBeforePause = pausedAt.getTime() - startTime.getTime();
-      const remaining = gameDuration - timeElapsedBeforePause;
-      
-      if (remaining <= 0) {
-        return '⏸️ Paused - Time expired';
-      }
-      
-      const hours = Math.floor(remaining / (1000 * 60 * 60));
-      const minutes = Math.floor((remaining % (1000 * 60 * 60)) / (1000 * 60));
-      const seconds = Math.floor((remaining % (1000 * 60)) / 1000);
-      
-      const timeString = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-      
-      return `⏸️ Paused - ${timeString} remaining`;
-    }
-    
-    if (!game.startTime) {
+    // The server's clock already accounts for every pause
+    const remaining = getClockRemainingMs(game.clock);
+    if (remaining === null) {
       return '⏸️ Not started';
     }
 
-    const startTime = new Date(game.startTime);
-    const gameDuration = (game.duration || 120) * 60 * 1000; // Convert to milliseconds
-    const now = new Date();
-    
-    // Calculate total elapsed time, accounting for any paused periods
-    let totalElapsed = now.getTime() - startTime.getTime();
-    
-    // If the game was paused and resumed, we need to subtract the paused time
-    // For now, we'll use a simple approach - in a full implementation, you'd track all pause/resume periods
-    
-    const remaining = gameDuration - totalElapsed;
-    
+    const timeString = formatClockTime(remaining);
+
+    if (game.status === 'paused') {
+      return remaining <= 0 ? '⏸️ Paused - Time expired' : `⏸️ Paused - ${timeString} remaining`;
+    }
+
     if (remaining <= 0) {
       return '⏰ Time expired';
     }
-    
-    const hours = Math.floor(remaining / (1000 * 60 * 60));
-    const minutes = Math.floor((remaining % (1000 * 60 * 60)) / (1000 * 60));
-    const seconds = Math.floor((remaining % (1000 * 60)) / 1000);
-    
-    const timeString = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-    
+
     if (remaining < 5 * 60 * 1000) {
       return `🚨 ${timeString} - CRITICAL!`;
     } else if (remaining < 15 * 60 * 1000) {
@@ -622,7 +1510,7 @@ const AdminDashboard = () => {
               {Array.isArray(games) && games.filter(game => game.status === 'active').length > 0 ? (
                 <div className="overview-games-list">
                   {games.filter(game => game.status === 'active').map(game => (
-                    <div key={game._id || game.id} className="overview-game-item">
+                    <div key={game._id} className="overview-game-item">
                       <div className="overview-game-header">
                         <strong>#{game.gameCode}</strong>
                         <span className="overview-game-name">{game.name}</span>
@@ -668,7 +1556,7 @@ const AdminDashboard = () => {
               {Array.isArray(players) && players.filter(p => p.status === 'active').length > 0 ? (
                 <div className="overview-players-list">
                   {players.filter(p => p.status === 'active').map(player => (
-                    <div key={player._id || player.id} className="overview-player-item">
+                    <div key={player._id} className="overview-player-item">
                       <div className="overview-player-header">
                         <strong>{player.name.toUpperCase()}</strong>
                         <span className={`status-badge-enhanced ${player.status}`}>
@@ -677,7 +1565,7 @@ const AdminDashboard = () => {
                       </div>
                       <div className="overview-player-details">
                         <div><strong>GAME:</strong> #{player.gameCode || 'N/A'}</div>
-                        <div><strong>TASKS:</strong> {player.tasksCompleted || 0}/6</div>
+                        <div><strong>TASKS:</strong> {player.tasksCompleted || 0}/{getTaskCount(games.find(g => g.gameCode === player.gameCode))}</div>
                       </div>
                       <div className="overview-player-actions">
                         <button 
@@ -820,7 +1708,7 @@ const AdminDashboard = () => {
         ) : (
           <div className="klopjacht-games-grid">
             {Array.isArray(games) ? games.map(game => (
-              <div key={game._id || game.id} className="klopjacht-game-card">
+              <div key={game._id} className="klopjacht-game-card">
                 <div className="game-card-header-enhanced">
                   <div className="game-title">
                     <h4>{game.name}</h4>
@@ -870,7 +1758,7 @@ const AdminDashboard = () => {
                   </button>
                   <button 
                     className="btn-enhanced btn-info-enhanced" 
-                    onClick={() => navigate(`/manage-players/${game._id || game.id}`)}
+                    onClick={() => navigate(`/manage-players/${game._id}`)}
                   >
                     👥 PLAYERS
                   </button>
@@ -896,9 +1784,11 @@ const AdminDashboard = () => {
       setLoading(true);
 
       try {
-        // Automatically set Task 6 (extraction point task) to use extraction point location
+        const { taskCount } = gameForm;
+
+        // Automatically set the last task (extraction point task) to use extraction point location
         const updatedTasks = gameForm.tasks.map((task, index) => {
-          if (index === 5) { // Task 6 (index 5)
+          if (index === taskCount - 1) {
             return {
               ...task,
               location: {
@@ -911,17 +1801,16 @@ const AdminDashboard = () => {
           return task;
         });
 
-        // Validate that we have at least some tasks with complete data (including the auto-filled Task 6)
-        const completeTasks = updatedTasks.filter(task => 
-          task.question && task.answer && task.location.address
-        );
+        // Validate that we have at least some tasks with complete data (including the auto-filled last task)
+        const completeTasks = updatedTasks.filter(isTaskComplete);
 
-        // Always create Task 6 as extraction point if we have extraction point
+        // Always create the last task as extraction point if we have extraction point
         if (gameForm.extractionPoint.address) {
           const extractionTask = {
-            id: 6,
+            ...createEmptyTask(taskCount),
             question: 'Scan QR code or enter manual code to reach extraction point',
             answer: 'extracted',
+            hints: '',
             location: {
               lat: gameForm.extractionPoint.lat,
               lng: gameForm.extractionPoint.lng,
@@ -929,11 +1818,11 @@ const AdminDashboard = () => {
             }
           };
           
-          // Always set Task 6 as extraction point
-          updatedTasks[5] = extractionTask;
+          // Always set the last task as extraction point
+          updatedTasks[taskCount - 1] = extractionTask;
           
           // Add to complete tasks if not already there
-          if (!completeTasks.find(t => t.id === 6)) {
+          if (!completeTasks.find(t => t.id === taskCount)) {
             completeTasks.push(extractionTask);
           }
         }
@@ -948,6 +1837,8 @@ const AdminDashboard = () => {
         const gameData = {
           name: gameForm.name,
           duration: gameForm.duration,
+          // The datetime input is local time; the server gets an exact moment
+          scheduledStartTime: gameForm.scheduledStartTime ? new Date(gameForm.scheduledStartTime).toISOString() : undefined,
           maxPlayers: gameForm.maxPlayers,
           extractionPoint: {
             latitude: gameForm.extractionPoint.lat || 50.8503, // Default to Brussels if no coordinates
@@ -955,7 +1846,24 @@ const AdminDashboard = () => {
             address: gameForm.extractionPoint.address
           },
           settings: {
-            maxPlayers: gameForm.maxPlayers
+            maxPlayers: gameForm.maxPlayers,
+            extractionOpenMinutes: gameForm.extractionOpenMinutes,
+            timerWarningMinutes: parseTimerWarnings(gameForm.timerWarningMinutes),
+            taskCount,
+            taskOrder: gameForm.taskOrder,
+            shareRoutesByTeam: gameForm.shareRoutesByTeam,
+            extractionAssignment: gameForm.extractionAssignment,
+            shareExtractionByTeam: gameForm.shareExtractionByTeam,
+            maxAttempts: gameForm.maxAttempts,
+            lockoutMinutes: gameForm.lockoutMinutes,
+            wrongAnswerPenalty: gameForm.wrongAnswerPenalty,
+            penaltyMinutes: gameForm.penaltyMinutes,
+            hintCost: gameForm.hintCost,
+            hintPenaltyMinutes: gameForm.hintPenaltyMinutes,
+            hintScorePenalty: gameForm.hintScorePenalty,
+            catchRadius: gameForm.catchRadius,
+            catchLocationMaxAge: gameForm.catchLocationMaxAge,
+            catchConfirmSeconds: gameForm.catchConfirmSeconds
           }
         };
 
@@ -973,7 +1881,7 @@ const AdminDashboard = () => {
         if (!response.ok) {
           const error = await response.json();
           console.error('Game creation failed:', error);
-          alert(`Failed to create game: ${error.details ? error.details.map((d: any) => d.msg).join(', ') : error.message || 'Unknown error'}`);
+          alert(`Failed to create game: ${error.details ? error.details.map((d: ValidationDetail) => d.msg).join(', ') : error.message || 'Unknown error'}`);
           setLoading(false);
           return;
         }
@@ -983,13 +1891,15 @@ const AdminDashboard = () => {
 
         // Now add tasks if we have any complete ones
         if (completeTasks.length > 0) {
-          // Pad to exactly 6 tasks as required by backend
+          // Pad to the game's task count as required by backend, keeping the extraction point last
           const paddedTasks = [...completeTasks];
-          while (paddedTasks.length < 6) {
-            paddedTasks.push({
-              id: paddedTasks.length + 1,
+          const hasExtractionTask = paddedTasks.some(t => t.id === taskCount);
+          while (paddedTasks.length < taskCount) {
+            paddedTasks.splice(paddedTasks.length - (hasExtractionTask ? 1 : 0), 0, {
+              ...createEmptyTask(paddedTasks.length + 1),
               question: `Task ${paddedTasks.length + 1} - Please complete this task`,
               answer: 'complete',
+              hints: '',
               location: {
                 lat: gameData.extractionPoint.latitude,
                 lng: gameData.extractionPoint.longitude,
@@ -1000,8 +1910,28 @@ const AdminDashboard = () => {
 
           const tasksData = {
             tasks: paddedTasks.map(task => ({
+              type: task.type,
               question: task.question,
-              answer: task.answer,
+              answer: task.type === 'gps_checkin' || task.type === 'photo' ? undefined : task.answer,
+              ...(task.type === 'multiple_choice' && { options: getTaskOptions(task) }),
+              ...(task.type === 'text' && {
+                acceptedAnswers: splitLines(task.acceptedAnswers),
+                matching: {
+                  foldAccents: task.lenientMatching,
+                  ignorePunctuation: task.lenientMatching,
+                  ignoreWhitespace: task.lenientMatching,
+                  ignoreArticles: task.lenientMatching,
+                  maxDistance: task.maxDistance,
+                  pattern: task.pattern.trim() || undefined
+                }
+              }),
+              ...(task.type === 'numeric' && { tolerance: task.tolerance }),
+              ...(task.type === 'gps_checkin' && { checkInRadius: task.checkInRadius }),
+              hints: splitLines(task.hints),
+              ...(gameForm.taskOrder === 'branching' && task.stage && { stage: parseInt(task.stage) }),
+              ...(task.mediaUrl.trim() && {
+                media: { url: task.mediaUrl.trim(), kind: task.mediaKind, caption: task.mediaCaption.trim() || undefined }
+              }),
               location: {
                 latitude: task.location.lat || gameData.extractionPoint.latitude,
                 longitude: task.location.lng || gameData.extractionPoint.longitude,
@@ -1024,7 +1954,7 @@ const AdminDashboard = () => {
           if (!tasksResponse.ok) {
             const tasksError = await tasksResponse.json();
             console.error('Tasks creation failed:', tasksError);
-            alert(`Game created but failed to add tasks: ${tasksError.details ? tasksError.details.map((d: any) => d.msg).join(', ') : tasksError.message || 'Unknown error'}`);
+            alert(`Game created but failed to add tasks: ${tasksError.details ? tasksError.details.map((d: ValidationDetail) => d.msg).join(', ') : tasksError.message || 'Unknown error'}`);
           } else {
             console.log('Tasks added successfully');
           }
@@ -1038,12 +1968,16 @@ const AdminDashboard = () => {
           duration: 30,
           maxPlayers: 20,
           extractionPoint: { lat: 0, lng: 0, address: '' },
-          tasks: Array(6).fill(null).map((_, i) => ({
-            id: i + 1,
-            question: '',
-            answer: '',
-            location: { lat: 0, lng: 0, address: '' }
-          }))
+          extractionOpenMinutes: 0,
+          timerWarningMinutes: DEFAULT_TIMER_WARNINGS,
+          scheduledStartTime: '',
+          taskCount: DEFAULT_TASK_COUNT,
+          ...DEFAULT_ROUTE_RULES,
+          ...DEFAULT_EXTRACTION_RULES,
+          ...DEFAULT_ANSWER_RULES,
+          ...DEFAULT_HINT_RULES,
+          ...DEFAULT_CATCH_RULES,
+          tasks: createEmptyTasks(DEFAULT_TASK_COUNT)
         });
         setCurrentStep(1);
         
@@ -1078,6 +2012,35 @@ const AdminDashboard = () => {
       setShowMapSelector(false);
     };
 
+    // Grow or shrink the mission list, keeping what was already filled in
+    const handleTaskCountChange = (value: number) => {
+      const taskCount = Math.min(20, Math.max(1, value || DEFAULT_TASK_COUNT));
+      setGameForm(prev => ({
+        ...prev,
+        taskCount,
+        tasks: Array(taskCount).fill(null).map((_, i) => prev.tasks[i] || createEmptyTask(i + 1))
+      }));
+    };
+
+    const updateTask = (index: number, changes: Partial<TaskFormData>) => {
+      setGameForm(prev => ({
+        ...prev,
+        tasks: prev.tasks.map((t, i) => i === index ? { ...t, ...changes } : t)
+      }));
+    };
+
+    // Swap a mission with its neighbour; the extraction point always stays last
+    const moveTask = (index: number, direction: -1 | 1) => {
+      setGameForm(prev => {
+        const target = index + direction;
+        if (target < 0 || target >= prev.taskCount - 1) return prev;
+
+        const tasks = [...prev.tasks];
+        [tasks[index], tasks[target]] = [tasks[target], tasks[index]];
+        return { ...prev, tasks: tasks.map((task, i) => ({ ...task, id: i + 1 })) };
+      });
+    };
+
     const openMapSelector = (type: 'extraction' | 'task', taskIndex?: number) => {
       setMapSelectorType(type);
       if (type === 'task' && taskIndex !== undefined) {
@@ -1147,6 +2110,70 @@ const AdminDashboard = () => {
                     />
                   </div>
 
+                  <div className="form-group">
+                    <label htmlFor="scheduledStartTime">Scheduled Start</label>
+                    <input
+                      type="datetime-local"
+                      id="scheduledStartTime"
+                      value={gameForm.scheduledStartTime}
+                      onChange={(e) => setGameForm(prev => ({ ...prev, scheduledStartTime: e.target.value }))}
+                      className="form-control"
+                    />
+                    <small className="form-help">Leave empty to start the game yourself</small>
+                  </div>
+
+                  <div className="form-group">
+                    <label htmlFor="extractionOpenMinutes">Extraction Opens (minutes before the end)</label>
+                    <input
+                      type="number"
+                      id="extractionOpenMinutes"
+                      value={gameForm.extractionOpenMinutes}
+                      onChange={(e) => setGameForm(prev => ({ ...prev, extractionOpenMinutes: Math.min(prev.duration, Math.max(0, parseInt(e.target.value) || 0)) }))}
+                      min="0"
+                      max={gameForm.duration}
+                      className="form-control"
+                    />
+                    <small className="form-help">0 keeps the extraction point open for the whole game</small>
+                  </div>
+
+                  <div className="form-group">
+                    <label htmlFor="extractionAssignment">Extraction Point per Fugitive</label>
+                    <select
+                      id="extractionAssignment"
+                      value={gameForm.extractionAssignment}
+                      onChange={(e) => setGameForm(prev => ({ ...prev, extractionAssignment: e.target.value as 'random' | 'game_master' }))}
+                      className="form-control"
+                    >
+                      <option value="random">Drawn at random when the game starts</option>
+                      <option value="game_master">Picked by the game master</option>
+                    </select>
+                    <small className="form-help">Other extraction points and decoys are added from the game's page</small>
+                  </div>
+
+                  <div className="form-group">
+                    <label>
+                      <input
+                        type="checkbox"
+                        checked={gameForm.shareExtractionByTeam}
+                        onChange={(e) => setGameForm(prev => ({ ...prev, shareExtractionByTeam: e.target.checked }))}
+                      />
+                      {' '}Teammates share an extraction point
+                    </label>
+                  </div>
+
+                  <div className="form-group">
+                    <label htmlFor="timerWarningMinutes">Timer Warnings (minutes left)</label>
+                    <input
+                      type="text"
+                      id="timerWarningMinutes"
+                      value={gameForm.timerWarningMinutes}
+                      onChange={(e) => setGameForm(prev => ({ ...prev, timerWarningMinutes: e.target.value }))}
+                      placeholder={DEFAULT_TIMER_WARNINGS}
+                      className="form-control"
+                    />
+                    <small className="form-help">Comma-separated, e.g. 30, 10, 5, 1. Leave empty for no warnings</small>
+                  </div>
+
                   <div className="form-group">
                     <label htmlFor="maxPlayers">Max Players *</label>
                     <input
@@ -1160,6 +2187,193 @@ const AdminDashboard = () => {
                       className="form-control"
                     />
                   </div>
+
+                  <div className="form-group">
+                    <label htmlFor="taskCount">Number of Tasks *</label>
+                    <input
+                      type="number"
+                      id="taskCount"
+                      value={gameForm.taskCount}
+                      onChange={(e) => handleTaskCountChange(parseInt(e.target.value))}
+                      min="1"
+                      max="20"
+                      required
+                      className="form-control"
+                    />
+                    <small className="form-help">The last task is the extraction point</small>
+                  </div>
+
+                  <div className="form-group">
+                    <label htmlFor="taskOrder">Task Order</label>
+                    <select
+                      id="taskOrder"
+                      value={gameForm.taskOrder}
+                      onChange={(e) => setGameForm(prev => ({ ...prev, taskOrder: e.target.value as TaskOrder }))}
+                      className="form-control"
+                    >
+                      {(Object.keys(TASK_ORDER_LABELS) as TaskOrder[]).map(order => (
+                        <option key={order} value={order}>{TASK_ORDER_LABELS[order]}</option>
+                      ))}
+                    </select>
+                    <small className="form-help">Each fugitive gets their own route when the game starts</small>
+                  </div>
+
+                  {gameForm.taskOrder === 'shuffled' && (
+                    <div className="form-group">
+                      <label>
+                        <input
+                          type="checkbox"
+                          checked={gameForm.shareRoutesByTeam}
+                          onChange={(e) => setGameForm(prev => ({ ...prev, shareRoutesByTeam: e.target.checked }))}
+                        />
+                        {' '}Teammates share a route
+                      </label>
+                    </div>
+                  )}
+
+                  <div className="form-group">
+                    <label htmlFor="maxAttempts">Wrong Answers Before Lockout</label>
+                    <input
+                      type="number"
+                      id="maxAttempts"
+                      value={gameForm.maxAttempts}
+                      onChange={(e) => setGameForm(prev => ({ ...prev, maxAttempts: Math.min(20, Math.max(0, parseInt(e.target.value) || 0)) }))}
+                      min="0"
+                      max="20"
+                      className="form-control"
+                    />
+                    <small className="form-help">0 allows unlimited guesses</small>
+                  </div>
+
+                  {gameForm.maxAttempts > 0 && (
+                    <div className="form-group">
+                      <label htmlFor="lockoutMinutes">Lockout (minutes)</label>
+                      <input
+                        type="number"
+                        id="lockoutMinutes"
+                        value={gameForm.lockoutMinutes}
+                        onChange={(e) => setGameForm(prev => ({ ...prev, lockoutMinutes: Math.min(60, Math.max(1, parseInt(e.target.value) || 5)) }))}
+                        min="1"
+                        max="60"
+                        className="form-control"
+                      />
+                    </div>
+                  )}
+
+                  <div className="form-group">
+                    <label htmlFor="wrongAnswerPenalty">Wrong Answer Penalty</label>
+                    <select
+                      id="wrongAnswerPenalty"
+                      value={gameForm.wrongAnswerPenalty}
+                      onChange={(e) => setGameForm(prev => ({ ...prev, wrongAnswerPenalty: e.target.value as WrongAnswerPenalty }))}
+                      className="form-control"
+                    >
+                      <option value="none">None</option>
+                      <option value="reveal">Reveal location to hunters</option>
+                      <option value="time">Deduct time to escape</option>
+                    </select>
+                  </div>
+
+                  {gameForm.wrongAnswerPenalty === 'time' && (
+                    <div className="form-group">
+                      <label htmlFor="penaltyMinutes">Minutes Deducted</label>
+                      <input
+                        type="number"
+                        id="penaltyMinutes"
+                        value={gameForm.penaltyMinutes}
+                        onChange={(e) => setGameForm(prev => ({ ...prev, penaltyMinutes: Math.min(30, Math.max(1, parseInt(e.target.value) || 5)) }))}
+                        min="1"
+                        max="30"
+                        className="form-control"
+                      />
+                    </div>
+                  )}
+
+                  <div className="form-group">
+                    <label htmlFor="hintCost">Hint Cost</label>
+                    <select
+                      id="hintCost"
+                      value={gameForm.hintCost}
+                      onChange={(e) => setGameForm(prev => ({ ...prev, hintCost: e.target.value as HintCost }))}
+                      className="form-control"
+                    >
+                      <option value="reveal">Reveal location to hunters</option>
+                      <option value="time">Deduct time to escape</option>
+                      <option value="score">Deduct points</option>
+                      <option value="none">Free</option>
+                    </select>
+                  </div>
+
+                  {gameForm.hintCost === 'time' && (
+                    <div className="form-group">
+                      <label htmlFor="hintPenaltyMinutes">Minutes Deducted Per Hint</label>
+                      <input
+                        type="number"
+                        id="hintPenaltyMinutes"
+                        value={gameForm.hintPenaltyMinutes}
+                        onChange={(e) => setGameForm(prev => ({ ...prev, hintPenaltyMinutes: Math.min(30, Math.max(1, parseInt(e.target.value) || 5)) }))}
+                        min="1"
+                        max="30"
+                        className="form-control"
+                      />
+                    </div>
+                  )}
+
+                  {gameForm.hintCost === 'score' && (
+                    <div className="form-group">
+                      <label htmlFor="hintScorePenalty">Points Deducted Per Hint</label>
+                      <input
+                        type="number"
+                        id="hintScorePenalty"
+                        value={gameForm.hintScorePenalty}
+                        onChange={(e) => setGameForm(prev => ({ ...prev, hintScorePenalty: Math.min(100, Math.max(1, parseInt(e.target.value) || 10)) }))}
+                        min="1"
+                        max="100"
+                        className="form-control"
+                      />
+                    </div>
+                  )}
+
+                  <div className="form-group">
+                    <label htmlFor="catchRadius">Catch Radius (meters)</label>
+                    <input
+                      type="number"
+                      id="catchRadius"
+                      value={gameForm.catchRadius}
+                      onChange={(e) => setGameForm(prev => ({ ...prev, catchRadius: Math.min(100, Math.max(3, parseInt(e.target.value) || 15)) }))}
+                      min="3"
+                      max="100"
+                      className="form-control"
+                    />
+                    <small className="form-help">Hunters must be this close to a fugitive to catch them</small>
+                  </div>
+
+                  <div className="form-group">
+                    <label htmlFor="catchLocationMaxAge">Max Location Age (seconds)</label>
+                    <input
+                      type="number"
+                      id="catchLocationMaxAge"
+                      value={gameForm.catchLocationMaxAge}
+                      onChange={(e) => setGameForm(prev => ({ ...prev, catchLocationMaxAge: Math.min(600, Math.max(10, parseInt(e.target.value) || 60)) }))}
+                      min="10"
+                      max="600"
+                      className="form-control"
+                    />
+                  </div>
+
+                  <div className="form-group">
+                    <label htmlFor="catchConfirmSeconds">Time to Dispute a Catch (seconds)</label>
+                    <input
+                      type="number"
+                      id="catchConfirmSeconds"
+                      value={gameForm.catchConfirmSeconds}
+                      onChange={(e) => setGameForm(prev => ({ ...prev, catchConfirmSeconds: Math.min(300, Math.max(15, parseInt(e.target.value) || 60)) }))}
+                      min="15"
+                      max="300"
+                      className="form-control"
+                    />
+                    <small className="form-help">Catches the fugitive doesn't answer in time are confirmed</small>
+                  </div>
                 </div>
 
                 <div className="form-actions">
@@ -1252,7 +2466,7 @@ const AdminDashboard = () => {
                   <div className="game-code">STEP 3 OF 3</div>
                 </div>
                 <div className="status-badge-enhanced setup">
-                  {gameForm.tasks.filter(t => t.question && t.answer && t.location.address).length}/6 TASKS
+                  {gameForm.tasks.filter(isTaskComplete).length}/{gameForm.taskCount} TASKS
                 </div>
               </div>
               
@@ -1260,9 +2474,29 @@ const AdminDashboard = () => {
                 <div className="tasks-grid">
                   {gameForm.tasks.map((task, index) => (
                     <div key={task.id} className="task-form-item">
-                      <h5>Mission {task.id} {task.id === 6 ? '(EXTRACTION POINT - NO MISSION)' : ''}</h5>
+                      <h5>Mission {task.id} {task.id === gameForm.taskCount ? '(EXTRACTION POINT - NO MISSION)' : ''}</h5>
+                      {task.id < gameForm.taskCount && gameForm.taskCount > 2 ? (
+                        <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem' }}>
+                          <button
+                            type="button"
+                            className="btn-enhanced btn-secondary-enhanced btn-small"
+                            onClick={() => moveTask(index, -1)}
+                            disabled={index === 0}
+                          >
+                            ▲ EARLIER
+                          </button>
+                          <button
+                            type="button"
+                            className="btn-enhanced btn-secondary-enhanced btn-small"
+                            onClick={() => moveTask(index, 1)}
+                            disabled={index >= gameForm.taskCount - 2}
+                          >
+                            ▼ LATER
+                          </button>
+                        </div>
+                      ) : null}
                       
-                      {task.id === 6 ? (
+                      {task.id === gameForm.taskCount ? (
                         <div style={{ 
                           padding: '1rem', 
                           backgroundColor: '#e8f5e8', 
@@ -1272,7 +2506,7 @@ const AdminDashboard = () => {
                         }}>
                           <h6 style={{ color: '#2e7d32', marginBottom: '0.5rem' }}>🎯 EXTRACTION POINT</h6>
                           <p style={{ color: '#2e7d32', margin: 0, fontSize: '0.9rem' }}>
-                            <strong>Task 6 is automatically the extraction point.</strong><br/>
+                            <strong>Task {gameForm.taskCount} is automatically the extraction point.</strong><br/>
                             Players just need to scan the QR code or enter the manual code to complete the game - no mission required!
                           </p>
                         </div>
@@ -1295,26 +2529,224 @@ const AdminDashboard = () => {
                           </div>
 
                           <div className="form-group">
-                            <label>Answer *</label>
-                            <input
-                              type="text"
-                              value={task.answer}
-                              onChange={(e) => setGameForm(prev => ({
-                                ...prev,
-                                tasks: prev.tasks.map((t, i) => 
-                                  i === index ? { ...t, answer: e.target.value } : t
-                                )
-                              }))}
-                              placeholder="What is the correct answer?"
+                            <label>Task Type</label>
+                            <select
+                              value={task.type}
+                              onChange={(e) => updateTask(index, { type: e.target.value as TaskType })}
+                              className="form-control"
+                            >
+                              {(Object.keys(TASK_TYPE_LABELS) as TaskType[]).map(type => (
+                                <option key={type} value={type}>{TASK_TYPE_LABELS[type]}</option>
+                              ))}
+                            </select>
+                          </div>
+
+                          {gameForm.taskOrder === 'branching' && (
+                            <div className="form-group">
+                              <label>Stage</label>
+                              <input
+                                type="number"
+                                value={task.stage}
+                                onChange={(e) => updateTask(index, { stage: e.target.value })}
+                                min="1"
+                                max="20"
+                                placeholder={String(task.id)}
+                                className="form-control"
+                              />
+                              <small className="form-help">Fugitives complete one task of each stage, in stage order</small>
+                            </div>
+                          )}
+
+                          {task.type === 'multiple_choice' && (
+                            <div className="form-group">
+                              <label>Options * (one per line, 2-8)</label>
+                              <textarea
+                                value={task.options}
+                                onChange={(e) => updateTask(index, { options: e.target.value })}
+                                placeholder={'Red\nGreen\nBlue'}
+                                rows={4}
+                                className="form-control"
+                              />
+                            </div>
+                          )}
+
+                          {(task.type === 'text' || task.type === 'multiple_choice' || task.type === 'numeric') && (
+                            <div className="form-group">
+                              <label>Answer *</label>
+                              {task.type === 'multiple_choice' ? (
+                                <select
+                                  value={task.answer}
+                                  onChange={(e) => updateTask(index, { answer: e.target.value })}
+                                  className="form-control"
+                                >
+                                  <option value="">Select the correct option</option>
+                                  {getTaskOptions(task).map(option => (
+                                    <option key={option} value={option}>{option}</option>
+                                  ))}
+                                </select>
+                              ) : (
+                                <input
+                                  type={task.type === 'numeric' ? 'number' : 'text'}
+                                  step="any"
+                                  value={task.answer}
+                                  onChange={(e) => setGameForm(prev => ({
+                                    ...prev,
+                                    tasks: prev.tasks.map((t, i) => 
+                                      i === index ? { ...t, answer: e.target.value } : t
+                                    )
+                                  }))}
+                                  placeholder="What is the correct answer?"
+                                  className="form-control"
+                                />
+                              )}
+                            </div>
+                          )}
+
+                          {task.type === 'text' && (
+                            <>
+                              <div className="form-group">
+                                <label>Also Accept (one per line)</label>
+                                <textarea
+                                  value={task.acceptedAnswers}
+                                  onChange={(e) => updateTask(index, { acceptedAnswers: e.target.value })}
+                                  placeholder={'Other spellings or names that count as correct'}
+                                  rows={2}
+                                  className="form-control"
+                                />
+                              </div>
+
+                              <div className="form-group">
+                                <label>
+                                  <input
+                                    type="checkbox"
+                                    checked={task.lenientMatching}
+                                    onChange={(e) => updateTask(index, { lenientMatching: e.target.checked })}
+                                  />
+                                  {' '}Ignore accents, punctuation, spaces and articles (de, het, een, the, a)
+                                </label>
+                              </div>
+
+                              <div className="form-row">
+                                <div className="form-group">
+                                  <label>Typo Tolerance</label>
+                                  <select
+                                    value={task.maxDistance}
+                                    onChange={(e) => updateTask(index, { maxDistance: parseInt(e.target.value) })}
+                                    className="form-control"
+                                  >
+                                    <option value={0}>Exact</option>
+                                    <option value={1}>1 typo</option>
+                                    <option value={2}>2 typos</option>
+                                    <option value={3}>3 typos</option>
+                                  </select>
+                                </div>
+
+                                <div className="form-group">
+                                  <label>Pattern (advanced)</label>
+                                  <input
+                                    type="text"
+                                    value={task.pattern}
+                                    onChange={(e) => updateTask(index, { pattern: e.target.value })}
+                                    placeholder="Optional regular expression, e.g. ^(dom)?toren$"
+                                    className="form-control"
+                                  />
+                                </div>
+                              </div>
+                            </>
+                          )}
+
+                          {task.type === 'numeric' && (
+                            <div className="form-group">
+                              <label>Tolerance (±)</label>
+                              <input
+                                type="number"
+                                step="any"
+                                min="0"
+                                value={task.tolerance}
+                                onChange={(e) => updateTask(index, { tolerance: parseFloat(e.target.value) || 0 })}
+                                className="form-control"
+                              />
+                            </div>
+                          )}
+
+                          {task.type === 'gps_checkin' && (
+                            <div className="form-group">
+                              <label>Check-in Radius (meters)</label>
+                              <input
+                                type="number"
+                                min="5"
+                                max="500"
+                                value={task.checkInRadius}
+                                onChange={(e) => updateTask(index, { checkInRadius: parseInt(e.target.value) || 25 })}
+                                className="form-control"
+                              />
+                              <small className="form-help">Fugitives must be this close to the task location to check in</small>
+                            </div>
+                          )}
+
+                          {task.type === 'photo' && (
+                            <small className="form-help">
+                              Fugitives upload a photo; you approve or reject it from the game details page
+                            </small>
+                          )}
+
+                          <div className="form-group">
+                            <label>Phone Call Hints</label>
+                            <textarea
+                              value={task.hints}
+                              onChange={(e) => updateTask(index, { hints: e.target.value })}
+                              placeholder="Optional - one hint per line, given in order to fugitives who call for help"
                               className="form-control"
+                              rows={3}
                             />
+                            <small className="form-help">Up to 5 hints; each call costs what you set in Step 1</small>
+                          </div>
+
+                          <div className="form-row">
+                            <div className="form-group">
+                              <label>Media</label>
+                              <input
+                                type="url"
+                                value={task.mediaUrl}
+                                onChange={(e) => updateTask(index, { mediaUrl: e.target.value })}
+                                placeholder="Optional - https://... picture, sound or video shown with the question"
+                                className="form-control"
+                              />
+                            </div>
+
+                            <div className="form-group">
+                              <label>Media Type</label>
+                              <select
+                                value={task.mediaKind}
+                                onChange={(e) => updateTask(index, { mediaKind: e.target.value as TaskFormData['mediaKind'] })}
+                                className="form-control"
+                              >
+                                <option value="image">Picture</option>
+                                <option value="audio">Sound</option>
+                                <option value="video">Video</option>
+                              </select>
+                            </div>
                           </div>
+
+                          {task.mediaUrl.trim() && (
+                            <div className="form-group">
+                              <label>Media Description</label>
+                              <input
+                                type="text"
+                                value={task.mediaCaption}
+                                onChange={(e) => updateTask(index, { mediaCaption: e.target.value })}
+                                placeholder="Shown under the media and read out by screen readers"
+                                maxLength={200}
+                                className="form-control"
+                              />
+                            </div>
+                          )}
                         </>
                       )}
 
                       <div className="form-group">
                         <label>Location *</label>
-                        {task.id === 6 ? (
+                        {task.id === gameForm.taskCount ? (
                           <div className="location-selector">
                             <input
                               type="text"
@@ -1351,14 +2783,14 @@ const AdminDashboard = () => {
                             </button>
                           </div>
                         )}
-                        {task.id !== 6 && task.location.lat !== 0 && task.location.lng !== 0 && (
+                        {task.id !== gameForm.taskCount && task.location.lat !== 0 && task.location.lng !== 0 && (
                           <small className="form-help" style={{ color: '#28a745', fontWeight: 'bold' }}>
                             📍 Coordinates: {task.location.lat.toFixed(4)}, {task.location.lng.toFixed(4)}
                           </small>
                         )}
-                        {task.id === 6 && (
+                        {task.id === gameForm.taskCount && (
                           <small className="form-help" style={{ color: '#6c757d', fontStyle: 'italic' }}>
-                            Task 6 automatically uses the extraction point location from Step 2
+                            Task {gameForm.taskCount} automatically uses the extraction point location from Step 2
                           </small>
                         )}
                       </div>
@@ -1398,7 +2830,7 @@ const AdminDashboard = () => {
   };
 
   const renderGameDetails = (gameCode: string) => {
-    const game = games.find(g => g.gameCode === gameCode || g.code === gameCode);
+    const game = games.find(g => g.gameCode === gameCode);
     
     if (!game) {
       return (
@@ -1470,7 +2902,13 @@ const AdminDashboard = () => {
                   </div>
                   <div className="info-item">
                     <div className="info-label">STARTED</div>
-                    <div className="info-value">{game.startTime ? new Date(game.startTime).toLocaleString() : 'Not started'}</div>
+                    <div className="info-value">
+                      {game.startTime
+                        ? new Date(game.startTime).toLocaleString()
+                        : game.scheduledStartTime
+                          ? `Scheduled for ${new Date(game.scheduledStartTime).toLocaleString()}`
+                          : 'Not started'}
+                    </div>
                   </div>
                   <div className="info-item">
                     <div className="info-label">CREATOR</div>
@@ -1495,7 +2933,7 @@ const AdminDashboard = () => {
                       onClick={async () => {
                         if (window.confirm('Are you sure you want to pause this game?')) {
                           try {
-                            const response = await fetch(`${API_ENDPOINTS.GAMES}/${game._id || game.id}/pause`, {
+                            const response = await fetch(`${API_ENDPOINTS.GAMES}/${game._id}/pause`, {
                               method: 'POST',
                               headers: {
                                 'Authorization': `Bearer ${localStorage.getItem('token')}`,
@@ -1526,7 +2964,7 @@ const AdminDashboard = () => {
                       onClick={async () => {
                         if (window.confirm('Are you sure you want to resume this game?')) {
                           try {
-                            const response = await fetch(`${API_ENDPOINTS.GAMES}/${game._id || game.id}/resume`, {
+                            const response = await fetch(`${API_ENDPOINTS.GAMES}/${game._id}/resume`, {
                               method: 'POST',
                               headers: {
                                 'Authorization': `Bearer ${localStorage.getItem('token')}`,
@@ -1557,7 +2995,7 @@ const AdminDashboard = () => {
                       onClick={async () => {
                         if (window.confirm('Are you sure you want to start this game?')) {
                           try {
-                            const response = await fetch(`${API_ENDPOINTS.GAMES}/${game._id || game.id}/start`, {
+                            const response = await fetch(`${API_ENDPOINTS.GAMES}/${game._id}/start`, {
                               method: 'POST',
                               headers: {
                                 'Authorization': `Bearer ${localStorage.getItem('token')}`,
@@ -1588,7 +3026,7 @@ const AdminDashboard = () => {
                       onClick={async () => {
                         if (window.confirm('Are you sure you want to end this game? This action cannot be undone.')) {
                           try {
-                            const response = await fetch(`${API_ENDPOINTS.GAMES}/${game._id || game.id}/end`, {
+                            const response = await fetch(`${API_ENDPOINTS.GAMES}/${game._id}/end`, {
                               method: 'POST',
                               headers: {
                                 'Authorization': `Bearer ${localStorage.getItem('token')}`,
@@ -1640,7 +3078,7 @@ const AdminDashboard = () => {
                       
                       if (window.confirm(confirmMessage)) {
                         try {
-                          const response = await fetch(`${API_ENDPOINTS.GAMES}/${game._id || game.id}`, {
+                          const response = await fetch(`${API_ENDPOINTS.GAMES}/${game._id}`, {
                             method: 'DELETE',
                             headers: {
                               'Authorization': `Bearer ${localStorage.getItem('token')}`,
@@ -1682,8 +3120,8 @@ const AdminDashboard = () => {
               <div className="game-card-body-enhanced">
                 {game.joinedPlayers && game.joinedPlayers.length > 0 ? (
                   <div className="game-players-list">
-                    {game.joinedPlayers.map((player: any, index: number) => (
-                      <div key={player._id || player.id || index} className="game-player-item">
+                    {game.joinedPlayers.map(player => (
+                      <div key={player._id} className="game-player-item">
                         <div className="player-info">
                           <div className="player-name">
                             <strong>{player.name?.toUpperCase() || 'UNKNOWN PLAYER'}</strong>
@@ -1708,7 +3146,7 @@ const AdminDashboard = () => {
                             <div className="status-item">
                               <span className="status-label">Tasks:</span>
                               <span className="status-value">
-                                {player.completedTasks?.length || player.gameStats?.tasksCompleted || player.tasksCompleted || 0}/6
+                                {player.completedTasks?.length || player.gameStats?.tasksCompleted || player.tasksCompleted || 0}/{getTaskCount(game)}
                               </span>
                             </div>
                             {player.lastSeen && (
@@ -1719,6 +3157,18 @@ const AdminDashboard = () => {
                                 </span>
                               </div>
                             )}
+                            {/* Answers as typed, and the accepted answer they matched */}
+                            {player.completedTasks?.filter(completion => completion.answer).map(completion => (
+                              <div key={completion.taskNumber} className="status-item">
+                                <span className="status-label">Task {completion.taskNumber}:</span>
+                                <span className="status-value">
+                                  "{completion.answer}"
+                                  {completion.matchedAnswer && completion.matchedAnswer !== completion.answer.toLowerCase().trim()
+                                    ? ` ≈ ${completion.matchedAnswer}`
+                                    : ''}
+                                </span>
+                              </div>
+                            ))}
                           </div>
                         </div>
                         <div className="player-actions">
@@ -1729,6 +3179,13 @@ const AdminDashboard = () => {
                           >
                             📍 LOCATION
                           </button>
+                          <button 
+                            className="btn-enhanced btn-danger-enhanced btn-small"
+                            onClick={() => handleRevokeSession(player)}
+                            title="Sign this player out on all devices"
+                          >
+                            🔒 REVOKE
+                          </button>
                         </div>
                       </div>
                     ))}
@@ -1752,7 +3209,7 @@ const AdminDashboard = () => {
               <div className="game-card-header-enhanced">
                 <div className="game-title">
                   <h4>MISSION QR CODES</h4>
-                  <div className="game-code">FUGITIVE TASKS: {game.tasks?.length || 0}/6</div>
+                  <div className="game-code">FUGITIVE TASKS: {game.tasks?.length || 0}/{getTaskCount(game)}</div>
                 </div>
                 <div className="status-badge-enhanced setup">
                   {game.tasks?.length || 0} QR CODES
@@ -1760,9 +3217,137 @@ const AdminDashboard = () => {
               </div>
               
               <div className="game-card-body-enhanced">
-                <QRCodesDisplay gameId={game._id || game.id} />
+                <QRCodesDisplay gameId={game._id} />
+              </div>
+            </div>
+
+            {/* Reveal Zones Card */}
+            <div className="klopjacht-game-card">
+              <div className="game-card-header-enhanced">
+                <div className="game-title">
+                  <h4>SURVEILLANCE & ATM ZONES</h4>
+                  <div className="game-code">REVEAL FUGITIVES ON ENTRY</div>
+                </div>
+                <div className="status-badge-enhanced setup">
+                  {game.revealZones?.length || 0} ZONES
+                </div>
+              </div>
+
+              <div className="game-card-body-enhanced">
+                <RevealZonesManager
+                  gameId={game._id}
+                  editable={game.status !== 'completed' && game.status !== 'cancelled'}
+                />
+              </div>
+            </div>
+
+            {/* Extraction Points Card */}
+            <div className="klopjacht-game-card">
+              <div className="game-card-header-enhanced">
+                <div className="game-title">
+                  <h4>EXTRACTION POINTS & DECOYS</h4>
+                  <div className="game-code">
+                    {game.settings?.extractionAssignment === 'game_master' ? 'PICKED BY YOU' : 'DRAWN AT THE START'}
+                  </div>
+                </div>
+                <div className="status-badge-enhanced setup">
+                  {(game.extractionPoints?.length || 0) + 1} POINTS
+                </div>
+              </div>
+
+              <div className="game-card-body-enhanced">
+                <ExtractionPointsManager
+                  gameId={game._id}
+                  editable={game.status !== 'completed' && game.status !== 'cancelled'}
+                />
               </div>
             </div>
+
+            {/* Fugitive Badges Card */}
+            <div className="klopjacht-game-card">
+              <div className="game-card-header-enhanced">
+                <div className="game-title">
+                  <h4>FUGITIVE BADGES</h4>
+                  <div className="game-code">HUNTERS SCAN A BADGE TO CATCH ITS FUGITIVE</div>
+                </div>
+              </div>
+
+              <div className="game-card-body-enhanced">
+                <FugitiveBadgesPanel gameId={game._id} />
+              </div>
+            </div>
+
+            {/* Catches Card */}
+            <div className="klopjacht-game-card">
+              <div className="game-card-header-enhanced">
+                <div className="game-title">
+                  <h4>CATCHES</h4>
+                  <div className="game-code">CLAIMED BY HUNTERS, CONFIRMED BY FUGITIVES</div>
+                </div>
+              </div>
+
+              <div className="game-card-body-enhanced">
+                <CatchRequestsPanel gameId={game._id} />
+              </div>
+            </div>
+
+            {/* Messages Card */}
+            <div className="klopjacht-game-card">
+              <div className="game-card-header-enhanced">
+                <div className="game-title">
+                  <h4>MESSAGES</h4>
+                  <div className="game-code">SEND TO EVERYONE, A ROLE, A TEAM OR ONE PLAYER</div>
+                </div>
+              </div>
+
+              <div className="game-card-body-enhanced">
+                <GameMessagesPanel gameId={game._id} />
+              </div>
+            </div>
+
+            {/* Chat Card */}
+            <div className="klopjacht-game-card">
+              <div className="game-card-header-enhanced">
+                <div className="game-title">
+                  <h4>CHAT</h4>
+                  <div className="game-code">EVERY CHANNEL, MUTE PLAYERS OR DELETE MESSAGES</div>
+                </div>
+              </div>
+
+              <div className="game-card-body-enhanced">
+                <ChatModerationPanel gameId={game._id} />
+              </div>
+            </div>
+
+            {/* Task Progress Card */}
+            <div className="klopjacht-game-card">
+              <div className="game-card-header-enhanced">
+                <div className="game-title">
+                  <h4>TASK PROGRESS</h4>
+                  <div className="game-code">ANSWERS, LOCKOUTS AND PENALTIES</div>
+                </div>
+              </div>
+
+              <div className="game-card-body-enhanced">
+                <TaskProgressPanel gameId={game._id} />
+              </div>
+            </div>
+
+            {/* Photo Proof Card */}
+            {game.tasks?.some(task => task.type === 'photo') && (
+              <div className="klopjacht-game-card">
+                <div className="game-card-header-enhanced">
+                  <div className="game-title">
+                    <h4>PHOTO PROOF</h4>
+                    <div className="game-code">APPROVE OR REJECT PHOTO TASKS</div>
+                  </div>
+                </div>
+
+                <div className="game-card-body-enhanced">
+                  <PhotoReviewPanel gameId={game._id} />
+                </div>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -1801,6 +3386,14 @@ const AdminDashboard = () => {
               👥 Manage Game Leads
             </button>
           )}
+          {pushState === 'disabled' && (
+            <button
+              className="nav-btn"
+              onClick={handleEnableNotifications}
+            >
+              🔔 Notifications
+            </button>
+          )}
           {localStorage.getItem('userRole') === 'super_admin' && (
             <button 
               className="nav-btn"
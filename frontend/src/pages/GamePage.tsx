@@ -1,7 +1,28 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate, useParams, useLocation } from 'react-router-dom';
 import QRScanner from '../components/QRScanner';
-import { API_ENDPOINTS } from '../config/api';
+import GameLobby, { LobbyPlayer } from '../components/GameLobby';
+import GameChat from '../components/GameChat';
+import TaskSheet, { SheetTask } from '../components/TaskSheet';
+import CatchRequestDialog from '../components/CatchRequestDialog';
+import HintTaskPicker from '../components/HintTaskPicker';
+import { API_ENDPOINTS, playerHeaders } from '../config/api';
+import { PushState, getPushState, enablePushNotifications, disablePushNotifications } from '../services/pushNotifications';
+import { OutboxResult, queueItem, flushOutbox, getQueuedItems, getAnswerResult } from '../services/offlineOutbox';
+import { TaskType, TaskMedia, TaskProof, describeTaskNumbers, describeExtractionWindow, NextStep, CorrectAnswer } from '../services/taskAnswers';
+import { getCurrentPosition } from '../services/geolocation';
+import {
+  useGameEvents,
+  CatchRequestInfo,
+  TimerWarning,
+  InboxMessage,
+  GameClock,
+  ReceivedClock,
+  receiveClock,
+  getClockRemainingMs,
+  getClockStartsInMs,
+  formatClockTime
+} from '../services/realtime';
 
 interface Player {
   id: string;
@@ -19,19 +40,35 @@ interface Player {
 
 interface Task {
   taskNumber: number;
+  type?: TaskType;
   question: string;
-  answer: string;
+  options?: string[];
+  checkInRadius?: number;
+  media?: TaskMedia;
   location: {
     latitude: number;
     longitude: number;
     address: string;
   };
-  qrCode: string;
   isCompleted: boolean;
-  completedBy: Array<{
-    player: string;
-    completedAt: string;
-  }>;
+}
+
+// Task unlocked by a scan or typed code, open for the fugitive to answer
+interface ActiveTask {
+  task: SheetTask;
+  proof: TaskProof;
+}
+
+interface TaskCompletion {
+  taskNumber: number;
+  completedAt: string;
+  hintsUsed?: number;
+}
+
+interface HintCost {
+  type: 'none' | 'reveal' | 'time' | 'score';
+  minutes?: number;
+  points?: number;
 }
 
 interface Game {
@@ -43,17 +80,50 @@ interface Game {
   endTime?: string;
   pausedAt?: string;
   duration: number;
+  clock?: GameClock;
   tasks: Task[];
-  extractionPoint: {
+  // Only sent while the game has a single extraction point
+  extractionPoint?: {
     latitude: number;
     longitude: number;
     address: string;
   };
+  // Every extraction point, decoys included, without saying which are real
+  extractionPoints?: {
+    latitude: number;
+    longitude: number;
+    address?: string;
+    radius: number;
+    opensAt: string | null;
+    closesAt: string | null;
+  }[];
   settings?: {
     maxPlayers: number;
+    taskCount?: number;
   };
 }
 
+interface RevealedFugitive {
+  playerId: string;
+  name: string;
+  team?: string;
+  status: string;
+  revealedLocation: {
+    latitude: number;
+    longitude: number;
+    accuracy?: number;
+    revealedAt: string;
+    trigger: string;
+  } | null;
+}
+
+interface RevealData {
+  fugitives: RevealedFugitive[];
+  lastRevealAt: string | null;
+  nextRevealAt: string | null;
+  locationUpdateInterval: number;
+}
+
 interface GameData {
   game: Game;
   players: Player[];
@@ -71,6 +141,88 @@ interface GameData {
   };
 }
 
+// What the next hint costs, as a warning before calling for it
+const describeHintCost = (cost: HintCost) => {
+  switch (cost.type) {
+    case 'reveal': return 'It reveals your current location to the hunters.';
+    case 'time': return `It takes ${cost.minutes} minutes off your time to escape.`;
+    case 'score': return `It costs you ${cost.points} points.`;
+    default: return 'It is free.';
+  }
+};
+
+// What a scanned or typed code holds. Task codes printed before task links were JSON like badges.
+interface TaskCode {
+  type?: 'klopjacht_task';
+  gameId?: string;
+  taskNumber?: number;
+  sig?: string;
+}
+
+interface BadgeCode {
+  type: 'klopjacht_badge';
+  gameId: string;
+  playerId: string;
+  sig: string;
+}
+
+interface ManualCode {
+  type: 'manual_code';
+  code: string;
+}
+
+type ScannedCode = TaskCode | BadgeCode | ManualCode;
+
+// Task QR codes hold the task page link, /task/:gameId/:taskNumber?sig=..., read as the code's data
+const parseTaskLink = (text: string): TaskCode | null => {
+  try {
+    const url = new URL(text);
+    const match = url.pathname.match(/\/task\/([^/]+)\/(\d+)$/);
+    if (!match) return null;
+
+    return {
+      type: 'klopjacht_task',
+      gameId: match[1],
+      taskNumber: parseInt(match[2]),
+      sig: url.searchParams.get('sig') || undefined
+    };
+  } catch (err) {
+    return null;
+  }
+};
+
+// How long a timer warning banner stays up
+const TIMER_WARNING_DISPLAY_MS = 20000;
+
+// How often to retry sending queued updates; 'online' never fires when only the server was unreachable
+const OUTBOX_RETRY_MS = 30000;
+
+// Beep and buzz so a warning is noticed with the phone in a pocket
+const playWarningSignal = (urgent: boolean) => {
+  navigator.vibrate?.(urgent ? [400, 150, 400, 150, 400] : [300, 150, 300]);
+
+  try {
+    const AudioContextClass = window.AudioContext || (window as typeof window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!AudioContextClass) return;
+
+    const context = new AudioContextClass();
+    const beeps = urgent ? 3 : 2;
+    for (let i = 0; i < beeps; i++) {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.frequency.value = urgent ? 1046 : 880;
+      gain.gain.value = 0.3;
+      oscillator.connect(gain);
+      gain.connect(context.destination);
+      oscillator.start(context.currentTime + i * 0.35);
+      oscillator.stop(context.currentTime + i * 0.35 + 0.2);
+    }
+    setTimeout(() => context.close(), beeps * 350 + 200);
+  } catch (err) {
+    console.warn('Could not play warning sound:', err);
+  }
+};
+
 const GamePage = () => {
   const navigate = useNavigate();
   const { gameId } = useParams();
@@ -79,12 +231,29 @@ const GamePage = () => {
   const [currentPlayer, setCurrentPlayer] = useState<Player | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
-  const [timeRemaining, setTimeRemaining] = useState('');
+  const [clock, setClock] = useState<ReceivedClock | null>(null);
+  const [, setNow] = useState(Date.now());
   const [showQRScanner, setShowQRScanner] = useState(false);
-  const [timeExpiredNotified, setTimeExpiredNotified] = useState(false);
   const [showSafetyWarning, setShowSafetyWarning] = useState(true);
   const [showTaskMap, setShowTaskMap] = useState(false);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+  const [revealData, setRevealData] = useState<RevealData | null>(null);
+  const [completions, setCompletions] = useState<TaskCompletion[]>([]);
+  // The fugitive's task route: per step, the tasks they may complete one of
+  const [route, setRoute] = useState<number[][]>([]);
+  const [availableTasks, setAvailableTasks] = useState<number[]>([]);
+  const [extraction, setExtraction] = useState<NextStep | null>(null);
+  const [activeTask, setActiveTask] = useState<ActiveTask | null>(null);
+  const [catchRequest, setCatchRequest] = useState<CatchRequestInfo | null>(null);
+  const [pickingHintTask, setPickingHintTask] = useState(false);
+  const [timePenaltyMinutes, setTimePenaltyMinutes] = useState(0);
+  const [badgeQRCode, setBadgeQRCode] = useState<string | null>(null);
+  const [lobbyPlayers, setLobbyPlayers] = useState<LobbyPlayer[]>([]);
+  const [timerWarning, setTimerWarning] = useState<TimerWarning | null>(null);
+  const [messages, setMessages] = useState<InboxMessage[]>([]);
+  const [showInbox, setShowInbox] = useState(false);
+  const [pushState, setPushState] = useState<PushState>('unsupported');
+  const [queuedCount, setQueuedCount] = useState(0);
 
   // Get player info from localStorage or location state
   useEffect(() => {
@@ -104,63 +273,52 @@ const GamePage = () => {
     }
   }, [location.state]);
 
-  // Fetch game data with auto-refresh
-  useEffect(() => {
-    const fetchGameData = async () => {
-      if (!gameId) return;
+  // Fetch game data; refetched whenever the server pushes a change
+  const fetchGameData = useCallback(async () => {
+    if (!gameId) return;
 
-      try {
-        // Don't show loading on refresh, only on initial load
-        if (!gameData) {
-          setLoading(true);
-        }
-        
-        // Get game by code - now includes ALL game data including startTime, status, tasks, etc.
-        const gameResponse = await fetch(API_ENDPOINTS.GAME_BY_CODE(gameId));
-        
-        if (!gameResponse.ok) {
-          if (gameResponse.status === 404) {
-            console.warn('Game not found, may have been deleted or ended');
-            setError('Game not found or has ended');
-            return;
-          }
-          throw new Error(`Failed to fetch game: ${gameResponse.status}`);
-        }
-        
-        const gameInfo = await gameResponse.json();
-        const fullGameData = gameInfo.game;
-        console.log('Complete game data fetched:', fullGameData);
-        
-        // Check if game status allows playing
-        if (fullGameData.status === 'cancelled' || fullGameData.status === 'completed') {
-          console.warn('Game is no longer playable:', fullGameData.status);
-          setError(`Game has ${fullGameData.status === 'cancelled' ? 'been cancelled' : 'ended'}`);
+    try {
+      // Get game by code - now includes ALL game data including startTime, status, tasks, etc.
+      const gameResponse = await fetch(API_ENDPOINTS.GAME_BY_CODE(gameId));
+      
+      if (!gameResponse.ok) {
+        if (gameResponse.status === 404) {
+          console.warn('Game not found, may have been deleted or ended');
+          setError('Game not found or has ended');
           return;
         }
+        throw new Error(`Failed to fetch game: ${gameResponse.status}`);
+      }
+      
+      const gameInfo = await gameResponse.json();
+      const fullGameData = gameInfo.game;
+      console.log('Complete game data fetched:', fullGameData);
+
+      if (fullGameData.clock) {
+        setClock(receiveClock(fullGameData.clock));
+      }
+      
+      // Check if game status allows playing
+      if (fullGameData.status === 'cancelled' || fullGameData.status === 'completed') {
+        console.warn('Game is no longer playable:', fullGameData.status);
+        setError(`Game has ${fullGameData.status === 'cancelled' ? 'been cancelled' : 'ended'}`);
+        return;
+      }
+      
+      // Then get players for this game (skip if unauthorized, it's not critical)
+      try {
+        const playersResponse = await fetch(API_ENDPOINTS.PLAYER_BY_GAME(fullGameData.id));
         
-        // Then get players for this game (skip if unauthorized, it's not critical)
-        try {
-          const playersResponse = await fetch(API_ENDPOINTS.PLAYER_BY_GAME(fullGameData.id));
-          
-          if (playersResponse.ok) {
-            const playersData = await playersResponse.json();
-            setGameData({
-              game: fullGameData,
-              players: playersData.players,
-              playersByRole: playersData.playersByRole,
-              counts: playersData.counts
-            });
-          } else {
-            // If we can't get players (auth required), just show game info
-            setGameData({
-              game: fullGameData,
-              players: [],
-              playersByRole: { fugitives: [], hunters: [], spectators: [] },
-              counts: { total: 0, fugitives: 0, hunters: 0, spectators: 0, online: 0 }
-            });
-          }
-        } catch (playersError) {
-          console.warn('Could not fetch players data, continuing with game data only');
+        if (playersResponse.ok) {
+          const playersData = await playersResponse.json();
+          setGameData({
+            game: fullGameData,
+            players: playersData.players,
+            playersByRole: playersData.playersByRole,
+            counts: playersData.counts
+          });
+        } else {
+          // If we can't get players (auth required), just show game info
           setGameData({
             game: fullGameData,
             players: [],
@@ -168,153 +326,476 @@ const GamePage = () => {
             counts: { total: 0, fugitives: 0, hunters: 0, spectators: 0, online: 0 }
           });
         }
-        
-        // Clear any previous errors
-        setError('');
-      } catch (err) {
-        console.error('Error fetching game data:', err);
-        
-        // Don't immediately show error on network issues, keep trying
-        if (err instanceof TypeError && err.message.includes('Failed to fetch')) {
-          console.warn('Network error, will retry on next interval');
-          return;
-        }
-        
-        setError('Failed to load game data');
-      } finally {
-        setLoading(false);
+      } catch (playersError) {
+        console.warn('Could not fetch players data, continuing with game data only');
+        setGameData({
+          game: fullGameData,
+          players: [],
+          playersByRole: { fugitives: [], hunters: [], spectators: [] },
+          counts: { total: 0, fugitives: 0, hunters: 0, spectators: 0, online: 0 }
+        });
       }
-    };
+      
+      // Clear any previous errors
+      setError('');
+    } catch (err) {
+      console.error('Error fetching game data:', err);
+      
+      // Don't immediately show error on network issues, the next push or reconnect refetches
+      if (err instanceof TypeError && err.message.includes('Failed to fetch')) {
+        console.warn('Network error, will retry on reconnect');
+        return;
+      }
+      
+      setError('Failed to load game data');
+    } finally {
+      setLoading(false);
+    }
+  }, [gameId]);
 
-    // Initial fetch
+  useEffect(() => {
     fetchGameData();
-    
-    // Set up auto-refresh every 30 seconds to get real-time updates
-    const refreshInterval = setInterval(fetchGameData, 30000);
-    
-    // Cleanup interval on unmount
-    return () => clearInterval(refreshInterval);
-  }, [gameId, gameData]);
+  }, [fetchGameData]);
+
+  // The game master revoked this session or the token expired: join again
+  const handleSessionEnded = useCallback((message: string) => {
+    alert(`🔒 ${message}`);
+    ['playerToken', 'playerId', 'playerName', 'playerRole', 'gameCode', 'gameId'].forEach(key => localStorage.removeItem(key));
+    navigate('/join');
+  }, [navigate]);
+
+  // Fugitives' own completed missions
+  const fetchCompletions = useCallback(async () => {
+    if (!currentPlayer || currentPlayer.role !== 'fugitive') return;
+
+    try {
+      const response = await fetch(API_ENDPOINTS.TASK_PLAYER_COMPLETED(currentPlayer.id), {
+        headers: playerHeaders()
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setCompletions(data.completedTasks);
+        setRoute(data.route || []);
+        setAvailableTasks(data.availableTasks || []);
+        setExtraction(data.extraction || null);
+        setTimePenaltyMinutes(data.timePenaltyMinutes || 0);
+        setCurrentPlayer(prev => prev && prev.tasksCompleted !== data.totalCompleted
+          ? { ...prev, tasksCompleted: data.totalCompleted }
+          : prev);
+      } else if (response.status === 401) {
+        handleSessionEnded(data.error || 'Your session has ended. Please join again.');
+      }
+    } catch (err) {
+      console.warn('Could not fetch completed missions, will retry on next update');
+    }
+  }, [currentPlayer, handleSessionEnded]);
 
-  // Calculate time remaining
   useEffect(() => {
-    if (!gameData?.game) return;
+    fetchCompletions();
+  }, [fetchCompletions]);
 
-    const updateTimeRemaining = () => {
-      const game = gameData.game;
-      
-      if (game.status === 'waiting' || game.status === 'setup') {
-        setTimeRemaining('⏳ Waiting to start');
-        return;
+  const inLobby = gameData?.game.status === 'setup' || gameData?.game.status === 'waiting';
+
+  // Who else joined, while the game hasn't started yet
+  const fetchLobby = useCallback(async () => {
+    if (!currentPlayer || !inLobby) return;
+
+    try {
+      const response = await fetch(API_ENDPOINTS.PLAYER_LOBBY(currentPlayer.id), {
+        headers: playerHeaders(false)
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setLobbyPlayers(data.players);
+        setClock(receiveClock(data.clock));
       }
-      
-      if (game.status === 'completed') {
-        setTimeRemaining('🏁 Game completed');
-        return;
+    } catch (err) {
+      console.warn('Could not fetch lobby, will retry on next update');
+    }
+  }, [currentPlayer, inLobby]);
+
+  useEffect(() => {
+    fetchLobby();
+  }, [fetchLobby]);
+
+  // Messages from the game master; kept on the server so the inbox survives reloads
+  const fetchMessages = useCallback(async () => {
+    if (!currentPlayer) return;
+
+    try {
+      const response = await fetch(API_ENDPOINTS.PLAYER_MESSAGES(currentPlayer.id), {
+        headers: playerHeaders(false)
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setMessages(data.messages);
       }
-      
-      if (game.status === 'cancelled') {
-        setTimeRemaining('❌ Game cancelled');
-        return;
+    } catch (err) {
+      console.warn('Could not fetch messages, will retry on next update');
+    }
+  }, [currentPlayer]);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [fetchMessages]);
+
+  // Send what was queued while offline. Answers given earlier are reported once they get
+  // through; the one just submitted (`submittedId`) is left to its caller.
+  const playerId = currentPlayer?.id;
+  const syncOutbox = useCallback(async (submittedId?: string) => {
+    if (!playerId) return null;
+
+    let results: OutboxResult[] | null = null;
+    try {
+      results = await flushOutbox(playerId);
+    } catch (err) {
+      console.warn('Queued updates not sent yet:', err);
+    }
+
+    const queued = await getQueuedItems(playerId).catch(() => []);
+    setQueuedCount(queued.length);
+
+    const earlierAnswers = (results || []).filter(result =>
+      result.type === 'task_answer' && result.status !== 'retry' && result.id !== submittedId
+    );
+    if (earlierAnswers.length > 0) {
+      alert([
+        '📡 Answers you gave while offline were sent:',
+        ...earlierAnswers.map(outcome => {
+          const label = `Task ${outcome.item.data.taskNumber}`;
+          const result = getAnswerResult(outcome);
+          if (!result) return `⚠️ ${label}: ${outcome.error}`;
+          return result.correct ? `✅ ${label}: correct` : `❌ ${label}: ${result.message}`;
+        })
+      ].join('\n\n'));
+
+      const completed = earlierAnswers
+        .map(getAnswerResult)
+        .filter((result): result is CorrectAnswer => Boolean(result?.correct));
+      if (completed.length > 0) {
+        setCurrentPlayer(prev => prev ? {
+          ...prev,
+          tasksCompleted: Math.max(...completed.map(result => result.tasksCompleted))
+        } : null);
+        fetchCompletions();
       }
-      
-      if (game.status === 'paused') {
-        // When paused, show the time remaining at the moment of pause
-        if (!game.startTime) {
-          setTimeRemaining('⏸️ Paused - Not started');
-          return;
+    }
+
+    return results;
+  }, [playerId, fetchCompletions]);
+
+  useEffect(() => {
+    syncOutbox();
+
+    const handleOnline = () => { syncOutbox(); };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [syncOutbox]);
+
+  useEffect(() => {
+    if (queuedCount === 0) return;
+
+    const interval = setInterval(() => syncOutbox(), OUTBOX_RETRY_MS);
+    return () => clearInterval(interval);
+  }, [queuedCount, syncOutbox]);
+
+  const unreadCount = messages.filter(message => !message.read).length;
+
+  // Reading the inbox marks everything in it as read
+  useEffect(() => {
+    if (!showInbox || unreadCount === 0 || !currentPlayer) return;
+
+    setMessages(prev => prev.map(message => ({ ...message, read: true })));
+    fetch(API_ENDPOINTS.PLAYER_MESSAGES_READ(currentPlayer.id), {
+      method: 'POST',
+      headers: playerHeaders(),
+      body: JSON.stringify({})
+    }).catch(err => console.warn('Could not mark messages as read:', err));
+  }, [showInbox, unreadCount, currentPlayer]);
+
+  // Hunters only ever see the last revealed fugitive locations
+  const fetchReveals = useCallback(async () => {
+    if (!currentPlayer || currentPlayer.role !== 'hunter') return;
+
+    try {
+      const response = await fetch(API_ENDPOINTS.PLAYER_REVEALS(currentPlayer.id), {
+        headers: playerHeaders()
+      });
+      if (response.ok) {
+        setRevealData(await response.json());
+      }
+    } catch (err) {
+      console.warn('Could not fetch revealed locations, will retry on next reveal');
+    }
+  }, [currentPlayer]);
+
+  useEffect(() => {
+    fetchReveals();
+  }, [fetchReveals]);
+
+  // A hunter says they caught this fugitive: ask them to confirm or dispute, see CatchRequestDialog
+  const answerCatchRequest = useCallback((request: CatchRequestInfo) => {
+    setCatchRequest(prev => prev?.requestId === request.requestId ? prev : request);
+  }, []);
+
+  const handleCatchAnswer = async (confirmed: boolean, reason?: string) => {
+    if (!currentPlayer || !catchRequest) return;
+
+    let response: Response;
+    try {
+      response = await fetch(API_ENDPOINTS.PLAYER_RESPOND_CATCH(currentPlayer.id, catchRequest.requestId), {
+        method: 'POST',
+        headers: playerHeaders(),
+        body: JSON.stringify({ confirmed, reason })
+      });
+    } catch (error) {
+      console.error('Error answering catch:', error);
+      throw new Error('No connection. Please try again.');
+    }
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to answer the catch');
+    }
+    setCatchRequest(null);
+  };
+
+  // Catches waiting for an answer when the page (re)loads
+  const fetchCatchRequests = useCallback(async () => {
+    if (!currentPlayer || currentPlayer.role !== 'fugitive') return;
+
+    try {
+      const response = await fetch(API_ENDPOINTS.PLAYER_CATCH_REQUESTS(currentPlayer.id), {
+        headers: playerHeaders()
+      });
+      if (response.ok) {
+        const data = await response.json();
+        const request = data.requests.find((r: { fugitiveId: string }) => r.fugitiveId === currentPlayer.id);
+        if (request) {
+          answerCatchRequest({ ...request, requestId: request.id, gameId: gameId || '' });
         }
-        
-        const startTime = new Date(game.startTime);
-        const pausedAt = game.pausedAt ? new Date(game.pausedAt) : new Date();
-        const gameDuration = game.duration * 60 * 1000; // Convert to milliseconds
-        const timeElapsedBeforePause = pausedAt.getTime() - startTime.getTime();
-        const remaining = gameDuration - timeElapsedBeforePause;
-        
-        if (remaining <= 0) {
-          setTimeRemaining('⏸️ Paused - Time expired');
-          return;
+      }
+    } catch (err) {
+      console.warn('Could not fetch catch requests, will retry on reconnect');
+    }
+  }, [currentPlayer, gameId, answerCatchRequest]);
+
+  useEffect(() => {
+    fetchCatchRequests();
+  }, [fetchCatchRequests]);
+
+  const handleCatch = async (fugitive: RevealedFugitive) => {
+    if (!currentPlayer) return;
+
+    if (!window.confirm(`🚨 Did you catch ${fugitive.name}?\n\nYou must be standing next to them; they will be asked to confirm.`)) {
+      return;
+    }
+
+    let coords: { latitude: number; longitude: number; accuracy: number } | undefined;
+    try {
+      const position = await getCurrentPosition();
+      coords = {
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy
+      };
+    } catch (err) {
+      alert('Location access denied. Your location is needed to catch a fugitive.');
+      return;
+    }
+
+    try {
+      const response = await fetch(API_ENDPOINTS.PLAYER_CATCH(currentPlayer.id), {
+        method: 'POST',
+        headers: playerHeaders(),
+        body: JSON.stringify({ fugitiveId: fugitive.playerId, ...coords })
+      });
+      const data = await response.json();
+
+      alert(response.ok ? `⏳ ${data.message}` : `❌ ${data.error || 'Failed to register the catch'}`);
+    } catch (error) {
+      console.error('Error catching fugitive:', error);
+      alert('Failed to register the catch');
+    }
+  };
+
+  // Hunters catch a fugitive on the spot by scanning their badge
+  const handleBadgeScan = async (badge: BadgeCode) => {
+    if (!currentPlayer) return;
+
+    try {
+      const response = await fetch(API_ENDPOINTS.PLAYER_CATCH_BADGE(currentPlayer.id), {
+        method: 'POST',
+        headers: playerHeaders(),
+        body: JSON.stringify({ badge })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (data.code === 'INVALID_BADGE') {
+          alert('❌ Invalid badge. It may have been replaced by the game master.');
+        } else {
+          alert(`❌ ${data.error || 'Failed to register the catch'}`);
         }
-        
-        const hours = Math.floor(remaining / (1000 * 60 * 60));
-        const minutes = Math.floor((remaining % (1000 * 60 * 60)) / (1000 * 60));
-        const seconds = Math.floor((remaining % (1000 * 60)) / 1000);
-        
-        const timeString = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-        
-        setTimeRemaining(`⏸️ PAUSED - ${timeString} remaining`);
         return;
       }
-      
-      if (!game.startTime) {
-        setTimeRemaining('⏸️ Not started');
+
+      alert(`🚨 ${data.message}`);
+    } catch (error) {
+      console.error('Error catching fugitive by badge:', error);
+      alert('Failed to register the catch');
+    }
+  };
+
+  const handleShowBadge = async () => {
+    if (!currentPlayer) return;
+
+    try {
+      const response = await fetch(API_ENDPOINTS.PLAYER_BADGE(currentPlayer.id), {
+        headers: playerHeaders(false)
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(`Error: ${data.error || 'Failed to load your badge'}`);
         return;
       }
 
-      const startTime = new Date(game.startTime);
-      const gameDuration = game.duration * 60 * 1000; // Convert to milliseconds
-      const now = new Date();
-      
-      // Calculate total elapsed time
-      const totalElapsed = now.getTime() - startTime.getTime();
-      const remaining = gameDuration - totalElapsed;
-      
-      if (remaining <= 0) {
-        setTimeRemaining('⏰ Time expired');
-        
-        // Check if we need to notify about time expiration and end the game
-        if (game.status === 'active' && !timeExpiredNotified) {
-          setTimeExpiredNotified(true);
-          
-          // Show notification to player
-          alert('⏰ TIME EXPIRED!\n\nThe game has ended. Time ran out before all missions could be completed.');
-          
-          // Call backend to end the game
-          fetch(API_ENDPOINTS.GAME_END(game.id), {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              reason: 'time_expired',
-              endedBy: 'system'
-            })
-          })
-          .then(response => response.json())
-          .then(data => {
-            console.log('Game ended due to time expiration:', data);
-          })
-          .catch(error => {
-            console.error('Error ending game:', error);
-          });
-        }
-        return;
+      setBadgeQRCode(data.qrCode);
+    } catch (error) {
+      console.error('Error loading badge:', error);
+      alert('Failed to load your badge');
+    }
+  };
+
+  // Live updates pushed by the server replace polling
+  useGameEvents(gameData?.game.id ? [gameData.game.id] : [], {
+    game_started: () => fetchGameData(),
+    game_paused: () => fetchGameData(),
+    game_resumed: () => fetchGameData(),
+    game_ended: (data) => {
+      if (data.reason === 'time_expired') {
+        alert(`⏰ TIME EXPIRED!\n\n${data.message}`);
       }
-      const hours = Math.floor(remaining / (1000 * 60 * 60));
-      const minutes = Math.floor((remaining % (1000 * 60 * 60)) / (1000 * 60));
-      const seconds = Math.floor((remaining % (1000 * 60)) / 1000);
-      
-      // Format with leading zeros and add visual indicators
-      const timeString = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-      
-      // Add urgency indicators
-      if (remaining < 5 * 60 * 1000) { // Less than 5 minutes
-        setTimeRemaining(`🚨 ${timeString} - HURRY!`);
-      } else if (remaining < 15 * 60 * 1000) { // Less than 15 minutes
-        setTimeRemaining(`⚠️ ${timeString} - Time running out!`);
+      fetchGameData();
+    },
+    clock: (data) => setClock(receiveClock(data)),
+    timer_warning: (data) => {
+      setTimerWarning(data);
+      playWarningSignal(data.minutesLeft <= 5);
+      fetchMessages();
+    },
+    game_message: (data) => {
+      setMessages(prev => prev.some(message => message.id === data.message.id) ? prev : [data.message, ...prev]);
+      navigator.vibrate?.(200);
+    },
+    extraction_opened: (data) => {
+      if (currentPlayer?.role === 'fugitive') {
+        alert(`🚁 ${data.message}${data.extractionPoint?.address ? `\n\n${data.extractionPoint.address}` : ''}`);
+        fetchCompletions();
+      }
+      fetchGameData();
+    },
+    extraction_point_changed: (data) => {
+      alert(`🚁 ${data.message}${data.extractionPoint.address ? `\n\n${data.extractionPoint.address}` : ''}`);
+      fetchCompletions();
+    },
+    extraction_closed: (data) => {
+      alert(`🚁 ${data.message}${data.extractionPoint.address ? `\n\n${data.extractionPoint.address}` : ''}`);
+      fetchCompletions();
+    },
+    player_joined: () => {
+      fetchGameData();
+      fetchLobby();
+    },
+    player_left: () => fetchLobby(),
+    player_disconnected: () => fetchLobby(),
+    player_status_changed: () => fetchGameData(),
+    player_caught: () => fetchGameData(),
+    player_escaped: () => fetchGameData(),
+    task_completed: (data) => {
+      fetchGameData();
+      if (data.playerId === currentPlayer?.id) {
+        fetchCompletions();
+      }
+    },
+    fugitives_revealed: () => fetchReveals(),
+    session_revoked: (data) => handleSessionEnded(data.message),
+    photo_reviewed: (data) => {
+      if (data.approved) {
+        alert(`✅ Your photo for Task ${data.taskNumber} was approved!`);
+        fetchCompletions();
       } else {
-        setTimeRemaining(`⏱️ ${timeString}`);
+        alert(`❌ Your photo for Task ${data.taskNumber} was rejected${data.note ? `: ${data.note}` : ''}. Scan the task again to send a new one.`);
       }
-    };
+    },
+    catch_requested: (data) => answerCatchRequest(data),
+    catch_resolved: (data) => {
+      // Confirmed when the fugitive didn't answer in time
+      setCatchRequest(prev => prev?.requestId === data.requestId ? null : prev);
+      if (data.hunterId !== currentPlayer?.id) return;
+
+      if (data.caught) {
+        alert(`🎉 ${data.fugitiveName} is caught!${data.autoConfirmed ? ' (they did not answer in time)' : ''}`);
+      } else if (data.status === 'disputed') {
+        alert(`⚖️ ${data.fugitiveName} disputes the catch${data.reason ? `: ${data.reason}` : ''}. The game master will decide.`);
+      } else if (data.status === 'dismissed') {
+        alert(`❌ The game master dismissed your catch of ${data.fugitiveName}.`);
+      }
+    },
+    fugitive_spotted: (data) => {
+      alert(`${data.zone.type === 'atm' ? '🏧 You were seen at an ATM' : '📷 A surveillance camera spotted you'}${data.zone.name ? ` (${data.zone.name})` : ''}!\n\nThe hunters now know where you are.`);
+    }
+  }, {
+    playerId: currentPlayer?.id || null,
+    onResync: () => {
+      fetchGameData();
+      fetchReveals();
+      fetchCompletions();
+      fetchCatchRequests();
+      fetchLobby();
+      fetchMessages();
+      syncOutbox();
+    }
+  });
 
-    updateTimeRemaining();
-    const interval = setInterval(updateTimeRemaining, 1000);
-    
+  useEffect(() => {
+    if (!timerWarning) return;
+
+    const timeout = setTimeout(() => setTimerWarning(null), TIMER_WARNING_DISPLAY_MS);
+    return () => clearTimeout(timeout);
+  }, [timerWarning]);
+
+  // Re-render every second while the clock runs or a start is counted down; the time itself comes from the server
+  useEffect(() => {
+    if (clock?.status !== 'active' && getClockStartsInMs(clock) === null) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
     return () => clearInterval(interval);
-  }, [gameData]);
+  }, [clock]);
+
+  useEffect(() => {
+    getPushState().then(setPushState).catch(() => setPushState('unsupported'));
+  }, []);
+
+  const handleEnableNotifications = async () => {
+    try {
+      await enablePushNotifications('player');
+      setPushState('enabled');
+      alert('🔔 Notifications enabled. You will be alerted even when the game is in the background.');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to enable notifications');
+    }
+  };
 
   const handleBack = () => {
+    disablePushNotifications().catch(err => console.warn('Could not disable notifications:', err));
+
     // Clear player data from localStorage
+    localStorage.removeItem('playerToken');
     localStorage.removeItem('playerId');
     localStorage.removeItem('playerName');
     localStorage.removeItem('playerRole');
@@ -337,7 +818,7 @@ const GamePage = () => {
     setShowQRScanner(true);
   };
 
-  const handleQRScanSuccess = async (decodedText: string, decodedResult: any) => {
+  const handleQRScanSuccess = async (decodedText: string) => {
     console.log('QR Code scanned:', decodedText);
     setShowQRScanner(false);
 
@@ -348,213 +829,136 @@ const GamePage = () => {
 
     try {
       // Parse the input data
-      let parsedData: any;
-      
-      try {
-        parsedData = JSON.parse(decodedText);
-      } catch (e) {
-        alert('Invalid code format. Please scan a valid QR code or enter a valid manual code.');
-        return;
-      }
+      let parsedData: ScannedCode | null = parseTaskLink(decodedText);
 
-      // Handle manual code entry (6-digit codes from admin dashboard)
-      if (parsedData.type === 'manual_code') {
-        const manualCode = parsedData.code;
-        
-        // Find which task this manual code belongs to by matching the generated hash
-        let matchingTask = null;
-        let matchingTaskNumber = null;
-        
-        for (let taskNum = 1; taskNum <= 6; taskNum++) {
-          // Generate the same secure hash as in the admin dashboard
-          const salt = 'KLOPJACHT_SECURE_2024';
-          const hashInput = `${salt}-${gameData.game.id}-TASK-${taskNum}-${salt}`;
-          
-          // Multiple hash rounds for better randomization
-          let hash1 = 0;
-          let hash2 = 0;
-          
-          // First hash round
-          for (let i = 0; i < hashInput.length; i++) {
-            const char = hashInput.charCodeAt(i);
-            hash1 = ((hash1 << 7) - hash1) + char;
-            hash1 = hash1 & hash1; // Convert to 32-bit integer
-          }
-          
-          // Second hash round with different algorithm
-          const reversedInput = hashInput.split('').reverse().join('');
-          for (let i = 0; i < reversedInput.length; i++) {
-            const char = reversedInput.charCodeAt(i);
-            hash2 = ((hash2 << 3) + hash2) ^ char;
-            hash2 = hash2 & hash2; // Convert to 32-bit integer
-          }
-          
-          // Combine hashes and add task-specific multiplier
-          const combined = Math.abs(hash1 ^ hash2) * (taskNum * 7919); // 7919 is a prime
-          const sixDigitCode = (combined % 900000) + 100000;
-          
-          if (sixDigitCode.toString() === manualCode) {
-            matchingTaskNumber = taskNum;
-            matchingTask = gameData.game.tasks?.find(t => t.taskNumber === taskNum);
-            break;
-          }
+      if (!parsedData) {
+        try {
+          parsedData = JSON.parse(decodedText) as ScannedCode;
+        } catch (e) {
+          alert('Invalid code format. Please scan a valid QR code or enter a valid manual code.');
+          return;
         }
-        
-        if (!matchingTask || !matchingTaskNumber) {
-          alert('Invalid manual code. This code does not match any task in this game.');
+      }
+
+      if (parsedData.type === 'klopjacht_badge') {
+        if (currentPlayer.role !== 'hunter') {
+          alert('This is a fugitive badge. Only hunters can scan it.');
           return;
         }
-        
-        // Check if player can access this task (sequential completion)
-        const playerCompletedTasks = currentPlayer.tasksCompleted || 0;
-        if (matchingTaskNumber !== playerCompletedTasks + 1) {
-          if (matchingTaskNumber <= playerCompletedTasks) {
-            alert(`You have already completed Task ${matchingTaskNumber}.`);
-          } else {
-            alert(`You must complete Task ${playerCompletedTasks + 1} first before accessing Task ${matchingTaskNumber}.`);
-          }
+
+        if (parsedData.gameId !== gameData.game.id) {
+          alert('This badge is for a different game.');
           return;
         }
-        
-        // Show task question and get answer
-        const userAnswer = prompt(`Task ${matchingTaskNumber}:\n\n${matchingTask.question}\n\nEnter your answer:`);
-        
-        if (userAnswer === null) {
-          // User cancelled
+
+        await handleBadgeScan(parsedData);
+        return;
+      }
+
+      if (currentPlayer.role !== 'fugitive') {
+        alert('Hunters can only scan fugitive badges.');
+        return;
+      }
+
+      // Only the server can tell whether a code is genuine
+      let proof: { signature?: string; manualCode?: string; taskNumber?: number };
+
+      if (parsedData.type === 'manual_code') {
+        // 6-digit code typed in the scanner
+        proof = { manualCode: parsedData.code };
+      } else {
+        const qrData: {
+          type?: string;
+          gameId?: string;
+          taskNumber?: number;
+          sig?: string;
+        } = parsedData;
+
+        // Validate QR code structure
+        if (!qrData.gameId || !qrData.taskNumber || !qrData.sig) {
+          alert('Invalid QR code. This QR code is not for a game task.');
           return;
         }
 
-        if (!userAnswer.trim()) {
-          alert('Please provide an answer.');
+        // Check if QR code is for this game
+        if (qrData.gameId !== gameData.game.id) {
+          alert('This QR code is for a different game.');
           return;
         }
 
-        // Submit the task completion
-        const response = await fetch(API_ENDPOINTS.PLAYER_COMPLETE_TASK(currentPlayer.id), {
+        proof = { signature: qrData.sig, taskNumber: qrData.taskNumber };
+      }
+
+      let task: SheetTask;
+      try {
+        const verifyResponse = await fetch(API_ENDPOINTS.TASK_VERIFY_CODE(gameData.game.id), {
           method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            taskNumber: matchingTaskNumber,
-            answer: userAnswer.trim(),
-            gameId: gameData.game.id
-          })
+          headers: playerHeaders(),
+          body: JSON.stringify(proof)
         });
 
-        const result = await response.json();
+        const verifyResult = await verifyResponse.json();
 
-        if (response.ok) {
-          if (result.correct) {
-            alert(`🎉 Correct! Task ${matchingTaskNumber} completed successfully!\n\nTasks completed: ${result.tasksCompleted}/6`);
-            
-            // Update current player data
-            setCurrentPlayer(prev => prev ? {
-              ...prev,
-              tasksCompleted: result.tasksCompleted
-            } : null);
+        if (!verifyResponse.ok) {
+          if (verifyResult.code === 'INVALID_TASK_CODE') {
+            alert('Invalid code. This code does not match any task in this game, or it has been replaced by the game master.');
           } else {
-            alert(`❌ Incorrect answer. Try again!\n\nHint: Make sure you're at the correct location and read the question carefully.`);
+            alert(`Error: ${verifyResult.error || 'Failed to verify code'}`);
           }
-        } else {
-          alert(`Error: ${result.message || 'Failed to submit task completion'}`);
+          return;
         }
-        
-        return;
-      }
-
-      // Handle regular QR code data
-      const qrData: {
-        gameId: string;
-        taskNumber: number;
-        question: string;
-        taskId?: string;
-        url?: string;
-      } = parsedData;
-
-      // Validate QR code structure
-      if (!qrData.gameId || !qrData.taskNumber || !qrData.question) {
-        alert('Invalid QR code. This QR code is not for a game task.');
-        return;
-      }
-
-      // Check if QR code is for this game
-      if (qrData.gameId !== gameData.game.id) {
-        alert('This QR code is for a different game.');
-        return;
-      }
 
-      // Find the task
-      const task = gameData.game.tasks?.find(t => t.taskNumber === qrData.taskNumber);
-      if (!task) {
-        alert(`Task ${qrData.taskNumber} not found in this game.`);
-        return;
-      }
-
-      // Check if player can access this task (sequential completion)
-      const playerCompletedTasks = currentPlayer.tasksCompleted || 0;
-      if (qrData.taskNumber !== playerCompletedTasks + 1) {
-        if (qrData.taskNumber <= playerCompletedTasks) {
-          alert(`You have already completed Task ${qrData.taskNumber}.`);
-        } else {
-          alert(`You must complete Task ${playerCompletedTasks + 1} first before accessing Task ${qrData.taskNumber}.`);
+        task = verifyResult.task;
+      } catch (err) {
+        // Offline: answer from the cached game, the server checks the code when the answer is sent
+        const cachedTask = gameData.game.tasks.find(t => t.taskNumber === proof.taskNumber);
+        if (!cachedTask) {
+          alert('No connection. Typed codes can only be checked online, scan the QR code to answer offline.');
+          return;
         }
-        return;
+        task = cachedTask;
       }
 
-      // Show task question and get answer
-      const userAnswer = prompt(`Task ${qrData.taskNumber}:\n\n${qrData.question}\n\nEnter your answer:`);
-      
-      if (userAnswer === null) {
-        // User cancelled
+      // Check the task is open to the player on their route
+      if (completions.some(completion => completion.taskNumber === task.taskNumber)) {
+        alert(`You have already completed Task ${task.taskNumber}.`);
         return;
       }
 
-      if (!userAnswer.trim()) {
-        alert('Please provide an answer.');
+      if (availableTasks.length > 0 && !availableTasks.includes(task.taskNumber)) {
+        alert(`Task ${task.taskNumber} is not open to you right now. Your next ${availableTasks.length > 1 ? 'tasks are' : 'task is'} ${describeTaskNumbers(availableTasks)}.`);
         return;
       }
 
-      // Submit the task completion
-      const response = await fetch(API_ENDPOINTS.PLAYER_COMPLETE_TASK(currentPlayer.id), {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          taskNumber: qrData.taskNumber,
-          answer: userAnswer.trim(),
-          gameId: gameData.game.id
-        })
-      });
-
-      const result = await response.json();
-
-      if (response.ok) {
-        if (result.correct) {
-          alert(`🎉 Correct! Task ${qrData.taskNumber} completed successfully!\n\nTasks completed: ${result.tasksCompleted}/6`);
-          
-          // Update current player data
-          setCurrentPlayer(prev => prev ? {
-            ...prev,
-            tasksCompleted: result.tasksCompleted
-          } : null);
-
-          // Refresh game data to show updated progress
-          // The useEffect will handle this automatically with the next refresh cycle
-        } else {
-          alert(`❌ Incorrect answer. Try again!\n\nHint: Make sure you're at the correct location and read the question carefully.`);
-        }
-      } else {
-        alert(`Error: ${result.message || 'Failed to submit task completion'}`);
-      }
-
+      setActiveTask({ task, proof: { signature: proof.signature, manualCode: proof.manualCode } });
     } catch (error) {
       console.error('Error processing QR scan:', error);
       alert('Failed to process QR code. Please try again.');
     }
   };
 
+  // Queue the answer with the code that unlocked it, then send it if there is a connection
+  const handleSubmitTaskAnswer = async (data: Record<string, unknown>) => {
+    if (!currentPlayer) return undefined;
+
+    const item = await queueItem(currentPlayer.id, 'task_answer', data);
+    const outcome = (await syncOutbox(item.id))?.find(sent => sent.id === item.id);
+
+    if (outcome?.status === 'applied') {
+      const result = getAnswerResult(outcome);
+      if (result?.correct) {
+        setCurrentPlayer(prev => prev ? {
+          ...prev,
+          tasksCompleted: result.tasksCompleted
+        } : null);
+        fetchCompletions();
+      } else if (result?.penalty === 'time' && !outcome.duplicate) {
+        setTimePenaltyMinutes(prev => prev + (result.penaltyMinutes || 0));
+      }
+    }
+    return outcome;
+  };
+
   const handleQRScanFailure = (error: string) => {
     // Don't show errors for normal scanning failures
     console.log('QR scan failure:', error);
@@ -578,44 +982,109 @@ const GamePage = () => {
     setSelectedTask(null);
   };
 
-  const handleUpdateLocation = () => {
+  // Send the current position; without a connection it is queued with the time of the fix
+  const handleUpdateLocation = async () => {
     if (!currentPlayer) return;
 
-    if (navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          const { latitude, longitude, accuracy } = position.coords;
-          
-          // Update location on server
-          fetch(API_ENDPOINTS.PLAYER_UPDATE_LOCATION(currentPlayer.id), {
-            method: 'PUT',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              latitude,
-              longitude,
-              accuracy,
-              trigger: 'manual'
-            })
-          })
-          .then(response => response.json())
-          .then(data => {
-            if (data.message) {
-              alert(`Location updated successfully!\nLat: ${latitude.toFixed(6)}\nLng: ${longitude.toFixed(6)}`);
-            }
-          })
-          .catch(error => {
-            console.error('Error updating location:', error);
-            alert('Failed to update location');
-          });
-        },
-        (error) => {
-          alert('Location access denied. Please enable location permissions to update your position.');
-        }
-      );
+    let position: GeolocationPosition;
+    try {
+      position = await getCurrentPosition();
+    } catch (err) {
+      alert('Location access denied. Please enable location permissions to update your position.');
+      return;
+    }
+
+    const { latitude, longitude, accuracy } = position.coords;
+    const item = await queueItem(
+      currentPlayer.id,
+      'location',
+      { latitude, longitude, accuracy, trigger: 'manual' },
+      new Date(position.timestamp)
+    );
+    const outcome = (await syncOutbox(item.id))?.find(sent => sent.id === item.id);
+
+    if (!outcome || outcome.status === 'retry') {
+      alert('📡 No connection. Your location is saved and will be sent as soon as you are back online.');
+    } else if (outcome.status === 'rejected') {
+      alert(`Failed to update location: ${outcome.error}`);
     } else {
-      alert('Geolocation is not supported by this browser.');
+      alert(`Location updated successfully!\nLat: ${latitude.toFixed(6)}\nLng: ${longitude.toFixed(6)}`);
+    }
+  };
+
+  // When the route offers a choice, the fugitive first picks the task they are heading to
+  const handlePhoneCall = () => {
+    if (availableTasks.length > 1) {
+      setPickingHintTask(true);
+    } else {
+      callForHint();
+    }
+  };
+
+  const callForHint = async (taskNumber?: number) => {
+    if (!currentPlayer) return;
+
+    try {
+      // Find out how many hints are left and what the next one costs before calling
+      const statusResponse = await fetch(`${API_ENDPOINTS.PLAYER_HINTS(currentPlayer.id)}${taskNumber ? `?taskNumber=${taskNumber}` : ''}`, {
+        headers: playerHeaders()
+      });
+      const status = await statusResponse.json();
+
+      if (!statusResponse.ok || status.totalHints === 0) {
+        alert(status.code === 'NO_HINT_AVAILABLE' || statusResponse.ok
+          ? 'Nobody picks up... there is no hint for this mission.'
+          : status.error || 'Failed to make the phone call');
+        return;
+      }
+
+      const previousHints = status.hints.map((hint: string, i: number) => `${i + 1}. ${hint}`).join('\n');
+
+      if (status.hints.length >= status.totalHints) {
+        alert(`📞 HINTS FOR MISSION ${status.taskNumber}\n\n${previousHints}\n\nThat was everything, you're on your own now.`);
+        return;
+      }
+
+      if (!window.confirm(`📞 Call for hint ${status.hints.length + 1} of ${status.totalHints}?\n\n${describeHintCost(status.cost)}`)) {
+        return;
+      }
+
+      let coords: { latitude: number; longitude: number; accuracy: number } | undefined;
+      try {
+        const position = await getCurrentPosition();
+        coords = {
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: position.coords.accuracy
+        };
+      } catch (err) {
+        // Fall back to the last known location on the server
+      }
+
+      const response = await fetch(API_ENDPOINTS.PLAYER_HINTS(currentPlayer.id), {
+        method: 'POST',
+        headers: playerHeaders(),
+        body: JSON.stringify({ ...coords, taskNumber })
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        if (data.cost.minutes) {
+          setTimePenaltyMinutes(prev => prev + data.cost.minutes);
+        }
+        alert([
+          `📞 HINT ${data.hintNumber}/${data.totalHints} FOR MISSION ${data.taskNumber}`,
+          data.hint,
+          data.revealed ? '⚠️ The hunters now know where you are!' : '',
+          data.cost.minutes ? `⏱️ ${data.cost.minutes} minutes were taken off your time.` : '',
+          data.cost.points ? `➖ ${data.cost.points} points were deducted.` : ''
+        ].filter(Boolean).join('\n\n'));
+      } else {
+        alert(data.error || 'Failed to make the phone call');
+      }
+    } catch (error) {
+      console.error('Error making phone call:', error);
+      alert('Failed to make the phone call');
     }
   };
 
@@ -645,24 +1114,24 @@ const GamePage = () => {
 
   const { game, counts } = gameData;
 
-  // Calculate player's completed tasks
+  // Games created before the task count setting existed have 6 tasks
+  const taskCount = game.settings?.taskCount || 6;
+
+  // Calculate player's completed tasks, out of the steps on their route
   const playerCompletedTasks = currentPlayer?.tasksCompleted || 0;
+  const routeLength = route.length || taskCount;
+  const laterSteps = route.slice(playerCompletedTasks + 1);
   const completedTasksList = game.tasks?.filter(task => 
-    task.completedBy?.some(completion => completion.player === currentPlayer?.id)
+    completions.some(completion => completion.taskNumber === task.taskNumber)
   ) || [];
 
   // Get time remaining for big countdown
   const getTimeRemainingData = () => {
-    if (!game.startTime || game.status !== 'active') {
-      return { hours: 0, minutes: 0, seconds: 0, isActive: false, remaining: 0 };
+    const remaining = getClockRemainingMs(clock);
+    if (remaining === null || game.status !== 'active') {
+      return { hours: 0, minutes: 0, seconds: 0, isActive: false, remaining: remaining ?? 0 };
     }
 
-    const startTime = new Date(game.startTime);
-    const gameDuration = game.duration * 60 * 1000;
-    const now = new Date();
-    const totalElapsed = now.getTime() - startTime.getTime();
-    const remaining = Math.max(0, gameDuration - totalElapsed);
-
     const hours = Math.floor(remaining / (1000 * 60 * 60));
     const minutes = Math.floor((remaining % (1000 * 60 * 60)) / (1000 * 60));
     const seconds = Math.floor((remaining % (1000 * 60)) / 1000);
@@ -849,13 +1318,20 @@ const GamePage = () => {
                timeData.remaining < 900000 ? '⚠️ TIME RUNNING OUT!' : 
                '⏱️ TIME REMAINING'}
             </div>
+            {currentPlayer?.role === 'fugitive' && timePenaltyMinutes > 0 && (
+              <div className="countdown-penalty">
+                ⏱️ -{timePenaltyMinutes} MIN PENALTY: ESCAPE {timeData.remaining > timePenaltyMinutes * 60000
+                  ? `BEFORE ${new Date(Date.now() + timeData.remaining - timePenaltyMinutes * 60000).toLocaleTimeString()}`
+                  : 'NO LONGER POSSIBLE'}
+              </div>
+            )}
           </div>
         ) : (
           <div className="countdown-timer waiting">
             <div className="countdown-display">
               <div className="waiting-message">
                 {game.status === 'waiting' ? '⏳ WAITING TO START' :
-                 game.status === 'paused' ? '⏸️ GAME PAUSED' :
+                 game.status === 'paused' ? `⏸️ GAME PAUSED · ${formatClockTime(timeData.remaining)} LEFT` :
                  game.status === 'completed' ? '🏁 GAME COMPLETED' :
                  '⏸️ NOT STARTED'}
               </div>
@@ -864,6 +1340,24 @@ const GamePage = () => {
         )}
       </div>
 
+      {/* Timer warning banner */}
+      {timerWarning && (
+        <div
+          className={`timer-warning-banner ${timerWarning.minutesLeft <= 5 ? 'urgent' : ''}`}
+          onClick={() => setTimerWarning(null)}
+        >
+          <div className="timer-warning-title">⏰ {timerWarning.minutesLeft} MIN LEFT</div>
+          <div className="timer-warning-message">{timerWarning.message}</div>
+        </div>
+      )}
+
+      {/* Updates waiting for a connection */}
+      {queuedCount > 0 && (
+        <div className="outbox-banner" onClick={() => syncOutbox()}>
+          📡 {queuedCount} {queuedCount === 1 ? 'update' : 'updates'} waiting for a connection, tap to retry
+        </div>
+      )}
+
       {/* Player Info Bar */}
       {currentPlayer && (
         <div className="player-info-bar">
@@ -873,11 +1367,11 @@ const GamePage = () => {
             {currentPlayer.team && <div className="player-team">Team: {currentPlayer.team}</div>}
           </div>
           <div className="player-progress">
-            <div className="tasks-completed">{playerCompletedTasks}/6 TASKS</div>
+            <div className="tasks-completed">{playerCompletedTasks}/{routeLength} TASKS</div>
             <div className="progress-bar">
               <div 
                 className="progress-fill" 
-                style={{ width: `${(playerCompletedTasks / 6) * 100}%` }}
+                style={{ width: `${(playerCompletedTasks / routeLength) * 100}%` }}
               ></div>
             </div>
           </div>
@@ -888,21 +1382,28 @@ const GamePage = () => {
       <div className="mission-section">
         <h2 className="section-title">🎯 MISSION PROGRESS</h2>
         <div className="missions-grid">
-          {Array.from({ length: 6 }, (_, index) => {
+          {Array.from({ length: taskCount }, (_, index) => {
             const taskNumber = index + 1;
             const task = game.tasks?.find(t => t.taskNumber === taskNumber);
             const isCompleted = completedTasksList.some(t => t.taskNumber === taskNumber);
-            const isCurrent = !isCompleted && taskNumber === playerCompletedTasks + 1;
-            const isLocked = taskNumber > playerCompletedTasks + 1;
+            const isCurrent = !isCompleted && (route.length > 0
+              ? availableTasks.includes(taskNumber)
+              : taskNumber === playerCompletedTasks + 1);
+            const lockedStep = laterSteps.findIndex(step => step.includes(taskNumber));
+            const isLocked = !isCompleted && !isCurrent && (route.length === 0
+              ? taskNumber > playerCompletedTasks + 1
+              : lockedStep !== -1);
+            // A branch not taken, or a task the fugitive chose not to do
+            const isSkipped = !isCompleted && !isCurrent && !isLocked;
 
             return (
               <div 
                 key={taskNumber} 
-                className={`mission-card ${isCompleted ? 'completed' : isCurrent ? 'current' : isLocked ? 'locked' : 'available'}`}
+                className={`mission-card ${isCompleted ? 'completed' : isCurrent ? 'current' : isLocked ? 'locked' : 'skipped'}`}
               >
                 <div className="mission-header">
                   <div className="mission-number">
-                    {isCompleted ? '✅' : isCurrent ? '🎯' : isLocked ? '🔒' : taskNumber}
+                    {isCompleted ? '✅' : isCurrent ? '🎯' : isLocked ? '🔒' : '⤼'}
                   </div>
                   <div className="mission-title">MISSION {taskNumber}</div>
                 </div>
@@ -912,10 +1413,8 @@ const GamePage = () => {
                     <div className="mission-completed">
                       <div className="completion-status">✅ COMPLETED</div>
                       <div className="completion-time">
-                        {completedTasksList.find(t => t.taskNumber === taskNumber)?.completedBy
-                          ?.find(c => c.player === currentPlayer?.id)?.completedAt 
-                          ? new Date(completedTasksList.find(t => t.taskNumber === taskNumber)?.completedBy
-                              ?.find(c => c.player === currentPlayer?.id)?.completedAt || '').toLocaleTimeString()
+                        {completions.find(c => c.taskNumber === taskNumber)?.completedAt 
+                          ? new Date(completions.find(c => c.taskNumber === taskNumber)?.completedAt || '').toLocaleTimeString()
                           : 'Completed'}
                       </div>
                     </div>
@@ -927,11 +1426,15 @@ const GamePage = () => {
                   ) : isLocked ? (
                     <div className="mission-locked">
                       <div className="lock-status">🔒 LOCKED</div>
-                      <div className="unlock-requirement">Complete previous missions</div>
+                      <div className="unlock-requirement">
+                        {route.length > 0
+                          ? `Step ${playerCompletedTasks + lockedStep + 2} of your route`
+                          : 'Complete previous missions'}
+                      </div>
                     </div>
-                  ) : (
-                    <div className="mission-available">
-                      <div className="mission-status">⏳ AVAILABLE</div>
+                  ) : isSkipped && (
+                    <div className="mission-skipped">
+                      <div className="lock-status">⤼ NOT ON YOUR ROUTE</div>
                     </div>
                   )}
                 </div>
@@ -966,7 +1469,7 @@ const GamePage = () => {
             {completedTasksList
               .sort((a, b) => a.taskNumber - b.taskNumber)
               .map(task => {
-                const completion = task.completedBy?.find(c => c.player === currentPlayer?.id);
+                const completion = completions.find(c => c.taskNumber === task.taskNumber);
                 return (
                   <div key={task.taskNumber} className="history-item">
                     <div className="history-header">
@@ -983,6 +1486,11 @@ const GamePage = () => {
                     <div className="history-question">
                       ❓ {task.question}
                     </div>
+                    {!!completion?.hintsUsed && (
+                      <div className="history-location">
+                        📞 {completion.hintsUsed} {completion.hintsUsed === 1 ? 'hint' : 'hints'} used
+                      </div>
+                    )}
                   </div>
                 );
               })}
@@ -990,6 +1498,65 @@ const GamePage = () => {
         </div>
       )}
 
+      {/* Last Revealed Fugitive Locations (hunters) */}
+      {currentPlayer?.role === 'hunter' && revealData && (
+        <div className="history-section">
+          <h2 className="section-title">📡 LAST KNOWN FUGITIVE LOCATIONS</h2>
+          <div className="reveal-schedule">
+            {revealData.lastRevealAt
+              ? `Last reveal: ${new Date(revealData.lastRevealAt).toLocaleTimeString()}`
+              : 'No reveal yet'}
+            {revealData.nextRevealAt && ` · Next reveal: ${new Date(revealData.nextRevealAt).toLocaleTimeString()}`}
+          </div>
+          <div className="history-list">
+            {revealData.fugitives.map(fugitive => (
+              <div key={fugitive.playerId} className="history-item">
+                <div className="history-header">
+                  <div className="history-mission">🏃 {fugitive.name.toUpperCase()}</div>
+                  <div className="history-time">{fugitive.status.toUpperCase()}</div>
+                </div>
+                {fugitive.revealedLocation ? (
+                  <div className="history-location">
+                    📍 {fugitive.revealedLocation.latitude.toFixed(5)}, {fugitive.revealedLocation.longitude.toFixed(5)}
+                    {' '}({new Date(fugitive.revealedLocation.revealedAt).toLocaleTimeString()})
+                  </div>
+                ) : (
+                  <div className="history-location">📍 Not revealed yet</div>
+                )}
+                {fugitive.status === 'active' && game.status === 'active' && (
+                  <button className="action-btn danger catch-btn" onClick={() => handleCatch(fugitive)}>
+                    🚨 CAUGHT {fugitive.name.toUpperCase()}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Possible Extraction Points (hunters); some may be decoys */}
+      {currentPlayer?.role === 'hunter' && (game.extractionPoints?.length || 0) > 1 && (
+        <div className="history-section">
+          <h2 className="section-title">🚁 POSSIBLE EXTRACTION POINTS</h2>
+          <div className="reveal-schedule">
+            The fugitives escape through some of these. Not all of them are real.
+          </div>
+          <div className="history-list">
+            {game.extractionPoints!.map(point => (
+              <div key={`${point.latitude},${point.longitude}`} className="history-item">
+                <div className="history-header">
+                  <div className="history-mission">📍 {point.address || `${point.latitude.toFixed(5)}, ${point.longitude.toFixed(5)}`}</div>
+                  <div className="history-time">{point.radius}m</div>
+                </div>
+                {describeExtractionWindow(point) && (
+                  <div className="history-location">⏰ {describeExtractionWindow(point)}</div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Action Buttons */}
       <div className="game-actions">
         {currentPlayer?.role === 'fugitive' && (
@@ -997,7 +1564,42 @@ const GamePage = () => {
             📱 SCAN QR CODE
           </button>
         )}
+
+        {currentPlayer?.role === 'hunter' && (
+          <button className="action-btn primary" onClick={handleScanQR}>
+            🪪 SCAN BADGE
+          </button>
+        )}
+
+        {currentPlayer?.role === 'fugitive' && currentPlayer.status === 'active' && game.status === 'active' && (
+          <button className="action-btn secondary" onClick={handleShowBadge}>
+            🪪 SHOW MY BADGE
+          </button>
+        )}
+
+        {currentPlayer?.role === 'fugitive' && game.status === 'active' && playerCompletedTasks < routeLength && (
+          <button className="action-btn secondary" onClick={handlePhoneCall}>
+            📞 CALL FOR A HINT
+          </button>
+        )}
+
+        {currentPlayer?.role !== 'spectator' && currentPlayer?.status === 'active' && game.status === 'active' && (
+          <button className="action-btn secondary" onClick={handleUpdateLocation}>
+            📍 SEND MY LOCATION
+          </button>
+        )}
         
+        {pushState === 'disabled' && (
+          <button className="action-btn secondary" onClick={handleEnableNotifications}>
+            🔔 ENABLE NOTIFICATIONS
+          </button>
+        )}
+
+        <button className="action-btn secondary" onClick={() => setShowInbox(true)}>
+          📨 MESSAGES
+          {unreadCount > 0 && <span className="unread-badge">{unreadCount}</span>}
+        </button>
+
         <button className="action-btn secondary" onClick={handleViewMap}>
           🗺️ VIEW MAP
         </button>
@@ -1008,15 +1610,13 @@ const GamePage = () => {
       </div>
 
       {/* Status Messages */}
-      {game.status === 'waiting' && (
-        <div className="status-message waiting">
-          <div className="status-icon">⏳</div>
-          <div className="status-text">
-            <strong>WAITING FOR GAME TO START</strong>
-            <br />
-            The game master will start the game when ready.
-          </div>
-        </div>
+      {inLobby && (
+        <GameLobby
+          players={lobbyPlayers}
+          clock={clock}
+          currentPlayerId={currentPlayer?.id}
+          currentPlayerRole={currentPlayer?.role}
+        />
       )}
 
       {game.status === 'paused' && (
@@ -1030,17 +1630,103 @@ const GamePage = () => {
         </div>
       )}
 
-      {playerCompletedTasks === 6 && game.status === 'active' && (
+      {playerCompletedTasks >= routeLength && game.status === 'active' && (
         <div className="status-message success">
           <div className="status-icon">🎉</div>
           <div className="status-text">
             <strong>ALL MISSIONS COMPLETED!</strong>
             <br />
-            Head to the extraction point: {game.extractionPoint?.address}
+            Head to the extraction point: {(extraction?.extractionPoint || game.extractionPoint)?.address}
+            {extraction ? describeExtractionWindow(extraction) && (
+              <>
+                <br />
+                {describeExtractionWindow(extraction)}.
+              </>
+            ) : clock?.extractionOpensAt && new Date(clock.extractionOpensAt).getTime() > Date.now() && (
+              <>
+                <br />
+                It opens at {new Date(clock.extractionOpensAt).toLocaleTimeString()}.
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Chat with the player's role, team and the game masters */}
+      {currentPlayer && (
+        <div className="game-chat-section">
+          <h4>💬 CHAT</h4>
+          <GameChat gameId={game.id} playerId={currentPlayer.id} />
+        </div>
+      )}
+
+      {/* Fugitive badge, shown to the hunter who caught them */}
+      {badgeQRCode && (
+        <div className="badge-overlay" onClick={() => setBadgeQRCode(null)}>
+          <div className="badge-card" onClick={(e) => e.stopPropagation()}>
+            <h3>🪪 {currentPlayer?.name}</h3>
+            <img src={badgeQRCode} alt="Fugitive badge" className="badge-qr" />
+            <p>Caught? Let the hunter scan this badge.</p>
+            <button className="action-btn secondary" onClick={() => setBadgeQRCode(null)}>
+              CLOSE
+            </button>
           </div>
         </div>
       )}
 
+      {/* Messages from the game master */}
+      {showInbox && (
+        <div className="inbox-overlay" onClick={() => setShowInbox(false)}>
+          <div className="inbox-card" onClick={(e) => e.stopPropagation()}>
+            <h3>📨 MESSAGES</h3>
+            {messages.length === 0 ? (
+              <p>No messages from the game master yet.</p>
+            ) : (
+              <div className="inbox-list">
+                {messages.map(message => (
+                  <div key={message.id} className={`inbox-message ${message.type} ${message.read ? '' : 'unread'}`}>
+                    <div className="inbox-message-meta">
+                      {message.type === 'timer_warning' ? '⏰' : '📢'} {message.sender} · {new Date(message.timestamp).toLocaleTimeString()}
+                    </div>
+                    <div>{message.text}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <button className="action-btn secondary" onClick={() => setShowInbox(false)}>
+              CLOSE
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Task unlocked by the last scan */}
+      {activeTask && gameData?.game && (
+        <TaskSheet
+          task={activeTask.task}
+          gameId={gameData.game.id}
+          proof={activeTask.proof}
+          onSubmit={handleSubmitTaskAnswer}
+          onClose={() => setActiveTask(null)}
+        />
+      )}
+
+      {pickingHintTask && (
+        <HintTaskPicker
+          taskNumbers={availableTasks}
+          onPick={(taskNumber) => {
+            setPickingHintTask(false);
+            callForHint(taskNumber);
+          }}
+          onClose={() => setPickingHintTask(false)}
+        />
+      )}
+
+      {/* A hunter's catch waiting for this fugitive's answer */}
+      {catchRequest && (
+        <CatchRequestDialog request={catchRequest} onAnswer={handleCatchAnswer} />
+      )}
+
       {/* QR Scanner Modal */}
       {showQRScanner && (
         <QRScanner
@@ -1129,6 +1815,12 @@ const GamePage = () => {
           background: #0056b3;
         }
 
+        .reveal-schedule {
+          font-size: 0.9rem;
+          color: #6c757d;
+          margin-bottom: 0.75rem;
+        }
+
         .task-map-modal {
           position: fixed;
           top: 0;
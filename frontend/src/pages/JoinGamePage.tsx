@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation } from 'react-router-dom';
 import { API_ENDPOINTS } from '../config/api';
 
 interface PredefinedPlayer {
@@ -21,9 +21,17 @@ interface GameInfo {
   allPlayers: (PredefinedPlayer & { isJoined: boolean })[];
 }
 
+// Sent here from a scanned task link: the game to join and the task page to go back to
+interface JoinRedirectState {
+  gameCode?: string;
+  returnTo?: string;
+}
+
 const JoinGamePage = () => {
   const navigate = useNavigate();
-  const [gameCode, setGameCode] = useState('');
+  const location = useLocation();
+  const redirect = (location.state || {}) as JoinRedirectState;
+  const [gameCode, setGameCode] = useState(redirect.gameCode || '');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [gameInfo, setGameInfo] = useState<GameInfo | null>(null);
@@ -113,6 +121,7 @@ const JoinGamePage = () => {
 
       if (response.ok) {
         // Store player info in localStorage for the game session
+        localStorage.setItem('playerToken', data.token);
         localStorage.setItem('playerId', data.player.id);
         localStorage.setItem('playerName', data.player.name);
         localStorage.setItem('playerRole', data.player.role);
@@ -122,7 +131,12 @@ const JoinGamePage = () => {
         const teamInfo = data.player.team ? `\nTeam: ${data.player.team}` : '';
         alert(`Successfully joined game "${data.game.name}"!\n\nPlayer: ${data.player.name}\nRole: ${data.player.role}${teamInfo}\nStatus: ${data.player.status}\n\nGame Code: ${data.game.gameCode}`);
         
-        // Navigate to the game page
+        // Back to the task that was scanned, or on to the game page
+        if (redirect.returnTo && data.game.gameCode === redirect.gameCode) {
+          navigate(redirect.returnTo, { replace: true });
+          return;
+        }
+
         navigate(`/game/${data.game.gameCode}`, { 
           state: { 
             player: data.player, 
@@ -164,7 +178,9 @@ const JoinGamePage = () => {
       <header className="App-header">
         <h1>🔍 Join Game</h1>
         <p style={{ fontSize: '1rem', color: '#CCC', marginBottom: '2rem', maxWidth: '500px' }}>
-          Enter the game code provided by your game lead and select your assigned player name.
+          {redirect.returnTo
+            ? 'Join the game to answer the task you scanned. Select your assigned player name.'
+            : 'Enter the game code provided by your game lead and select your assigned player name.'}
         </p>
         
         <form onSubmit={handleSubmit} style={{ maxWidth: '400px', margin: '0 auto' }}>
@@ -0,0 +1,180 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate, useParams, useLocation } from 'react-router-dom';
+import { API_ENDPOINTS, playerHeaders } from '../config/api';
+import TaskSheet from '../components/TaskSheet';
+import { queueItem, flushOutbox } from '../services/offlineOutbox';
+import { TaskType, TaskMedia, describeTaskNumbers } from '../services/taskAnswers';
+
+interface TaskDetails {
+  id: string;
+  taskNumber: number;
+  question: string;
+  type: TaskType;
+  options?: string[];
+  checkInRadius?: number;
+  media?: TaskMedia;
+  gameId: string;
+  gameName: string;
+  gameCode: string;
+  gameStatus: string;
+}
+
+// Where the player stands, from GET /api/tasks/:gameId/:taskNumber
+interface TaskProgress {
+  playerId: string;
+  role: string;
+  status: string;
+  completedTasks: number;
+  totalTasks: number;
+  availableTasks: number[]; // open to the player now, several when their route offers a choice
+  isCurrentTask: boolean;
+  isCompleted: boolean;
+}
+
+// Opened by scanning a task QR code with the phone's own camera: /task/:gameId/:taskNumber?sig=...
+// Players without a session for this game join first and are sent back here.
+const TaskPage = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { gameId, taskNumber } = useParams();
+  const query = new URLSearchParams(location.search);
+  const signature = query.get('sig') || undefined;
+  const manualCode = query.get('code') || undefined;
+
+  const [task, setTask] = useState<TaskDetails | null>(null);
+  const [progress, setProgress] = useState<TaskProgress | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchTask = useCallback(async () => {
+    if (!gameId || !taskNumber) return;
+
+    if (!signature && !manualCode) {
+      setError('This link is missing its task code. Scan the QR code again.');
+      setLoading(false);
+      return;
+    }
+
+    const params = new URLSearchParams();
+    if (signature) params.set('sig', signature);
+    if (manualCode) params.set('code', manualCode);
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.TASK_DETAILS(gameId, taskNumber)}?${params}`, {
+        headers: playerHeaders(false)
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.code === 'INVALID_TASK_CODE'
+          ? 'This code does not match any task in this game, or it has been replaced by the game master.'
+          : data.error || 'Failed to load the task');
+        return;
+      }
+
+      // Only a player of this game can answer; anyone else joins first and comes back
+      if (!data.progress) {
+        navigate('/join', {
+          replace: true,
+          state: { gameCode: data.task.gameCode, returnTo: `${location.pathname}${location.search}` }
+        });
+        return;
+      }
+
+      setTask(data.task);
+      setProgress(data.progress);
+    } catch (err) {
+      console.error('Error loading task:', err);
+      setError('Network error. Please check your connection and try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [gameId, taskNumber, signature, manualCode, navigate, location.pathname, location.search]);
+
+  useEffect(() => {
+    fetchTask();
+  }, [fetchTask]);
+
+  const handleBackToGame = () => {
+    navigate(task ? `/game/${task.gameCode}` : '/');
+  };
+
+  // Answers go through the outbox, so one given without signal is sent later
+  const handleSubmitAnswer = async (data: Record<string, unknown>) => {
+    if (!progress) return undefined;
+
+    const item = await queueItem(progress.playerId, 'task_answer', data);
+    return flushOutbox(progress.playerId)
+      .then(results => results.find(sent => sent.id === item.id))
+      .catch(() => undefined);
+  };
+
+  if (loading) {
+    return (
+      <div className="App">
+        <header className="App-header">
+          <h1>🔍 Loading Task...</h1>
+        </header>
+      </div>
+    );
+  }
+
+  if (error || !task || !progress) {
+    return (
+      <div className="App">
+        <header className="App-header">
+          <h1>🔍 Task Error</h1>
+          <p>{error || 'Task not found'}</p>
+          <button className="btn btn-secondary" onClick={() => navigate('/')}>
+            Back to Home
+          </button>
+        </header>
+      </div>
+    );
+  }
+
+  // Why this player can't answer this task right now, if they can't
+  const blockedReason = progress.role !== 'fugitive'
+    ? 'Only fugitives answer tasks. Hunters scan fugitive badges from the game page.'
+    : task.gameStatus !== 'active'
+      ? task.gameStatus === 'paused'
+        ? 'The game is paused. Come back when the game master resumes it.'
+        : 'Tasks can only be answered while the game is running.'
+      : progress.status !== 'active' && progress.status !== 'waiting'
+        ? 'You are out of the game.'
+        : progress.isCompleted
+          ? `You have already completed Task ${task.taskNumber}.`
+          : progress.availableTasks.length === 0
+            ? 'You have completed every task. Head for the extraction point!'
+            : !progress.isCurrentTask
+              ? `Task ${task.taskNumber} is not open to you right now. Your next ${progress.availableTasks.length > 1 ? 'tasks are' : 'task is'} ${describeTaskNumbers(progress.availableTasks)}.`
+              : null;
+
+  return (
+    <div className="App">
+      <header className="App-header">
+        <div className="task-page">
+          <div className="task-page-game">{task.gameName}</div>
+          <h1>📍 Task {task.taskNumber}</h1>
+
+          {blockedReason ? (
+            <div className="task-feedback error" role="alert">{blockedReason}</div>
+          ) : (
+            <TaskSheet
+              task={task}
+              gameId={task.gameId}
+              proof={{ signature, manualCode }}
+              onSubmit={handleSubmitAnswer}
+            />
+          )}
+
+          <button className="action-btn secondary" onClick={handleBackToGame}>
+            🔙 BACK TO GAME
+          </button>
+        </div>
+      </header>
+    </div>
+  );
+};
+
+export default TaskPage;
@@ -0,0 +1,92 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+
+// Built by react-scripts into service-worker.js for production builds only.
+// Precaches the app shell, keeps the last known game state for when the signal drops,
+// and shows Web Push notifications while the game tab is in the background.
+
+import { clientsClaim } from 'workbox-core';
+import { ExpirationPlugin } from 'workbox-expiration';
+import { precacheAndRoute, createHandlerBoundToURL } from 'workbox-precaching';
+import { registerRoute } from 'workbox-routing';
+import { NetworkFirst } from 'workbox-strategies';
+
+declare const self: ServiceWorkerGlobalScope;
+
+clientsClaim();
+self.skipWaiting();
+
+precacheAndRoute(self.__WB_MANIFEST);
+
+// Every page is the single-page app, so /game/... and /task/... open offline too
+const fileExtensionRegexp = /\/[^/?]+\.[^/]+$/;
+registerRoute(
+  ({ request, url }) =>
+    request.mode === 'navigate' &&
+    !url.pathname.startsWith('/api/') &&
+    !fileExtensionRegexp.test(url.pathname),
+  createHandlerBoundToURL(process.env.PUBLIC_URL + '/index.html')
+);
+
+// The game, its tasks and what the player last saw. Fresh from the server whenever it
+// answers, the cached copy when it doesn't. Updates go through the outbox instead.
+const GAME_STATE_PATHS = [
+  /^\/api\/games\/code\/[^/]+$/,
+  /^\/api\/players\/[^/]+\/(reveals|lobby|messages|chat)$/,
+  /^\/api\/tasks\/player\/[^/]+\/completed$/
+];
+
+registerRoute(
+  ({ request, url }) => request.method === 'GET' && GAME_STATE_PATHS.some(path => path.test(url.pathname)),
+  new NetworkFirst({
+    cacheName: 'game-state',
+    networkTimeoutSeconds: 5,
+    plugins: [new ExpirationPlugin({ maxEntries: 50, maxAgeSeconds: 24 * 60 * 60 })]
+  })
+);
+
+// Sent by backend/services/notificationService.js
+interface PushPayload {
+  title: string;
+  body?: string;
+  tag?: string;
+  url?: string;
+  gameId?: string;
+}
+
+self.addEventListener('push', (event) => {
+  const data: PushPayload = event.data ? event.data.json() : { title: 'Klopjacht' };
+
+  event.waitUntil((async () => {
+    // A page the player is looking at already shows the event itself
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.some(client => client.visibilityState === 'visible')) return;
+
+    await self.registration.showNotification(data.title, {
+      body: data.body,
+      tag: data.tag,
+      data: { url: data.url || '/' }
+    });
+  })());
+});
+
+// Open the game, reusing a tab that is already open
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url: string = event.notification.data?.url || '/';
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const existing = windows.find(client => new URL(client.url).pathname === url) || windows[0];
+
+    if (!existing) {
+      await self.clients.openWindow(url);
+      return;
+    }
+
+    await existing.focus();
+    if (new URL(existing.url).pathname !== url) {
+      await existing.navigate(url).catch(() => self.clients.openWindow(url));
+    }
+  })());
+});
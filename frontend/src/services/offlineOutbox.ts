@@ -0,0 +1,145 @@
+import { API_ENDPOINTS, playerHeaders } from '../config/api';
+import { TaskAnswerResult } from './taskAnswers';
+
+// Location updates and answers are queued in IndexedDB before they are sent, so nothing a
+// player does in a tunnel is lost. Each keeps the time it was recorded and an ID the server
+// uses to apply it only once, however often it is sent.
+
+export type OutboxItemType = 'location' | 'task_answer';
+
+export interface OutboxItem {
+  id: string;
+  playerId: string;
+  type: OutboxItemType;
+  recordedAt: string;
+  data: Record<string, unknown>;
+}
+
+// Where an applied location update left the player
+export interface LocationResult {
+  latest: boolean;
+  location: { latitude: number; longitude: number; lastUpdated: string };
+  status: string;
+}
+
+// What the server did with a sent item, see backend/services/syncService.js. Only applied
+// items have a result, whose shape depends on the item's type.
+interface SyncResultBase {
+  id: string;
+  status: 'applied' | 'rejected' | 'retry';
+  duplicate: boolean;
+  error?: string;
+  code?: string;
+}
+
+type SyncResult =
+  | SyncResultBase & { type: 'location'; result?: LocationResult }
+  | SyncResultBase & { type: 'task_answer'; result?: TaskAnswerResult };
+
+export type OutboxResult = SyncResult & { item: OutboxItem };
+
+// The server's verdict on an answer, undefined until one was applied
+export const getAnswerResult = (outcome: OutboxResult) =>
+  outcome.type === 'task_answer' && outcome.status === 'applied' ? outcome.result : undefined;
+
+const DB_NAME = 'klopjacht-outbox';
+const STORE = 'items';
+const MAX_BATCH = 50;
+
+const openDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id' });
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Run requests against the outbox store and wait until they are written
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDb();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request ? request.result : undefined);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+const newItemId = () =>
+  Array.from(window.crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const getQueuedItems = async (playerId: string) => {
+  const items = await withStore<OutboxItem[]>('readonly', store => store.getAll()) || [];
+  return items
+    .filter(item => item.playerId === playerId)
+    .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+};
+
+export const queueItem = async (
+  playerId: string,
+  type: OutboxItemType,
+  data: Record<string, unknown>,
+  recordedAt = new Date()
+) => {
+  const item: OutboxItem = { id: newItemId(), playerId, type, recordedAt: recordedAt.toISOString(), data };
+  await withStore('readwrite', store => { store.put(item); });
+  return item;
+};
+
+const removeItems = (ids: string[]) =>
+  withStore('readwrite', store => ids.forEach(id => store.delete(id)));
+
+const sendQueued = async (playerId: string) => {
+  const results: OutboxResult[] = [];
+  const items = await getQueuedItems(playerId);
+
+  for (let start = 0; start < items.length; start += MAX_BATCH) {
+    const batch = items.slice(start, start + MAX_BATCH);
+    const response = await fetch(API_ENDPOINTS.PLAYER_SYNC(playerId), {
+      method: 'POST',
+      headers: playerHeaders(),
+      body: JSON.stringify({
+        items: batch.map(({ id, type, recordedAt, data }) => ({ id, type, recordedAt, data }))
+      })
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to send queued updates');
+    }
+
+    // Applied and rejected items are done; the server asks to resend the others later
+    const sent: SyncResult[] = data.results;
+    await removeItems(sent.filter(result => result.status !== 'retry').map(result => result.id));
+    results.push(...sent.map(result => ({ ...result, item: batch.find(item => item.id === result.id)! })));
+  }
+
+  return results;
+};
+
+let flushing: Promise<OutboxResult[]> | null = null;
+
+// Send everything queued for the player, oldest first. Throws while offline, the items
+// stay queued for the next try.
+export const flushOutbox = async (playerId: string): Promise<OutboxResult[]> => {
+  // An item queued during a send that is already running waits for the next one
+  if (flushing) {
+    await flushing.catch(() => undefined);
+  }
+
+  if (!flushing) {
+    flushing = sendQueued(playerId).finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+};
@@ -0,0 +1,89 @@
+import { API_ENDPOINTS, playerHeaders } from '../config/api';
+
+export type PushState = 'unsupported' | 'denied' | 'enabled' | 'disabled';
+
+export const isPushSupported = () =>
+  'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+// The VAPID key comes base64url encoded; the browser wants the raw bytes
+const decodeKey = (base64Url: string) => {
+  const base64 = (base64Url + '='.repeat((4 - (base64Url.length % 4)) % 4))
+    .replace(/-/g, '+')
+    .replace(/_/g, '/');
+  const raw = window.atob(base64);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+};
+
+export const getPushState = async (): Promise<PushState> => {
+  if (!isPushSupported()) return 'unsupported';
+  if (Notification.permission === 'denied') return 'denied';
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  const subscription = await registration?.pushManager.getSubscription();
+  return subscription && Notification.permission === 'granted' ? 'enabled' : 'disabled';
+};
+
+// Ask for permission and register this browser with the server, as the player who joined
+// or as the logged-in game master. Must be called from a tap or click.
+export const enablePushNotifications = async (as: 'player' | 'user') => {
+  if (!isPushSupported()) {
+    throw new Error('This browser cannot show notifications. On iPhone, add the game to your home screen first.');
+  }
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration) {
+    throw new Error('Notifications are only available in the installed app.');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications were blocked. Allow them in your browser settings.');
+  }
+
+  const keyResponse = await fetch(API_ENDPOINTS.NOTIFICATIONS_VAPID_KEY);
+  const keyData = await keyResponse.json();
+  if (!keyResponse.ok) {
+    throw new Error(keyData.error || 'Notifications are not available');
+  }
+
+  const subscription = await registration.pushManager.getSubscription() ||
+    await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeKey(keyData.publicKey)
+    });
+
+  const response = await fetch(
+    as === 'player' ? API_ENDPOINTS.NOTIFICATIONS_SUBSCRIBE_PLAYER : API_ENDPOINTS.NOTIFICATIONS_SUBSCRIBE_USER,
+    {
+      method: 'POST',
+      headers: as === 'player'
+        ? playerHeaders()
+        : {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        },
+      body: JSON.stringify({ subscription: subscription.toJSON() })
+    }
+  );
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error || 'Failed to enable notifications');
+  }
+};
+
+// Stop notifications on this browser, e.g. when the player leaves the game
+export const disablePushNotifications = async () => {
+  if (!isPushSupported()) return;
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  await fetch(API_ENDPOINTS.NOTIFICATIONS_UNSUBSCRIBE, {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ endpoint: subscription.endpoint })
+  });
+  await subscription.unsubscribe();
+};
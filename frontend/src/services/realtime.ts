@@ -0,0 +1,416 @@
+import { useEffect, useRef } from 'react';
+import { io, Socket } from 'socket.io-client';
+import { API_BASE_URL } from '../config/api';
+
+// Location as sent by the server (mirrors Player.currentLocation)
+export interface RealtimeLocation {
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number;
+  lastUpdated?: string;
+}
+
+export interface RevealedLocation {
+  playerId: string;
+  playerName: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  lastUpdated?: string;
+}
+
+export interface RevealZoneInfo {
+  id: string;
+  name?: string;
+  type: 'surveillance' | 'atm';
+}
+
+export interface CatchRequestInfo {
+  requestId: string;
+  gameId: string;
+  hunterId: string;
+  hunterName: string;
+  fugitiveId: string;
+  fugitiveName: string;
+}
+
+// Authoritative game clock pushed by backend/services/gameClockService.js
+export interface GameClock {
+  gameId: string;
+  status: string;
+  scheduledStartTime: string | null;
+  startTime: string | null;
+  endTime: string | null;
+  remainingSeconds: number | null;
+  pausedSeconds: number;
+  extractionOpensAt: string | null;
+  serverTime: string;
+}
+
+// Staged warning as time runs out, worded for the receiving role
+export interface TimerWarning {
+  gameId: string;
+  minutesLeft: number;
+  remainingSeconds: number;
+  role: string;
+  message: string;
+  timestamp: string;
+}
+
+// A fugitive's extraction point moved, or its own window opened or closed
+export interface ExtractionPointUpdate {
+  gameId: string;
+  extractionPoint: { latitude: number; longitude: number; address?: string };
+  opensAt: string | null;
+  closesAt: string | null;
+  message: string;
+}
+
+// A clock stamped with the local time it arrived, so it can be counted down between pushes
+export interface ReceivedClock extends GameClock {
+  receivedAt: number;
+}
+
+// A game master message in a player's inbox
+export interface InboxMessage {
+  id: string;
+  type: 'broadcast' | 'timer_warning';
+  text: string;
+  sender: string;
+  timestamp: string;
+  read: boolean;
+}
+
+// Chat channels: role:<role>, team:<role>:<team> or gm:<playerId> (a player's thread with the game masters)
+export interface ChatChannel {
+  id: string;
+  name: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  gameId: string;
+  channel: string;
+  message: string;
+  sender: {
+    name: string;
+    role: string;
+    playerId: string | null;
+    userId: string | null;
+  };
+  timestamp: string;
+}
+
+// Events emitted by backend/socket/socketHandler.js and the REST routes
+export interface ServerToClientEvents {
+  joined_game: (data: { gameId: string; message: string }) => void;
+  left_game: (data: { message: string }) => void;
+  player_joined: (data: {
+    socketId?: string;
+    playerId: string | null;
+    playerName?: string;
+    role?: string;
+    team?: string;
+    timestamp: string;
+  }) => void;
+  player_left: (data: { socketId: string; playerId: string | null; timestamp: string }) => void;
+  player_disconnected: (data: { socketId: string; playerId: string | null; reason: string; timestamp: string }) => void;
+  player_status_changed: (data: { playerId: string; playerName: string; oldStatus: string; newStatus: string; location?: RealtimeLocation }) => void;
+  game_started: (data: { gameId: string; startTime: string; endTime: string; message: string }) => void;
+  game_paused: (data: { gameId: string; pausedAt?: string; message: string }) => void;
+  game_resumed: (data: { gameId: string; resumedAt?: string; message: string }) => void;
+  game_ended: (data: { gameId: string; reason: string; winner?: string; message: string }) => void;
+  clock: (data: GameClock) => void;
+  timer_warning: (data: TimerWarning) => void;
+  // Without a point when the game has several: each fugitive has their own, and is told
+  // when it opens and closes if it has a window of its own
+  extraction_opened: (data: { gameId: string; extractionPoint?: { latitude: number; longitude: number; address?: string }; message: string }) => void;
+  extraction_closed: (data: ExtractionPointUpdate) => void;
+  extraction_point_changed: (data: ExtractionPointUpdate) => void;
+  game_start_failed: (data: { gameId: string; code: string; message: string }) => void;
+  game_message: (data: { gameId: string; message: InboxMessage }) => void;
+  messages_read: (data: { gameId: string; playerId: string; messageIds: string[]; readAt: string }) => void;
+  task_completed: (data: {
+    playerId: string;
+    playerName: string;
+    taskNumber: number;
+    completedTasks: number;
+    location?: RealtimeLocation;
+  }) => void;
+  player_caught: (data: {
+    playerId: string;
+    playerName: string;
+    location?: RealtimeLocation;
+    caughtBy: string | null;
+    caughtById: string | null;
+    method: 'game_master' | 'proximity' | 'badge';
+    timestamp: string;
+  }) => void;
+  catch_requested: (data: CatchRequestInfo & { distance: number; expiresAt: string }) => void;
+  catch_resolved: (data: CatchRequestInfo & {
+    status: 'confirmed' | 'disputed' | 'upheld' | 'dismissed';
+    caught: boolean;
+    autoConfirmed: boolean;
+    reason?: string;
+  }) => void;
+  player_escaped: (data: { playerId: string; playerName: string; location?: RealtimeLocation }) => void;
+  location_updated: (data: {
+    playerId: string;
+    playerName: string;
+    role: string;
+    location: RealtimeLocation;
+    trigger: string;
+    timestamp: string;
+  }) => void;
+  location_update_success: (data: { message: string; location: RealtimeLocation }) => void;
+  fugitives_revealed: (data: {
+    gameId: string;
+    trigger: 'automatic' | 'surveillance' | 'atm' | 'phone_call' | 'penalty';
+    revealedAt: string;
+    nextRevealAt: string | null;
+    locations: RevealedLocation[];
+    zone?: RevealZoneInfo;
+  }) => void;
+  fugitive_spotted: (data: { zone: RevealZoneInfo; timestamp: string }) => void;
+  photo_submitted: (data: { submissionId: string; playerId: string; playerName: string; taskNumber: number; submittedAt: string }) => void;
+  photo_reviewed: (data: { submissionId: string; taskNumber: number; approved: boolean; note?: string }) => void;
+  hint_used: (data: {
+    gameId: string;
+    playerId: string;
+    playerName: string;
+    taskNumber: number;
+    hintNumber: number;
+    cost: { type: 'none' | 'reveal' | 'time' | 'score'; minutes?: number; points?: number };
+    usedAt: string;
+  }) => void;
+  task_attempt_penalized: (data: {
+    gameId: string;
+    playerId: string;
+    playerName: string;
+    taskNumber: number;
+    penalty: 'none' | 'reveal' | 'time';
+    penaltyMinutes?: number;
+    lockedUntil: string | null;
+  }) => void;
+  chat_message: (data: ChatMessage) => void;
+  chat_message_deleted: (data: { gameId: string; channel: string; messageId: string }) => void;
+  chat_muted: (data: { gameId: string; muted: boolean }) => void;
+  session_revoked: (data: { message: string }) => void;
+  heartbeat_ack: (data: { timestamp: string }) => void;
+  error: (data: { message: string }) => void;
+}
+
+export interface ClientToServerEvents {
+  join_game: (data: { gameId: string; playerId?: string }) => void;
+  leave_game: (data: { gameId: string }) => void;
+  update_location: (data: { playerId: string; latitude: number; longitude: number; accuracy?: number; trigger?: 'manual' | 'automatic' }) => void;
+  game_control: (data: { action: 'start_game' | 'end_game' | 'pause_game' | 'resume_game' | 'catch_player'; gameId: string; targetPlayerId?: string }) => void;
+  chat_message: (data: { gameId: string; channel: string; message: string }, callback: (result: ChatSendResult) => void) => void;
+  heartbeat: () => void;
+}
+
+export type ChatSendResult =
+  | { ok: true; message: ChatMessage }
+  | { ok: false; error: string; code?: string };
+
+export type RealtimeSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// Keeps the player marked online (server drops players silent for 5 minutes)
+const HEARTBEAT_INTERVAL = 30000;
+
+// Reconnect when the server hasn't acknowledged a heartbeat in time
+const HEARTBEAT_TIMEOUT = 10000;
+
+let socket: RealtimeSocket | null = null;
+let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+let heartbeatTimeout: ReturnType<typeof setTimeout> | null = null;
+
+// Game rooms to (re)join on every connect, keyed by game ID
+const joinedGames = new Map<string, string | undefined>();
+const resyncHandlers = new Set<() => void>();
+
+const stopHeartbeat = () => {
+  if (heartbeatTimer) clearInterval(heartbeatTimer);
+  if (heartbeatTimeout) clearTimeout(heartbeatTimeout);
+  heartbeatTimer = null;
+  heartbeatTimeout = null;
+};
+
+const startHeartbeat = (s: RealtimeSocket) => {
+  stopHeartbeat();
+  heartbeatTimer = setInterval(() => {
+    if (heartbeatTimeout) return;
+
+    heartbeatTimeout = setTimeout(() => {
+      heartbeatTimeout = null;
+      console.warn('Heartbeat not acknowledged, reconnecting...');
+      s.disconnect().connect();
+    }, HEARTBEAT_TIMEOUT);
+    s.emit('heartbeat');
+  }, HEARTBEAT_INTERVAL);
+};
+
+// Shared socket for the whole app, created on first use
+export const getSocket = (): RealtimeSocket => {
+  if (socket) return socket;
+
+  const s: RealtimeSocket = io(API_BASE_URL, {
+    // Evaluated on every (re)connect so a fresh login is picked up
+    auth: (cb) => cb({
+      token: localStorage.getItem('token') || undefined,
+      playerToken: localStorage.getItem('playerToken') || undefined
+    }),
+    transports: ['websocket', 'polling'],
+    reconnection: true,
+    reconnectionDelay: 1000,
+    reconnectionDelayMax: 10000
+  });
+
+  let hasConnected = false;
+
+  s.on('connect', () => {
+    joinedGames.forEach((playerId, gameId) => {
+      s.emit('join_game', playerId ? { gameId, playerId } : { gameId });
+    });
+    startHeartbeat(s);
+
+    // Anything pushed while we were offline is lost, let pages refetch
+    if (hasConnected) {
+      resyncHandlers.forEach(handler => handler());
+    }
+    hasConnected = true;
+  });
+
+  s.on('disconnect', (reason) => {
+    console.warn('Realtime connection lost:', reason);
+    stopHeartbeat();
+  });
+
+  s.on('heartbeat_ack', () => {
+    if (heartbeatTimeout) clearTimeout(heartbeatTimeout);
+    heartbeatTimeout = null;
+  });
+
+  s.on('connect_error', (err) => {
+    console.error('Realtime connection refused:', err.message);
+  });
+
+  s.on('error', (data) => {
+    console.error('Realtime error:', data.message);
+  });
+
+  socket = s;
+  return s;
+};
+
+// Join a game room; defaults to the player stored at join time.
+// Returns a function that leaves the room again.
+export const joinGame = (gameId: string, playerId: string | null = localStorage.getItem('playerId')) => {
+  const s = getSocket();
+  const id = playerId || undefined;
+
+  joinedGames.set(gameId, id);
+  if (s.connected) {
+    s.emit('join_game', id ? { gameId, playerId: id } : { gameId });
+  }
+
+  return () => {
+    joinedGames.delete(gameId);
+    if (s.connected) {
+      s.emit('leave_game', { gameId });
+    }
+  };
+};
+
+// Called after a reconnect so state missed while offline can be refetched
+export const onResync = (handler: () => void) => {
+  resyncHandlers.add(handler);
+  return () => {
+    resyncHandlers.delete(handler);
+  };
+};
+
+type EventHandlers = {
+  [E in keyof ServerToClientEvents]?: ServerToClientEvents[E];
+};
+
+// Join the given game rooms and listen to events for as long as the component is mounted.
+// Handlers may change between renders without re-subscribing.
+export const useGameEvents = (
+  gameIds: string[],
+  handlers: EventHandlers,
+  options: { playerId?: string | null; onResync?: () => void } = {}
+) => {
+  const handlersRef = useRef(handlers);
+  const resyncRef = useRef(options.onResync);
+  handlersRef.current = handlers;
+  resyncRef.current = options.onResync;
+
+  const gameKey = gameIds.filter(Boolean).sort().join(',');
+  const playerId = options.playerId;
+
+  useEffect(() => {
+    if (!gameKey) return;
+
+    const s = getSocket();
+    const leaves = gameKey.split(',').map(gameId =>
+      playerId === undefined ? joinGame(gameId) : joinGame(gameId, playerId)
+    );
+
+    // Every event goes to the handler for it at the time it arrives
+    const listener = (event: string, ...args: unknown[]) => {
+      const handler = handlersRef.current[event as keyof ServerToClientEvents] as ((...a: unknown[]) => void) | undefined;
+      handler?.(...args);
+    };
+    s.onAny(listener);
+
+    const offResync = onResync(() => resyncRef.current?.());
+
+    return () => {
+      s.offAny(listener);
+      leaves.forEach(leave => leave());
+      offResync();
+    };
+  }, [gameKey, playerId]);
+};
+
+// Post in a chat channel as whoever this socket authenticated as
+export const sendChatMessage = (gameId: string, channel: string, message: string) =>
+  new Promise<ChatSendResult>(resolve => {
+    const s = getSocket();
+    if (!s.connected) {
+      resolve({ ok: false, error: 'Not connected, try again in a moment' });
+      return;
+    }
+
+    s.timeout(10000).emit('chat_message', { gameId, channel, message }, (err, result) => {
+      resolve(err ? { ok: false, error: 'The server did not answer, try again' } : result);
+    });
+  });
+
+export const receiveClock = (clock: GameClock): ReceivedClock => ({ ...clock, receivedAt: Date.now() });
+
+// Playing time left in milliseconds. The server decides when time is up; between pushes
+// the clock only counts down locally while the server says the game is running.
+export const getClockRemainingMs = (clock?: ReceivedClock | null, now = Date.now()): number | null => {
+  if (!clock || clock.remainingSeconds === null) return null;
+
+  const remaining = clock.remainingSeconds * 1000;
+  return clock.status === 'active' ? Math.max(0, remaining - (now - clock.receivedAt)) : remaining;
+};
+
+// Time until a scheduled start, measured on the server's clock rather than the phone's
+export const getClockStartsInMs = (clock?: ReceivedClock | null, now = Date.now()): number | null => {
+  if (!clock?.scheduledStartTime || !['setup', 'waiting'].includes(clock.status)) return null;
+
+  const startsIn = new Date(clock.scheduledStartTime).getTime() - new Date(clock.serverTime).getTime();
+  return Math.max(0, startsIn - (now - clock.receivedAt));
+};
+
+export const formatClockTime = (remainingMs: number) => {
+  const hours = Math.floor(remainingMs / (1000 * 60 * 60));
+  const minutes = Math.floor((remainingMs % (1000 * 60 * 60)) / (1000 * 60));
+  const seconds = Math.floor((remainingMs % (1000 * 60)) / 1000);
+
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,102 @@
+export type TaskType = 'text' | 'multiple_choice' | 'numeric' | 'gps_checkin' | 'photo';
+
+export interface WrongAnswerResult {
+  attemptsLeft?: number | null;
+  lockedUntil?: string | null;
+  penalty?: 'none' | 'reveal' | 'time';
+  penaltyMinutes?: number;
+}
+
+// What a wrong answer cost the fugitive, as lines for the answer feedback
+export const describeWrongAnswer = (result: WrongAnswerResult) => {
+  const lines: string[] = [];
+
+  if (result.lockedUntil) {
+    lines.push(`🔒 Too many wrong answers. This mission is locked until ${new Date(result.lockedUntil).toLocaleTimeString()}.`);
+  } else if (result.attemptsLeft != null) {
+    lines.push(`You have ${result.attemptsLeft} ${result.attemptsLeft === 1 ? 'attempt' : 'attempts'} left before this mission locks.`);
+  }
+
+  if (result.penalty === 'reveal') {
+    lines.push('📡 Penalty: your location was revealed to the hunters!');
+  } else if (result.penalty === 'time') {
+    lines.push(`⏱️ Penalty: ${result.penaltyMinutes} minutes taken off your time to escape!`);
+  }
+
+  return lines;
+};
+
+// Picture, sound or video the game master added to a question
+export interface TaskMedia {
+  url: string;
+  kind: 'image' | 'audio' | 'video';
+  caption?: string;
+}
+
+// The QR signature or typed code that unlocked a task
+export interface TaskProof {
+  signature?: string;
+  manualCode?: string;
+}
+
+export interface TaskLocation {
+  latitude: number;
+  longitude: number;
+  address?: string;
+}
+
+// When an extraction point can be used, null for no limit
+export interface ExtractionWindow {
+  opensAt?: string | null;
+  closesAt?: string | null;
+}
+
+// Where a fugitive heads after a correct answer, from the answer result. `choices` lists
+// every task they may pick when their route offers a choice.
+export interface NextStep extends ExtractionWindow {
+  type: 'next_task' | 'extraction';
+  message: string;
+  nextTaskNumber?: number;
+  nextLocation?: TaskLocation;
+  choices?: { taskNumber: number; location: TaskLocation }[];
+  extractionPoint?: TaskLocation;
+  isOpen?: boolean;
+}
+
+// What the server says about an answer, see backend/services/taskProgressService.js
+export interface CorrectAnswer {
+  correct: true;
+  message: string;
+  taskNumber: number;
+  tasksCompleted: number;
+  totalTasks: number;
+  nextStep: NextStep | null;
+}
+
+export interface WrongAnswer extends WrongAnswerResult {
+  correct: false;
+  code: string;
+  message: string;
+  taskNumber: number;
+  distance?: number;
+}
+
+export type TaskAnswerResult = CorrectAnswer | WrongAnswer;
+
+// "Open from 14:30 until 14:50", or null when the point is open for the rest of the game
+export const describeExtractionWindow = ({ opensAt: openingAt, closesAt }: ExtractionWindow) => {
+  const time = (at: string) => new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const opensAt = openingAt && new Date(openingAt).getTime() > Date.now() ? openingAt : null;
+
+  if (closesAt && new Date(closesAt).getTime() <= Date.now()) return `Closed since ${time(closesAt)}`;
+  if (opensAt && closesAt) return `Open from ${time(opensAt)} until ${time(closesAt)}`;
+  if (opensAt) return `Opens at ${time(opensAt)}`;
+  if (closesAt) return `Open until ${time(closesAt)}`;
+  return null;
+};
+
+// "Task 3", or "Task 2, 4 or 5"
+export const describeTaskNumbers = (taskNumbers: number[]) =>
+  taskNumbers.length > 1
+    ? `Task ${taskNumbers.slice(0, -1).join(', ')} or ${taskNumbers[taskNumbers.length - 1]}`
+    : `Task ${taskNumbers[0]}`;